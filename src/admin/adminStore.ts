@@ -0,0 +1,487 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { isGame } from '../feed/feedItems';
+import { FeedEntry, FeedOverlay, Game, GameScore, GameStatus, SportType, Team } from '../types';
+import { createLogger } from '../utils/logger';
+
+// ═══════════════════════════════════════════════════════════════════════
+//  Admin data: manual games, provider overrides, hidden and pinned items
+//
+//  Manual games (local high-school, minor-league — anything no provider
+//  covers) are published alongside provider entries. Overrides patch
+//  fields of a provider game by id until they expire. Hidden entries are
+//  left out of the published snapshot and pinned ones lead it. All of it
+//  is applied as a FeedOverlay on every refresh and saved to one JSON file
+//  so it survives restarts.
+// ═══════════════════════════════════════════════════════════════════════
+
+const log = createLogger('Admin');
+
+/** Fields an override patches on a provider game; `status` merges over the provider's. */
+export interface GameOverride {
+  id: string;                       // provider game id
+  score?: Partial<GameScore>;
+  status?: Partial<GameStatus>;
+  home?: Partial<Team>;
+  away?: Partial<Team>;
+  leagueLabel?: string;
+  reason?: string;
+  createdAt: string;
+  updatedAt: string;
+  expiresAt: string;
+}
+
+export interface AdminStoreOptions {
+  file: string;
+  overrideTtlMs: number;            // when a request gives no expiry
+  maxOverrideTtlMs: number;
+}
+
+/** Operator flags for one feed entry (provider or manual). */
+export interface EntryFlags {
+  id: string;
+  hidden: boolean;
+  pinned: boolean;
+}
+
+interface AdminData {
+  games: Game[];
+  overrides: GameOverride[];
+  hidden: string[];
+  pinned: string[];
+}
+
+type Result<T> = T | { error: string };
+
+const MANUAL_PREFIX = 'manual-';
+const LEAGUES: SportType[] = ['NBA', 'NHL', 'NFL', 'MLB', 'NCAAF', 'NCAAB'];
+const STATES: GameStatus['state'][] = ['pre', 'in_progress', 'final'];
+const POSSESSION: NonNullable<GameStatus['possession']>[] = ['home', 'away'];
+const INNING_HALVES: NonNullable<GameStatus['inningHalf']>[] = ['top', 'middle', 'bottom', 'end'];
+const STATUS_KEYS = [
+  'state', 'period', 'clock', 'detail', 'betweenPeriods', 'shootout',
+  'possession', 'down', 'distance', 'yardLine', 'inningHalf', 'outs',
+];
+const ABBR = /^[A-Z0-9&.]{1,6}$/;
+const COLOR = /^#[0-9a-f]{3}([0-9a-f]{3})?$/i;
+const ID = /^[a-z0-9][a-z0-9-]{0,79}$/;
+
+export class AdminStore implements FeedOverlay {
+  private options: AdminStoreOptions;
+  private file: string;
+  private games: Game[] = [];
+  private overrides = new Map<string, GameOverride>();
+  private hidden = new Set<string>();
+  private pinned = new Set<string>();
+  private arranged: FeedEntry[] = [];      // last sorted snapshot, hidden entries included
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(options: AdminStoreOptions) {
+    this.options = options;
+    this.file = path.resolve(process.cwd(), options.file);
+  }
+
+  /** Load saved games and overrides; a missing file starts empty. */
+  load(): void {
+    if (!fs.existsSync(this.file)) return;
+    const data = JSON.parse(fs.readFileSync(this.file, 'utf-8')) as Partial<AdminData>;
+    this.games = data.games || [];
+    this.overrides = new Map((data.overrides || []).map((o) => [o.id, o]));
+    this.hidden = new Set(data.hidden || []);
+    this.pinned = new Set(data.pinned || []);
+    log.info('Loaded admin data', {
+      games: this.games.length,
+      overrides: this.overrides.size,
+      hidden: this.hidden.size,
+      pinned: this.pinned.size,
+    });
+  }
+
+  // ── FeedOverlay ────────────────────────────────────────────────────
+
+  apply(entries: FeedEntry[], now: Date): FeedEntry[] {
+    this.pruneExpired(now);
+    const patched = entries.map((entry) => {
+      const override = isGame(entry) ? this.overrides.get(entry.id) : undefined;
+      return override ? applyOverride(entry as Game, override) : entry;
+    });
+    return [...patched, ...this.games];
+  }
+
+  // Pinned entries move to the front, keeping their sorted order among themselves
+  arrange(entries: FeedEntry[]): FeedEntry[] {
+    this.arranged = entries;
+    const visible = entries.filter((e) => !this.hidden.has(e.id));
+    return [...visible.filter((e) => this.pinned.has(e.id)), ...visible.filter((e) => !this.pinned.has(e.id))];
+  }
+
+  // ── Hidden and pinned entries ──────────────────────────────────────
+
+  /** Every entry of the last refresh, hidden ones included, in published order. */
+  listEntries(): FeedEntry[] {
+    const pinned = this.arranged.filter((e) => this.pinned.has(e.id));
+    return [...pinned, ...this.arranged.filter((e) => !this.pinned.has(e.id))];
+  }
+
+  flagsFor(id: string): EntryFlags {
+    return { id, hidden: this.hidden.has(id), pinned: this.pinned.has(id) };
+  }
+
+  pinnedIds(): ReadonlySet<string> {
+    return this.pinned;
+  }
+
+  /**
+   * Set `hidden` and/or `pinned` for an entry; null when the id is neither
+   * in the last refresh nor already flagged.
+   */
+  async setFlags(id: string, body: unknown): Promise<Result<EntryFlags> | null> {
+    const known = this.arranged.some((e) => e.id === id) || this.hidden.has(id) || this.pinned.has(id);
+    if (!known) return null;
+    const input = asObject(body);
+    for (const key of ['hidden', 'pinned'] as const) {
+      if (input[key] !== undefined && typeof input[key] !== 'boolean') return { error: `${key} must be true or false` };
+    }
+    if (input.hidden === undefined && input.pinned === undefined) return { error: 'Set hidden and/or pinned' };
+
+    if (input.hidden !== undefined) toggle(this.hidden, id, input.hidden);
+    if (input.pinned !== undefined) toggle(this.pinned, id, input.pinned);
+    await this.save();
+    return this.flagsFor(id);
+  }
+
+  // ── Manual games ───────────────────────────────────────────────────
+
+  listGames(): Game[] {
+    return this.games;
+  }
+
+  getGame(id: string): Game | undefined {
+    return this.games.find((g) => g.id === id);
+  }
+
+  async createGame(body: unknown, now = new Date()): Promise<Result<Game>> {
+    const input = asObject(body);
+    const game = validateGame({ ...input, id: undefined }, now);
+    if ('error' in game) return game;
+
+    const requested = input.id !== undefined ? String(input.id).toLowerCase() : '';
+    if (requested && !ID.test(requested)) return { error: 'id may only contain a-z, 0-9 and -' };
+    const base = requested
+      ? (requested.startsWith(MANUAL_PREFIX) ? requested : `${MANUAL_PREFIX}${requested}`)
+      : defaultId(game, now);
+    if (requested && this.getGame(base)) return { error: `Game ${base} already exists` };
+    game.id = requested ? base : uniqueId(base, (id) => !!this.getGame(id));
+
+    this.games.push(game);
+    await this.save();
+    return game;
+  }
+
+  /** Merge `body` into a manual game; null when there is no such game. */
+  async updateGame(id: string, body: unknown, now = new Date()): Promise<Result<Game> | null> {
+    const index = this.games.findIndex((g) => g.id === id);
+    if (index < 0) return null;
+    const current = this.games[index];
+    const game = validateGame({ ...mergeGame(current, asObject(body)), id: current.id }, now);
+    if ('error' in game) return game;
+    this.games[index] = game;
+    await this.save();
+    return game;
+  }
+
+  async deleteGame(id: string): Promise<boolean> {
+    const before = this.games.length;
+    this.games = this.games.filter((g) => g.id !== id);
+    if (this.games.length === before) return false;
+    this.hidden.delete(id);
+    this.pinned.delete(id);
+    await this.save();
+    return true;
+  }
+
+  // ── Overrides ──────────────────────────────────────────────────────
+
+  listOverrides(now = new Date()): GameOverride[] {
+    this.pruneExpired(now);
+    return [...this.overrides.values()];
+  }
+
+  /** Create or replace the override for a provider game. */
+  async setOverride(id: string, body: unknown, now = new Date()): Promise<Result<GameOverride>> {
+    if (id.startsWith(MANUAL_PREFIX)) return { error: 'Manual games are edited directly, not overridden' };
+    const input = asObject(body);
+    const fields = validateOverrideFields(input);
+    if ('error' in fields) return fields;
+
+    const expiresAt = overrideExpiry(input, now, this.options);
+    if (typeof expiresAt !== 'string') return expiresAt;
+
+    const existing = this.overrides.get(id);
+    const override: GameOverride = {
+      id,
+      ...fields,
+      createdAt: existing?.createdAt || now.toISOString(),
+      updatedAt: now.toISOString(),
+      expiresAt,
+    };
+    this.overrides.set(id, override);
+    await this.save();
+    return override;
+  }
+
+  async deleteOverride(id: string): Promise<boolean> {
+    if (!this.overrides.delete(id)) return false;
+    await this.save();
+    return true;
+  }
+
+  private pruneExpired(now: Date): void {
+    let pruned = 0;
+    for (const [id, o] of this.overrides) {
+      if (Date.parse(o.expiresAt) <= now.getTime()) {
+        this.overrides.delete(id);
+        pruned++;
+      }
+    }
+    if (pruned > 0) {
+      log.info('Overrides expired', { count: pruned });
+      this.save().catch((err) => log.error('Could not save', { err }));
+    }
+  }
+
+  // Writes go through a temp file and are queued so they land in order
+  private save(): Promise<void> {
+    const data: AdminData = {
+      games: this.games,
+      overrides: [...this.overrides.values()],
+      hidden: [...this.hidden],
+      pinned: [...this.pinned],
+    };
+    const json = JSON.stringify(data, null, 2);
+    this.writing = this.writing.catch(() => undefined).then(async () => {
+      await fs.promises.mkdir(path.dirname(this.file), { recursive: true });
+      const tmp = `${this.file}.tmp`;
+      await fs.promises.writeFile(tmp, json);
+      await fs.promises.rename(tmp, this.file);
+    });
+    return this.writing;
+  }
+}
+
+// ── Merging ──────────────────────────────────────────────────────────
+
+function applyOverride(game: Game, o: GameOverride): Game {
+  const merged = mergeGame(game, o);
+  // Newer of the two, so cached images re-render when an override lands or lapses
+  merged.updatedAt = o.updatedAt > game.updatedAt ? o.updatedAt : game.updatedAt;
+  return merged;
+}
+
+/** Patch a game: nested objects merge, and `null` clears a status field. */
+function mergeGame(game: Game, patch: Record<string, any>): Game {
+  const status: Record<string, unknown> = { ...game.status, ...(patch.status || {}) };
+  for (const key of Object.keys(status)) if (status[key] === null) delete status[key];
+  return {
+    ...game,
+    ...(patch.league !== undefined ? { league: patch.league } : {}),
+    ...(patch.leagueLabel !== undefined ? { leagueLabel: patch.leagueLabel || undefined } : {}),
+    ...(patch.startTime !== undefined ? { startTime: patch.startTime || undefined } : {}),
+    home: { ...game.home, ...(patch.home || {}) },
+    away: { ...game.away, ...(patch.away || {}) },
+    score: { ...game.score, ...(patch.score || {}) },
+    status: status as unknown as GameStatus,
+  };
+}
+
+function toggle(set: Set<string>, id: string, on: boolean): void {
+  if (on) set.add(id);
+  else set.delete(id);
+}
+
+// ── Validation ───────────────────────────────────────────────────────
+
+function asObject(body: unknown): Record<string, any> {
+  return body && typeof body === 'object' && !Array.isArray(body) ? (body as Record<string, any>) : {};
+}
+
+function validateGame(input: Record<string, any>, now: Date): Result<Game> {
+  const league = String(input.league || '').toUpperCase() as SportType;
+  if (!LEAGUES.includes(league)) return { error: `league must be one of ${LEAGUES.join(', ')}` };
+
+  const home = validateTeam(input.home, 'home');
+  if ('error' in home) return home;
+  const away = validateTeam(input.away, 'away');
+  if ('error' in away) return away;
+
+  const score = validateScore(input.score || { home: 0, away: 0 });
+  if ('error' in score) return score;
+  if (score.home === undefined || score.away === undefined) return { error: 'score needs home and away' };
+
+  const status = validateStatus(input.status || { state: 'pre' });
+  if ('error' in status) return status;
+  if (!status.state) return { error: 'status.state is required' };
+  for (const key of Object.keys(status) as (keyof GameStatus)[]) if (status[key] === null) delete status[key];
+
+  const extra = validateExtras(input);
+  if ('error' in extra) return extra;
+
+  return {
+    id: input.id || '',
+    league,
+    ...extra,
+    home,
+    away,
+    score: score as GameScore,
+    status: status as GameStatus,
+    updatedAt: now.toISOString(),
+  };
+}
+
+function validateTeam(input: unknown, side: string): Result<Team> {
+  const t = asObject(input);
+  const abbr = String(t.abbr || '').toUpperCase();
+  if (!ABBR.test(abbr)) return { error: `${side}.abbr must be 1-6 letters, digits, & or .` };
+  if (!t.name || typeof t.name !== 'string') return { error: `${side}.name is required` };
+  const fields = validateTeamFields(t, side);
+  if ('error' in fields) return fields;
+  return { color: '#444444', ...fields, name: t.name, abbr };
+}
+
+function validateTeamFields(t: Record<string, any>, side: string): Result<Partial<Team>> {
+  const out: Partial<Team> = {};
+  if (t.name !== undefined) {
+    if (typeof t.name !== 'string' || !t.name.trim()) return { error: `${side}.name must be text` };
+    out.name = t.name.trim();
+  }
+  if (t.abbr !== undefined) {
+    const abbr = String(t.abbr).toUpperCase();
+    if (!ABBR.test(abbr)) return { error: `${side}.abbr must be 1-6 letters, digits, & or .` };
+    out.abbr = abbr;
+  }
+  if (t.color !== undefined) {
+    if (!COLOR.test(String(t.color))) return { error: `${side}.color must be a hex color` };
+    out.color = String(t.color);
+  }
+  if (t.record !== undefined) out.record = String(t.record);
+  if (t.logoUrl !== undefined) {
+    if (t.logoUrl && !/^https?:\/\//.test(String(t.logoUrl))) return { error: `${side}.logoUrl must be an http(s) URL` };
+    out.logoUrl = String(t.logoUrl);
+  }
+  return out;
+}
+
+function validateScore(input: unknown): Result<Partial<GameScore>> {
+  const s = asObject(input);
+  const out: Partial<GameScore> = {};
+  for (const side of ['home', 'away'] as const) {
+    if (s[side] === undefined) continue;
+    const n = Number(s[side]);
+    if (!Number.isInteger(n) || n < 0) return { error: `score.${side} must be a whole number` };
+    out[side] = n;
+  }
+  return out;
+}
+
+function validateStatus(input: unknown): Result<Partial<GameStatus>> {
+  const s = asObject(input);
+  if (s.state !== undefined && !STATES.includes(s.state)) return { error: `status.state must be one of ${STATES.join(', ')}` };
+  if (s.period !== undefined && s.period !== null && !(Number.isInteger(s.period) && s.period >= 1)) {
+    return { error: 'status.period must be a whole number from 1' };
+  }
+  for (const key of ['clock', 'detail'] as const) {
+    if (s[key] !== undefined && s[key] !== null && typeof s[key] !== 'string') return { error: `status.${key} must be text` };
+  }
+  // Situation fields reach the renderers as-is, so a bad one would break every refresh.
+  // null clears a field (see mergeGame)
+  const set = (key: string) => s[key] !== undefined && s[key] !== null;
+  if (set('yardLine') && typeof s.yardLine !== 'string') return { error: 'status.yardLine must be text' };
+  for (const key of ['betweenPeriods', 'shootout']) {
+    if (set(key) && typeof s[key] !== 'boolean') return { error: `status.${key} must be true or false` };
+  }
+  for (const key of ['down', 'distance', 'outs']) {
+    if (set(key) && !(Number.isInteger(s[key]) && s[key] >= 0)) return { error: `status.${key} must be a whole number` };
+  }
+  if (set('possession') && !POSSESSION.includes(s.possession)) {
+    return { error: `status.possession must be one of ${POSSESSION.join(', ')}` };
+  }
+  if (set('inningHalf') && !INNING_HALVES.includes(s.inningHalf)) {
+    return { error: `status.inningHalf must be one of ${INNING_HALVES.join(', ')}` };
+  }
+  return Object.fromEntries(Object.entries(s).filter(([key]) => STATUS_KEYS.includes(key))) as Partial<GameStatus>;
+}
+
+function validateExtras(input: Record<string, any>): Result<Pick<Game, 'leagueLabel' | 'startTime'>> {
+  const out: Pick<Game, 'leagueLabel' | 'startTime'> = {};
+  if (input.leagueLabel) {
+    const label = String(input.leagueLabel).trim().toUpperCase();
+    if (label.length > 8) return { error: 'leagueLabel is at most 8 characters' };
+    out.leagueLabel = label;
+  }
+  if (input.startTime) {
+    if (Number.isNaN(Date.parse(input.startTime))) return { error: 'startTime must be an ISO date-time' };
+    out.startTime = new Date(input.startTime).toISOString();
+  }
+  return out;
+}
+
+function validateOverrideFields(input: Record<string, any>): Result<Omit<GameOverride, 'id' | 'createdAt' | 'updatedAt' | 'expiresAt'>> {
+  const out: Omit<GameOverride, 'id' | 'createdAt' | 'updatedAt' | 'expiresAt'> = {};
+  if (input.score !== undefined) {
+    const score = validateScore(input.score);
+    if ('error' in score) return score;
+    out.score = score;
+  }
+  if (input.status !== undefined) {
+    const status = validateStatus(input.status);
+    if ('error' in status) return status;
+    out.status = status;
+  }
+  for (const side of ['home', 'away'] as const) {
+    if (input[side] === undefined) continue;
+    const team = validateTeamFields(asObject(input[side]), side);
+    if ('error' in team) return team;
+    out[side] = team;
+  }
+  if (input.leagueLabel !== undefined) {
+    const extra = validateExtras({ leagueLabel: input.leagueLabel });
+    if ('error' in extra) return extra;
+    out.leagueLabel = extra.leagueLabel;
+  }
+  if (input.reason !== undefined) out.reason = String(input.reason).slice(0, 200);
+  if (!out.score && !out.status && !out.home && !out.away && out.leagueLabel === undefined) {
+    return { error: 'An override needs at least one of score, status, home, away or leagueLabel' };
+  }
+  return out;
+}
+
+// `expiresAt` (ISO) or `ttlMinutes`; defaults to overrideTtlMs, capped at maxOverrideTtlMs
+function overrideExpiry(input: Record<string, any>, now: Date, options: AdminStoreOptions): Result<string> {
+  let expires = now.getTime() + options.overrideTtlMs;
+  if (input.expiresAt !== undefined) {
+    expires = Date.parse(input.expiresAt);
+    if (Number.isNaN(expires)) return { error: 'expiresAt must be an ISO date-time' };
+  } else if (input.ttlMinutes !== undefined) {
+    const minutes = Number(input.ttlMinutes);
+    if (!(minutes > 0)) return { error: 'ttlMinutes must be positive' };
+    expires = now.getTime() + minutes * 60_000;
+  }
+  if (expires <= now.getTime()) return { error: 'expiresAt must be in the future' };
+  if (expires - now.getTime() > options.maxOverrideTtlMs) {
+    return { error: `Overrides can last at most ${Math.round(options.maxOverrideTtlMs / 3_600_000)} hours` };
+  }
+  return new Date(expires).toISOString();
+}
+
+// manual-<away>-<home>-<yyyymmdd>, like the provider ids
+function defaultId(game: Game, now: Date): string {
+  const day = (game.startTime || now.toISOString()).slice(0, 10).replace(/-/g, '');
+  const slug = (s: string) => s.toLowerCase().replace(/[^a-z0-9]/g, '');
+  return `${MANUAL_PREFIX}${slug(game.away.abbr)}-${slug(game.home.abbr)}-${day}`;
+}
+
+function uniqueId(base: string, taken: (id: string) => boolean): string {
+  let id = base;
+  for (let n = 2; taken(id); n++) id = `${base}-${n}`;
+  return id;
+}
@@ -1,51 +1,156 @@
+import { DisplayProfile, FeedProviderConfig, SportType } from './types';
+
 const isVercel = !!process.env.VERCEL;
 
+const dataProvider = (process.env.DATA_PROVIDER || 'mock') as 'mock' | 'api';
+const apiLeagues = (process.env.SPORTS_API_LEAGUES || 'NBA,NHL')
+  .split(',').map((l) => l.trim().toUpperCase()).filter(Boolean) as SportType[];
+
+// FEED_PROVIDERS is either a comma list of keys ("nba,nhl") or a JSON array
+// with per-provider options ('[{"key":"nhl","options":{"dataFile":"data/x.json"}}]').
+// Unset, DATA_PROVIDER picks the mock files or the live scoreboard API.
+function parseFeedProviders(spec: string | undefined): FeedProviderConfig[] {
+  if (!spec || spec.trim() === '') {
+    const leagues = dataProvider === 'api'
+      ? apiLeagues.map((l) => ({ key: `espn-${l.toLowerCase()}` }))
+      : [{ key: 'nba' }, { key: 'nhl' }];
+    return [...leagues, { key: 'pga' }];
+  }
+  return parseProviderSpec(spec);
+}
+
+// "nba,nhl" or a JSON array of { key, options }
+function parseProviderSpec(spec: string): FeedProviderConfig[] {
+  if (spec.trim().startsWith('[')) {
+    return JSON.parse(spec) as FeedProviderConfig[];
+  }
+  return spec.split(',').map((key) => key.trim()).filter(Boolean).map((key) => ({ key }));
+}
+
 export const config = {
   server: {
     port: parseInt(process.env.PORT || '3000', 10),
     host: process.env.HOST || '0.0.0.0',
     baseUrl: process.env.BASE_URL || (process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : 'http://localhost:3000'),
+    // Proxy hops in front of the server, so req.ip is the client's address (Vercel: 1)
+    trustProxy: parseInt(process.env.TRUST_PROXY || (isVercel ? '1' : '0'), 10),
   },
 
   display: {
-    width: 384,
-    height: 192,
-    scaleFactor: 2,       // render at 2x then downscale for LED sharpness
+    // Profile used when a request doesn't pass ?profile=
+    profile: process.env.DISPLAY_PROFILE || 'panel',
   },
 
-  // ── Ticker bar layout ────────────────────────────────────────────────
-  ticker: {
-    teamRowHeight: 80,      // px height of each team row (away / home)
-    scorePanelWidth: 114,   // px width of the dark score panel on the right
-    logoSize: 70,           // logo diameter (px)
-    logoPadding: 6,         // left margin before logo
+  // Golf leaderboard images (PGA items in the rotation, RSS and /preview)
+  leaderboard: {
+    players: 5,            // top-N rows; fewer when the profile is too short
+  },
+
+  // ── Display profiles (size, render scale, layout geometry, fonts) ─────
+  // The status bar takes whatever height is left below the two team rows.
+  profiles: {
+    panel: {
+      label: 'LED panel 384x192',
+      width: 384, height: 192, scaleFactor: 2,
+      ticker: { teamRowHeight: 80, scorePanelWidth: 114, logoSize: 70, logoPadding: 6 },
+      fonts: {
+        score:         { size: 46, weight: 'bold' },
+        teamAbbr:      { size: 28, weight: 'bold' },
+        record:        { size: 13, weight: 'normal' },
+        status:        { size: 14, weight: 'bold' },
+        league:        { size: 12, weight: 'bold' },
+        liveIndicator: { size: 12, weight: 'bold' },
+      },
+    },
+    compact: {
+      label: 'Small panel 256x128',
+      width: 256, height: 128, scaleFactor: 3,
+      ticker: { teamRowHeight: 53, scorePanelWidth: 76, logoSize: 46, logoPadding: 4 },
+      fonts: {
+        score:         { size: 31, weight: 'bold' },
+        teamAbbr:      { size: 19, weight: 'bold' },
+        record:        { size: 9,  weight: 'normal' },
+        status:        { size: 10, weight: 'bold' },
+        league:        { size: 8,  weight: 'bold' },
+        liveIndicator: { size: 8,  weight: 'bold' },
+      },
+    },
+    strip: {
+      label: 'Strip 960x240',
+      width: 960, height: 240, scaleFactor: 2,
+      ticker: { teamRowHeight: 100, scorePanelWidth: 200, logoSize: 88, logoPadding: 8 },
+      fonts: {
+        score:         { size: 58, weight: 'bold' },
+        teamAbbr:      { size: 36, weight: 'bold' },
+        record:        { size: 16, weight: 'normal' },
+        status:        { size: 18, weight: 'bold' },
+        league:        { size: 15, weight: 'bold' },
+        liveIndicator: { size: 15, weight: 'bold' },
+      },
+    },
+    fullhd: {
+      label: 'Full HD 1920x1080',
+      width: 1920, height: 1080, scaleFactor: 1,
+      ticker: { teamRowHeight: 440, scorePanelWidth: 600, logoSize: 380, logoPadding: 30 },
+      fonts: {
+        score:         { size: 250, weight: 'bold' },
+        teamAbbr:      { size: 150, weight: 'bold' },
+        record:        { size: 64,  weight: 'normal' },
+        status:        { size: 80,  weight: 'bold' },
+        league:        { size: 64,  weight: 'bold' },
+        liveIndicator: { size: 64,  weight: 'bold' },
+      },
+    },
+    wide: {
+      label: 'Wide marquee 3840x270',
+      width: 3840, height: 270, scaleFactor: 1,
+      ticker: { teamRowHeight: 112, scorePanelWidth: 480, logoSize: 100, logoPadding: 12 },
+      fonts: {
+        score:         { size: 64, weight: 'bold' },
+        teamAbbr:      { size: 40, weight: 'bold' },
+        record:        { size: 18, weight: 'normal' },
+        status:        { size: 20, weight: 'bold' },
+        league:        { size: 17, weight: 'bold' },
+        liveIndicator: { size: 17, weight: 'bold' },
+      },
+    },
+  } as Record<string, Omit<DisplayProfile, 'name'>>,
+
+  // ── Base theme ───────────────────────────────────────────────────────
+  // Theme files in themes.dir (selected with ?theme= or THEME) override any
+  // of these; see data/themes/ for examples.
+  themes: {
+    dir: process.env.THEMES_DIR || './data/themes',
+    default: process.env.THEME || 'default',
   },
 
   fonts: {
     family: 'Inter, Arial, Helvetica, sans-serif',
-    score:         { size: 46, weight: 'bold'   as const },
-    teamAbbr:      { size: 28, weight: 'bold'   as const },
-    record:        { size: 13, weight: 'normal' as const },
-    status:        { size: 14, weight: 'bold'   as const },
-    league:        { size: 12, weight: 'bold'   as const },
-    liveIndicator: { size: 12, weight: 'bold'   as const },
+    cssUrl: 'https://fonts.googleapis.com/css2?family=Inter:wght@400;600;700;800;900&display=swap',
   },
 
   colors: {
-    background:   '#000000',
-    scorePanelBg: '#141414',
-    statusBarBg:  '#0c0c0c',
-    divider:      '#333333',
-    text:         '#ffffff',
-    dimText:      '#888888',
-    live:         '#ff3333',
-    final:        '#999999',
-    pre:          '#4499ff',
+    background:     '#000000',
+    scorePanelBg:   '#141414',
+    statusBarBg:    '#0c0c0c',
+    divider:        '#333333',
+    text:           '#ffffff',
+    teamText:       '#ffffff',
+    dimText:        '#888888',
+    recordText:     'rgba(255,255,255,0.55)',
+    muted:          '#444444',
+    live:           '#ff3333',
+    final:          '#999999',
+    pre:            '#4499ff',
+    possession:     '#ffcc00',  // ball / at-bat marker next to the team abbreviation
+    pageBackground: '#0a0a0f',
+    tileBg:         '#111118',
   },
 
-  logo: {
-    size: 70,               // kept in sync with ticker.logoSize
-    fallbackText: '#ffffff',
+  border: {
+    color:  'rgba(255,255,255,0.08)',
+    width:  1,
+    radius: 12,
   },
 
   cache: {
@@ -53,13 +158,128 @@ export const config = {
     refreshIntervalMs: 60_000,   // data refresh every 60s
   },
 
+  // Feed providers behind every output — only enabled providers are queried
+  feed: {
+    providers: parseFeedProviders(process.env.FEED_PROVIDERS),
+    // Per-provider timeout, retries and circuit breaker (src/feed/providerGuard.ts)
+    resilience: {
+      timeoutMs: parseInt(process.env.PROVIDER_TIMEOUT_MS || '8000', 10),
+      retries: 2,            // extra attempts per refresh
+      backoffMs: 500,        // retry backoff: 0.5s, 1s
+      failureThreshold: 3,   // failed refreshes in a row before the circuit opens
+      cooldownMs: parseInt(process.env.PROVIDER_COOLDOWN_MS || '120000', 10),
+    },
+  },
+
+  // League / team / state filtering (?league=, ?team=, ?state=, ?preset=)
+  filters: {
+    presetsFile: process.env.FILTER_PRESETS_FILE || './data/presets.json',
+  },
+
+  // League standings: standings images and the wide marquee standings tiles
+  standings: {
+    providers: parseProviderSpec(process.env.STANDINGS_PROVIDERS || 'nba,nhl'),
+    refreshIntervalMs: 15 * 60_000,    // standings move slowly
+    rows: 5,                           // top-N teams per image; fewer when the profile is too short
+    // When wide.html shows standings tiles: 'idle' = only while no game is live
+    marquee: (process.env.STANDINGS_MARQUEE || 'idle') as 'always' | 'idle' | 'off',
+  },
+
+  // Admin API: manual games and provider overrides (Authorization: Bearer ADMIN_TOKEN)
+  admin: {
+    token: process.env.ADMIN_TOKEN || '',      // unset = admin API disabled
+    file: process.env.ADMIN_DATA_FILE || (isVercel ? '/tmp/admin.json' : './data/admin.json'),
+    overrideTtlMs: 4 * 60 * 60_000,            // overrides without an expiry last 4h
+    maxOverrideTtlMs: 7 * 24 * 60 * 60_000,
+  },
+
+  // Results archive (/api/history): one JSON Lines file per game date
+  history: {
+    dir: process.env.HISTORY_DIR || (isVercel ? '/tmp/storage/history' : './storage/history'),
+    timezone: process.env.HISTORY_TIMEZONE || 'America/New_York',   // which day a game belongs to
+    retentionDays: parseInt(process.env.HISTORY_RETENTION_DAYS || '90', 10),  // 0 = keep forever
+  },
+
+  // Game event detection (/api/events, `events` stream channel)
+  events: {
+    logSize: 500,          // events kept in memory
+    upsetMargin: 0.15,     // loser's win% must exceed winner's by this much
+  },
+
+  // Outbound webhooks for game events (see data/webhooks.example.json)
+  webhooks: {
+    file: process.env.WEBHOOKS_FILE || './data/webhooks.json',
+    maxAttempts: 5,        // including the first try
+    baseDelayMs: 2_000,    // retry backoff: 2s, 4s, 8s, 16s
+    timeoutMs: 10_000,
+    logSize: 200,          // deliveries kept for /api/webhooks/deliveries
+  },
+
+  // Sponsor slots (see data/sponsors.example.json)
+  sponsors: {
+    file: process.env.SPONSORS_FILE || './data/sponsors.json',
+    impressionsFile: process.env.SPONSOR_IMPRESSIONS_FILE || (isVercel ? '/tmp/sponsor-impressions.json' : './data/sponsor-impressions.json'),
+    every: parseInt(process.env.SPONSOR_EVERY || '4', 10),  // a slot after every N items; 0 = off
+    // wide.html reports once per marquee loop; a client reporting faster is refused
+    reportIntervalMs: parseInt(process.env.SPONSOR_REPORT_INTERVAL_MS || '10000', 10),
+  },
+
+  // Playlist engine: dwell and priority per item for /playlist.json,
+  // /ticker.png and ticker.html (dayparts in data/playlist.example.json)
+  playlist: {
+    file: process.env.PLAYLIST_FILE || './data/playlist.json',
+    timezone: process.env.PLAYLIST_TIMEZONE || 'America/New_York',   // daypart clock
+    preGameHours: parseFloat(process.env.PLAYLIST_PRE_GAME_HOURS || '6'),  // pre-game only this close to start
+    dwellMs: { close: 15_000, live: 10_000, pre: 6_000, final: 5_000, sponsor: 6_000 },
+    priority: { close: 100, live: 80, pre: 40, final: 20 },   // higher plays first
+    // A live game is "close" from this period on, within this margin
+    close: {
+      NBA:   { period: 4, margin: 6 },
+      NCAAB: { period: 2, margin: 6 },
+      NFL:   { period: 4, margin: 8 },
+      NCAAF: { period: 4, margin: 8 },
+      NHL:   { period: 3, margin: 1 },
+      MLB:   { period: 7, margin: 2 },
+    } as Partial<Record<SportType, { period: number; margin: number }>>,
+  },
+
+  // Animated outputs (/ticker.gif, /ticker.apng, /wide.gif, /wide.apng)
+  animation: {
+    dwellMs: parseInt(process.env.ANIMATION_DWELL_MS || '8000', 10),         // each game
+    crossfadeMs: parseInt(process.env.ANIMATION_CROSSFADE_MS || '600', 10),  // 0 = hard cut
+    fps: 10,               // crossfade and scroll frame rate
+    scrollSpeed: 80,       // marquee px/s on the 270px stage, same as wide.html
+    maxFrames: 1_200,
+    // Marquee frame budget (frames × width × height); longer loops drop fps to fit
+    maxPixels: parseInt(process.env.ANIMATION_MAX_MEGAPIXELS || '160', 10) * 1_000_000,
+    // Rendered animations kept in memory, oldest dropped first
+    cacheBytes: parseInt(process.env.ANIMATION_CACHE_MB || '64', 10) * 1024 * 1024,
+  },
+
   // Vercel has read-only filesystem — use /tmp for generated files
   storage: {
     imagesDir: isVercel ? '/tmp/storage/images' : './storage/images',
     logosDir:  isVercel ? '/tmp/storage/logos'  : './storage/logos',
   },
 
+  // Structured JSON logs (src/utils/logger.ts)
+  logging: {
+    level: (process.env.LOG_LEVEL || 'info') as 'debug' | 'info' | 'warn' | 'error',
+    // Comma list of 'stdout' and/or 'file'
+    sinks: (process.env.LOG_SINKS || 'stdout').split(',').map((s) => s.trim()).filter(Boolean) as ('stdout' | 'file')[],
+    file: process.env.LOG_FILE || (isVercel ? '/tmp/storage/logs/ticker.log' : './storage/logs/ticker.log'),
+    maxBytes: parseInt(process.env.LOG_MAX_BYTES || String(10 * 1024 * 1024), 10),  // rotate at 10 MB
+    maxFiles: parseInt(process.env.LOG_MAX_FILES || '5', 10),                       // rotated files kept
+  },
+
   isVercel,
 
-  dataProvider: (process.env.DATA_PROVIDER || 'mock') as 'mock' | 'api',
+  dataProvider,
+
+  // ESPN-style scoreboard API (DATA_PROVIDER=api, espn-* feed providers)
+  api: {
+    baseUrl: process.env.SPORTS_API_BASE_URL || 'https://site.api.espn.com/apis/site/v2/sports',
+    leagues: apiLeagues,
+    timeoutMs: 10_000,
+  },
 };
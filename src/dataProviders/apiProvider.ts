@@ -1,51 +1,57 @@
-import { DataProvider, Game } from '../types';
-import { MockProvider } from './mockProvider';
+import { Game, SportType } from '../types';
+import { config } from '../config';
+import { EspnScoreboard, mapScoreboardToGames, scoreboardUrl } from './espn';
+
+export interface ApiProviderOptions {
+  baseUrl?: string;
+  /** Full scoreboard URL; overrides baseUrl for single-league use. */
+  endpoint?: string;
+}
 
 /**
  * API-based data provider for live sports data.
  *
- * To integrate a real sports API (ESPN, SportsData.io, etc.):
- * 1. Add your API key to .env as SPORTS_API_KEY
- * 2. Implement the fetch logic in fetchGames()
- * 3. Map the API response to the Game[] interface
- * 4. Set DATA_PROVIDER=api in your environment
+ * Fetches an ESPN-style scoreboard for a league from `SPORTS_API_BASE_URL`
+ * (defaults to ESPN's public site API) and maps it to Game[]. Point the base
+ * URL at a local server that serves the recorded payloads in
+ * data/fixtures/espn/ to run without network access.
  *
- * For now this delegates to the mock provider so the app runs
- * without an API key configured.
+ * Used by the espn-* feed providers; DATA_PROVIDER=api enables them for
+ * every league in SPORTS_API_LEAGUES.
  */
-export class ApiProvider implements DataProvider {
+export class ApiProvider {
   private apiKey: string;
-  private fallback: MockProvider;
+  private baseUrl: string;
+  private endpoint?: string;
+  // id → content signature + the time that content was first seen, so
+  // updatedAt (the image cache hash) only moves when the game changes
+  private seen = new Map<string, { signature: string; updatedAt: string }>();
 
-  constructor() {
+  constructor(options: ApiProviderOptions = {}) {
     this.apiKey = process.env.SPORTS_API_KEY || '';
-    this.fallback = new MockProvider();
-
-    if (!this.apiKey) {
-      console.warn(
-        '[ApiProvider] No SPORTS_API_KEY set — falling back to mock data. ' +
-        'Set DATA_PROVIDER=mock or provide an API key.'
-      );
-    }
+    this.baseUrl = options.baseUrl || config.api.baseUrl;
+    this.endpoint = options.endpoint;
   }
 
-  async fetchGames(): Promise<Game[]> {
-    if (!this.apiKey) {
-      return this.fallback.fetchGames();
-    }
+  async fetchLeague(league: SportType): Promise<Game[]> {
+    const url = this.endpoint || scoreboardUrl(this.baseUrl, league);
+    const headers: Record<string, string> = { Accept: 'application/json' };
+    if (this.apiKey) headers['Authorization'] = `Bearer ${this.apiKey}`;
+
+    const res = await fetch(url, { headers, signal: AbortSignal.timeout(config.api.timeoutMs) });
+    if (!res.ok) throw new Error(`HTTP ${res.status} from ${url}`);
 
-    // ---------------------------------------------------------------
-    // Replace the block below with your real API call, for example:
-    //
-    //   const res = await fetch('https://api.sportsdata.io/v3/nba/scores/json/GamesByDate/2026-FEB-24', {
-    //     headers: { 'Ocp-Apim-Subscription-Key': this.apiKey },
-    //   });
-    //   const data = await res.json();
-    //   return data.map(mapApiGameToGame);
-    //
-    // ---------------------------------------------------------------
+    const payload = (await res.json()) as EspnScoreboard;
+    return mapScoreboardToGames(payload, league).map((g) => this.stampUpdatedAt(g));
+  }
 
-    console.log('[ApiProvider] Fetching live data from sports API...');
-    return this.fallback.fetchGames();
+  private stampUpdatedAt(game: Game): Game {
+    const signature = JSON.stringify([game.score, game.status, game.home.record, game.away.record]);
+    const prev = this.seen.get(game.id);
+    if (prev && prev.signature === signature) {
+      return { ...game, updatedAt: prev.updatedAt };
+    }
+    this.seen.set(game.id, { signature, updatedAt: game.updatedAt });
+    return game;
   }
 }
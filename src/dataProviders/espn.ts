@@ -0,0 +1,235 @@
+import { Game, GameStatus, SportType, Team } from '../types';
+import { getNbaLogoUrl } from '../utils/nbaLogos';
+import { getNhlLogoUrl } from '../utils/nhlLogos';
+import { getNflLogoUrl } from '../utils/nflLogos';
+import { getMlbLogoUrl } from '../utils/mlbLogos';
+import { getNcaaLogoUrl } from '../utils/ncaaLogos';
+
+// ═══════════════════════════════════════════════════════════════════════
+//  ESPN-style scoreboard adapter
+//
+//  Maps the public scoreboard JSON (events → competitions → competitors)
+//  served at {baseUrl}/{sport}/{league}/scoreboard into Game[].
+//  Only the fields we render are typed; everything else is ignored.
+// ═══════════════════════════════════════════════════════════════════════
+
+export interface EspnScoreboard {
+  events?: EspnEvent[];
+}
+
+export interface EspnEvent {
+  id: string;
+  date: string;
+  name?: string;
+  shortName?: string;
+  status: EspnStatus;
+  competitions: EspnCompetition[];
+}
+
+export interface EspnStatus {
+  clock?: number;
+  displayClock?: string;
+  period?: number;
+  type: {
+    name?: string; // STATUS_IN_PROGRESS, STATUS_HALFTIME, STATUS_END_PERIOD, …
+    state: 'pre' | 'in' | 'post';
+    completed?: boolean;
+    description?: string;
+    detail?: string;
+    shortDetail?: string;
+  };
+}
+
+export interface EspnCompetition {
+  id: string;
+  date?: string;
+  status?: EspnStatus;
+  competitors: EspnCompetitor[];
+  situation?: EspnSituation;
+}
+
+/** Live situation: football down & distance, baseball outs. */
+export interface EspnSituation {
+  down?: number;
+  distance?: number;
+  possession?: string;      // team id
+  possessionText?: string;  // "KC 35"
+  outs?: number;
+}
+
+export interface EspnCompetitor {
+  id: string;
+  homeAway: 'home' | 'away';
+  score?: string;
+  winner?: boolean;
+  team: {
+    id: string;
+    abbreviation: string;
+    displayName: string;
+    shortDisplayName?: string;
+    color?: string;
+    alternateColor?: string;
+    logo?: string;
+  };
+  records?: { name?: string; type?: string; summary: string }[];
+}
+
+/** Scoreboard path segment per league, relative to the configured base URL. */
+export const ESPN_LEAGUE_PATHS: Partial<Record<SportType, string>> = {
+  NBA:   'basketball/nba',
+  NHL:   'hockey/nhl',
+  NFL:   'football/nfl',
+  MLB:   'baseball/mlb',
+  NCAAF: 'football/college-football',
+  NCAAB: 'basketball/mens-college-basketball',
+};
+
+const LOGO_LOOKUPS: Partial<Record<SportType, (abbr: string) => string>> = {
+  NBA:   getNbaLogoUrl,
+  NHL:   getNhlLogoUrl,
+  NFL:   getNflLogoUrl,
+  MLB:   getMlbLogoUrl,
+  NCAAF: getNcaaLogoUrl,
+  NCAAB: getNcaaLogoUrl,
+};
+
+export function scoreboardUrl(baseUrl: string, league: SportType): string {
+  const leaguePath = ESPN_LEAGUE_PATHS[league];
+  if (!leaguePath) throw new Error(`No scoreboard path configured for ${league}`);
+  return `${baseUrl.replace(/\/+$/, '')}/${leaguePath}/scoreboard`;
+}
+
+export function mapScoreboardToGames(payload: EspnScoreboard, league: SportType): Game[] {
+  const games: Game[] = [];
+  for (const event of payload.events || []) {
+    const game = mapEspnEvent(event, league);
+    if (game) games.push(game);
+  }
+  return games;
+}
+
+export function mapEspnEvent(event: EspnEvent, league: SportType): Game | null {
+  const competition = event.competitions?.[0];
+  if (!competition) return null;
+
+  const home = competition.competitors.find((c) => c.homeAway === 'home');
+  const away = competition.competitors.find((c) => c.homeAway === 'away');
+  if (!home || !away) return null;
+
+  const homeTeam = mapCompetitor(home, league);
+  const awayTeam = mapCompetitor(away, league);
+  const status = mapStatus(competition.status || event.status);
+  if (status.state === 'in_progress') {
+    Object.assign(status, mapSituation(competition.situation, home, away, status.detail));
+  }
+
+  return {
+    id: `${league}-${awayTeam.abbr}-${homeTeam.abbr}-${dateStamp(event.date)}`.toLowerCase(),
+    league,
+    home: homeTeam,
+    away: awayTeam,
+    score: {
+      home: parseScore(home.score),
+      away: parseScore(away.score),
+    },
+    status,
+    startTime: competition.date || event.date,
+    // Callers that track changes across fetches replace this (see ApiProvider)
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+function mapCompetitor(c: EspnCompetitor, league: SportType): Team {
+  const abbr = c.team.abbreviation.toUpperCase();
+  const overall =
+    c.records?.find((r) => r.type === 'total' || r.name === 'overall') || c.records?.[0];
+  const logoLookup = LOGO_LOOKUPS[league];
+
+  return {
+    name: c.team.displayName,
+    abbr,
+    color: c.team.color ? `#${c.team.color.replace(/^#/, '')}` : '#333333',
+    record: overall?.summary,
+    logoUrl: c.team.logo || (logoLookup ? logoLookup(abbr) : ''),
+  };
+}
+
+const BREAK_STATUSES = new Set(['STATUS_HALFTIME', 'STATUS_END_PERIOD']);
+
+function mapStatus(s: EspnStatus): GameStatus {
+  const shootout = /\bSO\b/.test(s.type.shortDetail || '') || undefined;
+  switch (s.type.state) {
+    case 'in':
+      return {
+        state: 'in_progress',
+        period: s.period,
+        clock: s.displayClock,
+        detail: s.type.shortDetail,
+        betweenPeriods: BREAK_STATUSES.has(s.type.name || '') || undefined,
+        shootout,
+      };
+    case 'post':
+      return {
+        state: 'final',
+        period: s.period,
+        detail: s.type.shortDetail,
+        shootout,
+      };
+    default:
+      return {
+        state: 'pre',
+        detail: s.type.shortDetail || s.type.detail,
+      };
+  }
+}
+
+function mapSituation(
+  situation: EspnSituation | undefined,
+  home: EspnCompetitor,
+  away: EspnCompetitor,
+  detail: string | undefined
+): Partial<GameStatus> {
+  const result: Partial<GameStatus> = {};
+
+  // Baseball: shortDetail reads "Top 7th" / "Bot 7th" / "Mid 7th" / "End 7th"
+  const half = /^(Top|Bot|Mid|End)\b/i.exec(detail || '');
+  if (half) {
+    const key = half[1].toLowerCase();
+    result.inningHalf = key === 'bot' ? 'bottom' : key === 'mid' ? 'middle' : (key as 'top' | 'end');
+  }
+  if (!situation) return result;
+
+  if (situation.outs !== undefined) result.outs = situation.outs;
+  if (situation.down && situation.down > 0) {
+    result.down = situation.down;
+    result.distance = situation.distance;
+    result.yardLine = situation.possessionText;
+  }
+  if (situation.possession) {
+    if (situation.possession === home.team.id) result.possession = 'home';
+    else if (situation.possession === away.team.id) result.possession = 'away';
+  }
+  return result;
+}
+
+function parseScore(score: string | undefined): number {
+  const n = parseInt(score || '0', 10);
+  return Number.isNaN(n) ? 0 : n;
+}
+
+// en-CA formats dates as YYYY-MM-DD
+const EASTERN_DAY = new Intl.DateTimeFormat('en-CA', {
+  timeZone: 'America/New_York',
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+});
+
+// Event dates are ISO timestamps in UTC ("2026-02-25T00:30Z"); ids use the
+// US Eastern calendar day (EST or EDT) so a late tip keeps the same id as the
+// mock data.
+function dateStamp(iso: string): string {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return 'tbd';
+  return EASTERN_DAY.format(d).replace(/-/g, '');
+}
@@ -0,0 +1,218 @@
+import { Game, GameScore, SportType } from '../types';
+import { formatPeriod, formatStatus } from '../utils/status';
+
+// ═══════════════════════════════════════════════════════════════════════
+//  Game event detection
+//
+//  Compares successive snapshots of the published games and emits typed
+//  moments (scores, lead changes, starts, period breaks, finals, upsets)
+//  so displays and downstream systems can react to what changed.
+// ═══════════════════════════════════════════════════════════════════════
+
+export type GameEventType =
+  | 'game_started'
+  | 'scored'
+  | 'lead_change'
+  | 'period_ended'
+  | 'went_final'
+  | 'upset';
+
+export interface GameEvent {
+  seq: number;          // monotonically increasing, for ?since= polling
+  type: GameEventType;
+  at: string;           // ISO time the change was detected
+  gameId: string;
+  league: SportType;
+  team?: string;        // abbreviation of the team the event is about
+  points?: number;      // for `scored`
+  period?: string;      // for `period_ended`
+  score: GameScore;
+  away: string;
+  home: string;
+  statusText: string;
+  message: string;
+}
+
+type Side = 'home' | 'away';
+type NewEvent = Omit<GameEvent, 'seq'>;
+
+export interface GameEventDetectorOptions {
+  /** Minimum win-percentage gap between loser and winner to call a final an upset. */
+  upsetMargin?: number;
+}
+
+export class GameEventDetector {
+  private previous = new Map<string, Game>();
+  // Last team to hold the lead, so A → tie → B still counts as a lead change
+  private lastLeader = new Map<string, Side>();
+  private seeded = false;
+  private upsetMargin: number;
+
+  constructor(options: GameEventDetectorOptions = {}) {
+    this.upsetMargin = options.upsetMargin ?? 0.15;
+  }
+
+  /**
+   * Diff `games` against the previous call. The first call only seeds state
+   * so a restart doesn't replay every score as a new event.
+   */
+  update(games: Game[], now: Date = new Date()): NewEvent[] {
+    const events: NewEvent[] = [];
+    const at = now.toISOString();
+
+    for (const game of games) {
+      const prev = this.previous.get(game.id);
+      if (this.seeded) events.push(...this.compare(prev, game, at));
+      const leader = leaderOf(game.score);
+      if (leader) this.lastLeader.set(game.id, leader);
+    }
+
+    this.previous = new Map(games.map((g) => [g.id, g]));
+    for (const id of this.lastLeader.keys()) {
+      if (!this.previous.has(id)) this.lastLeader.delete(id);
+    }
+    this.seeded = true;
+    return events;
+  }
+
+  private compare(prev: Game | undefined, game: Game, at: string): NewEvent[] {
+    const events: NewEvent[] = [];
+    const make = (type: GameEventType, message: string, extra: Partial<NewEvent> = {}): NewEvent => ({
+      type,
+      at,
+      gameId: game.id,
+      league: game.league,
+      score: { ...game.score },
+      away: game.away.abbr,
+      home: game.home.abbr,
+      statusText: formatStatus(game, { style: 'text' }),
+      message,
+      ...extra,
+    });
+
+    const wasPre = !prev || prev.status.state === 'pre';
+    const state = game.status.state;
+
+    if (state !== 'pre' && wasPre) {
+      events.push(make('game_started', `${game.away.abbr} at ${game.home.abbr} has started`));
+    }
+
+    if (prev && state !== 'pre') {
+      for (const side of ['away', 'home'] as Side[]) {
+        const points = game.score[side] - prev.score[side];
+        if (points > 0) {
+          const team = game[side].abbr;
+          events.push(make('scored', `${team} scores (${scoreLine(game)})`, { team, points }));
+        }
+      }
+
+      const leader = leaderOf(game.score);
+      const before = this.lastLeader.get(game.id);
+      if (leader && before && leader !== before) {
+        const team = game[leader].abbr;
+        events.push(make('lead_change', `${team} takes the lead (${scoreLine(game)})`, { team }));
+      }
+
+      const ended = endedPeriod(prev, game);
+      if (ended !== null) {
+        const period = formatPeriod(game.league, ended);
+        events.push(make('period_ended', `End of ${period} (${scoreLine(game)})`, { period }));
+      }
+    }
+
+    if (state === 'final' && prev?.status.state !== 'final') {
+      const winner = leaderOf(game.score);
+      const team = winner ? game[winner].abbr : undefined;
+      events.push(make('went_final', `Final: ${scoreLine(game)}`, { team }));
+
+      if (winner && this.isUpset(game, winner)) {
+        const loser = game[winner === 'home' ? 'away' : 'home'];
+        events.push(make('upset', `Upset: ${team} beats ${loser.abbr} (${scoreLine(game)})`, { team }));
+      }
+    }
+
+    return events;
+  }
+
+  private isUpset(game: Game, winner: Side): boolean {
+    const loser: Side = winner === 'home' ? 'away' : 'home';
+    const winnerPct = winPct(game[winner].record);
+    const loserPct = winPct(game[loser].record);
+    if (winnerPct === null || loserPct === null) return false;
+    return loserPct - winnerPct >= this.upsetMargin;
+  }
+}
+
+/** Bounded in-memory log backing /api/events. */
+export class EventLog {
+  private events: GameEvent[] = [];
+  private seq = 0;
+
+  constructor(private limit: number = 500) {}
+
+  append(events: NewEvent[]): GameEvent[] {
+    const stamped = events.map((e) => ({ seq: ++this.seq, ...e }));
+    this.events.push(...stamped);
+    if (this.events.length > this.limit) {
+      this.events.splice(0, this.events.length - this.limit);
+    }
+    return stamped;
+  }
+
+  query(filter: {
+    since?: number;
+    types?: string[];
+    leagues?: string[];
+    teams?: string[];
+    gameId?: string;
+    limit?: number;
+  } = {}): GameEvent[] {
+    const teams = filter.teams?.map((t) => t.toUpperCase());
+    const leagues = filter.leagues?.map((l) => l.toUpperCase());
+    const matches = this.events.filter((e) =>
+      (filter.since === undefined || e.seq > filter.since) &&
+      (!filter.types || filter.types.includes(e.type)) &&
+      (!leagues || leagues.includes(e.league)) &&
+      (!teams || teams.includes(e.home) || teams.includes(e.away)) &&
+      (!filter.gameId || e.gameId === filter.gameId)
+    );
+    return filter.limit ? matches.slice(-filter.limit) : matches;
+  }
+
+  get lastSeq(): number {
+    return this.seq;
+  }
+}
+
+function leaderOf(score: GameScore): Side | null {
+  if (score.home > score.away) return 'home';
+  if (score.away > score.home) return 'away';
+  return null;
+}
+
+function scoreLine(game: Game): string {
+  return `${game.away.abbr} ${game.score.away}, ${game.home.abbr} ${game.score.home}`;
+}
+
+// Period that ended between snapshots, if any: either the game went into a
+// break, or the period number moved on without us seeing the break.
+function endedPeriod(prev: Game, game: Game): number | null {
+  const p = prev.status;
+  const s = game.status;
+  if (p.state !== 'in_progress') return null;
+  if (s.state === 'in_progress' && s.betweenPeriods && !p.betweenPeriods) {
+    return s.period ?? null;
+  }
+  if (!p.betweenPeriods && p.period && s.period && s.period > p.period) {
+    return p.period;
+  }
+  return null;
+}
+
+// "35-18-4" → wins / games played; null when unparseable
+function winPct(record: string | undefined): number | null {
+  const parts = (record || '').split('-').map((n) => parseInt(n, 10));
+  if (parts.length < 2 || parts.some(Number.isNaN)) return null;
+  const played = parts.reduce((a, b) => a + b, 0);
+  return played > 0 ? parts[0] / played : null;
+}
@@ -1,60 +1,49 @@
-import { FeedItem, FeedResponse, WideFeedProvider } from '../types';
-import { NbaFeedProvider } from '../providers/nba';
-import { NhlFeedProvider } from '../providers/nhl';
-import { PgaFeedProvider } from '../providers/pga';
-
-interface FeedCache {
-  items: FeedItem[];
-  updatedAt: Date;
-}
+import { FeedEntry, FeedOverlay, FeedProvider, FeedSnapshot } from '../types';
+import { entryState } from './feedItems';
+import { ProviderGuard, ProviderGuardOptions, ProviderStatus } from './providerGuard';
 
 export class FeedAggregator {
-  private providers: WideFeedProvider[];
-  private cache: FeedCache | null = null;
-  private ttlMs: number;
-
-  constructor(ttlMs: number = 30_000) {
-    this.providers = [
-      new NbaFeedProvider(),
-      new NhlFeedProvider(),
-      new PgaFeedProvider(),
-    ];
-    this.ttlMs = ttlMs;
+  private providers: ProviderGuard[];
+  private overlay?: FeedOverlay;
+  private snapshot: FeedSnapshot = { entries: [], all: [], updatedAt: new Date(0), stale: [] };
+
+  constructor(providers: FeedProvider[], overlay?: FeedOverlay, options: ProviderGuardOptions = {}) {
+    this.providers = providers.map((p) => new ProviderGuard(p, options));
+    this.overlay = overlay;
   }
 
-  async getItems(): Promise<FeedResponse> {
-    if (this.cache && Date.now() - this.cache.updatedAt.getTime() < this.ttlMs) {
-      return {
-        items: this.cache.items,
-        updated: this.cache.updatedAt.toISOString(),
-      };
-    }
-    return this.refresh();
+  getSports(): string[] {
+    return this.providers.map(p => p.getSport());
   }
 
-  async refresh(): Promise<FeedResponse> {
-    const results = await Promise.allSettled(
-      this.providers.map(p => p.fetchItems())
-    );
+  /** Per-provider health: circuit state, last success and last error. */
+  getProviderStatus(): ProviderStatus[] {
+    const now = new Date();
+    return this.providers.map((p) => p.status(now));
+  }
 
-    const items: FeedItem[] = [];
-    for (const result of results) {
-      if (result.status === 'fulfilled') {
-        items.push(...result.value);
-      } else {
-        console.error('[FeedAggregator] Provider failed:', result.reason);
-      }
-    }
+  /** Last published snapshot — what every output renders from. */
+  getSnapshot(): FeedSnapshot {
+    return this.snapshot;
+  }
+
+  // A failing provider contributes its last good entries and is listed in `stale`
+  async refresh(): Promise<FeedSnapshot> {
+    const start = new Date();
+    const results = await Promise.all(this.providers.map(p => p.fetch(start)));
+
+    let entries: FeedEntry[] = results.flatMap((r) => r.entries);
+    const stale = this.providers.filter((_, i) => results[i].stale).map((p) => p.getSport());
+    const now = new Date();
+    if (this.overlay) entries = this.overlay.apply(entries, now);
 
     // Sort: live first, then pre, then final
     const stateOrder: Record<string, number> = { live: 0, pre: 1, final: 2 };
-    items.sort((a, b) => (stateOrder[a.state] ?? 9) - (stateOrder[b.state] ?? 9));
-
-    this.cache = { items, updatedAt: new Date() };
+    entries.sort((a, b) => (stateOrder[entryState(a)] ?? 9) - (stateOrder[entryState(b)] ?? 9));
+    const all = entries;
+    if (this.overlay?.arrange) entries = this.overlay.arrange(entries);
 
-    return {
-      items: this.cache.items,
-      updated: this.cache.updatedAt.toISOString(),
-    };
+    this.snapshot = { entries, all, updatedAt: now, stale };
+    return this.snapshot;
   }
 }
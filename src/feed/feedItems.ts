@@ -0,0 +1,48 @@
+import { FeedEntry, FeedItem, Game, GameFeedItem, PgaFeedItem } from '../types';
+import { formatPeriod, formatStatus, possessionSide } from '../utils/status';
+
+export function isGame(entry: FeedEntry): entry is Game {
+  return (entry as PgaFeedItem).type !== 'pga';
+}
+
+/** Display state shared by games and leaderboards, used for ordering. */
+export function entryState(entry: FeedEntry): 'pre' | 'live' | 'final' {
+  if (!isGame(entry)) return entry.state;
+  return entry.status.state === 'in_progress' ? 'live' : entry.status.state;
+}
+
+export function entryToFeedItem(entry: FeedEntry): FeedItem {
+  return isGame(entry) ? gameToFeedItem(entry) : entry;
+}
+
+/** Convert a canonical Game into the wide-feed tile shape. */
+export function gameToFeedItem(game: Game): GameFeedItem {
+  return {
+    type: 'game',
+    id: game.id,
+    sport: game.league,
+    leagueLabel: game.leagueLabel,
+    away: {
+      abbr: game.away.abbr,
+      name: game.away.name,
+      color: game.away.color,
+      logoUrl: game.away.logoUrl || '',
+      record: game.away.record,
+    },
+    home: {
+      abbr: game.home.abbr,
+      name: game.home.name,
+      color: game.home.color,
+      logoUrl: game.home.logoUrl || '',
+      record: game.home.record,
+    },
+    awayScore: game.score.away,
+    homeScore: game.score.home,
+    state: entryState(game),
+    statusText: formatStatus(game),
+    periodLabel: game.status.period
+      ? formatPeriod(game.league, game.status.period, game.status.shootout)
+      : undefined,
+    possession: possessionSide(game),
+  };
+}
@@ -0,0 +1,159 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { FeedEntry, FilterPreset, FilterRule, SportType, StandingsGroup } from '../types';
+import { entryState, isGame } from './feedItems';
+import { createLogger } from '../utils/logger';
+
+// ═══════════════════════════════════════════════════════════════════════
+//  League / team / state filters
+//
+//  A request narrows the feed with ?league=NBA,NHL, ?team=CHI (or NBA:CHI)
+//  and ?state=pre,live,final, and/or ?preset=<name> from the presets file.
+//  A preset matches entries passing any of its rules, so "Chicago teams
+//  plus every live game" is two rules. Query fields and a preset combine:
+//  an entry has to pass both.
+// ═══════════════════════════════════════════════════════════════════════
+
+const log = createLogger('Filters');
+
+export interface EntryFilter {
+  key: string;                // canonical query string ('' = everything), also a cache key
+  clauses: FilterRule[][];    // all clauses must match; a clause matches when any rule does
+}
+
+export const NO_FILTER: EntryFilter = { key: '', clauses: [] };
+
+const LEAGUES: SportType[] = ['NBA', 'NHL', 'NFL', 'MLB', 'NCAAF', 'NCAAB', 'PGA'];
+const STATES = ['pre', 'live', 'final'] as const;
+// Team abbreviations, optionally league-scoped; also keeps them safe to echo into page scripts
+const TEAM = /^(?:[a-z]+:)?[a-z0-9&.]{1,8}$/i;
+const PRESET_NAME = /^[a-z0-9][a-z0-9_-]*$/i;
+
+let presets = new Map<string, FilterPreset>();
+
+/** Load named presets from a JSON array file; a missing file means none. */
+export function loadPresets(filePath: string): void {
+  const resolved = path.resolve(process.cwd(), filePath);
+  if (!fs.existsSync(resolved)) {
+    presets = new Map();
+    return;
+  }
+  const raw = JSON.parse(fs.readFileSync(resolved, 'utf-8')) as FilterPreset[];
+  presets = new Map(
+    raw
+      .filter((p) => PRESET_NAME.test(p.name || '') && Array.isArray(p.rules))
+      .map((p) => [p.name.toLowerCase(), { ...p, rules: p.rules.map(normalizeRule) }])
+  );
+  log.info('Loaded presets', { count: presets.size, file: filePath });
+}
+
+export function listPresets(): FilterPreset[] {
+  return [...presets.values()];
+}
+
+export function findPreset(name: string): FilterPreset | undefined {
+  return presets.get(name.trim().toLowerCase());
+}
+
+/**
+ * Filter from a request's query string. Unknown presets, leagues or states
+ * (and malformed team abbreviations) come back as an error message.
+ */
+export function parseFilter(query: Record<string, unknown>): { filter: EntryFilter } | { error: string } {
+  const list = (v: unknown) => (v ? String(v).split(',').map((x) => x.trim()).filter(Boolean) : []);
+  const leagues = list(query.league).map((l) => l.toUpperCase());
+  const teams = list(query.team).map((t) => t.toUpperCase());
+  const states = list(query.state).map((s) => s.toLowerCase());
+  const presetName = query.preset ? String(query.preset).trim().toLowerCase() : '';
+
+  const badLeague = leagues.find((l) => !LEAGUES.includes(l as SportType));
+  if (badLeague) return { error: `Unknown league ${badLeague} (available: ${LEAGUES.join(', ')})` };
+  const badState = states.find((s) => !(STATES as readonly string[]).includes(s));
+  if (badState) return { error: `Unknown state ${badState} (available: ${STATES.join(', ')})` };
+  const badTeam = teams.find((t) => !TEAM.test(t));
+  if (badTeam) return { error: `Invalid team ${badTeam}` };
+
+  const clauses: FilterRule[][] = [];
+  const params: string[] = [];
+  if (presetName) {
+    const preset = findPreset(presetName);
+    if (!preset) {
+      const names = listPresets().map((p) => p.name).join(', ') || 'none';
+      return { error: `Unknown preset (available: ${names})` };
+    }
+    clauses.push(preset.rules);
+    params.push(`preset=${encodeURIComponent(presetName)}`);
+  }
+  if (leagues.length > 0 || teams.length > 0 || states.length > 0) {
+    clauses.push([
+      normalizeRule({
+        leagues: leagues.length > 0 ? (leagues as SportType[]) : undefined,
+        teams: teams.length > 0 ? teams : undefined,
+        states: states.length > 0 ? (states as FilterRule['states']) : undefined,
+      }),
+    ]);
+    if (leagues.length > 0) params.push(`league=${leagues.join(',')}`);
+    if (teams.length > 0) params.push(`team=${teams.map(encodeURIComponent).join(',')}`);
+    if (states.length > 0) params.push(`state=${states.join(',')}`);
+  }
+  return { filter: { key: params.join('&'), clauses } };
+}
+
+/** Carries a filter along to linked URLs ('' when unfiltered). */
+export function filterQuery(filter: EntryFilter, prefix: '?' | '&' = '&'): string {
+  return filter.key ? `${prefix}${filter.key}` : '';
+}
+
+export function matchesFilter(entry: FeedEntry, filter: EntryFilter): boolean {
+  return filter.clauses.every((rules) => rules.some((rule) => matchesRule(entry, rule)));
+}
+
+export function filterEntries<T extends FeedEntry>(entries: T[], filter: EntryFilter): T[] {
+  return filter.clauses.length === 0 ? entries : entries.filter((e) => matchesFilter(e, filter));
+}
+
+/**
+ * Standings tables pass a rule on their league and on any team in the table;
+ * a rule on game states never matches them.
+ */
+export function matchesStandings(group: StandingsGroup, filter: EntryFilter): boolean {
+  return filter.clauses.every((rules) =>
+    rules.some((rule) => {
+      if (rule.states) return false;
+      if (rule.leagues && !rule.leagues.includes(group.league)) return false;
+      if (!rule.teams) return true;
+      const abbrs = group.rows.map((r) => r.team.abbr.toUpperCase());
+      return rule.teams.some((t) => {
+        const [scope, abbr] = t.includes(':') ? t.split(':') : [null, t];
+        return (!scope || scope === group.league) && abbrs.includes(abbr);
+      });
+    })
+  );
+}
+
+function matchesRule(entry: FeedEntry, rule: FilterRule): boolean {
+  const league = isGame(entry) ? entry.league : entry.sport;
+  if (rule.leagues && !rule.leagues.includes(league)) return false;
+  if (rule.states && !rule.states.includes(entryState(entry))) return false;
+  if (rule.teams) {
+    // Leaderboards have no teams, so a team rule never matches them
+    if (!isGame(entry)) return false;
+    const abbrs = [entry.home.abbr.toUpperCase(), entry.away.abbr.toUpperCase()];
+    const hit = rule.teams.some((t) => {
+      const [scope, abbr] = t.includes(':') ? t.split(':') : [null, t];
+      return (!scope || scope === league) && abbrs.includes(abbr);
+    });
+    if (!hit) return false;
+  }
+  return true;
+}
+
+// Upper-case leagues and teams; empty lists mean "any"
+function normalizeRule(rule: FilterRule): FilterRule {
+  const nonEmpty = <T>(xs: T[] | undefined) => (xs && xs.length > 0 ? xs : undefined);
+  return {
+    leagues: nonEmpty(rule.leagues?.map((l) => l.toUpperCase() as SportType)),
+    teams: nonEmpty(rule.teams?.map((t) => t.toUpperCase())),
+    states: nonEmpty(rule.states?.map((s) => s.toLowerCase() as 'pre' | 'live' | 'final')),
+  };
+}
@@ -0,0 +1,156 @@
+import { FeedEntry, FeedProvider, SportType } from '../types';
+import { metrics } from '../utils/metrics';
+import { createLogger } from '../utils/logger';
+
+// ═══════════════════════════════════════════════════════════════════════
+//  Provider resilience
+//
+//  Each provider call is bounded by a timeout and retried with exponential
+//  backoff. After `failureThreshold` failed refreshes in a row the circuit
+//  opens and the provider is left alone for `cooldownMs`; then a single
+//  trial call (half-open) decides whether it closes again. While a provider
+//  is failing, its last good entries are served and reported as stale, so
+//  its sport stays in the feed instead of vanishing.
+// ═══════════════════════════════════════════════════════════════════════
+
+const log = createLogger('Providers');
+
+const fetchSeconds = metrics.histogram(
+  'ticker_provider_fetch_duration_seconds',
+  'Time for a provider to answer a refresh, retries included'
+);
+const failedRefreshes = metrics.counter('ticker_provider_failures_total', 'Refreshes in which a provider failed every attempt');
+const retriedCalls = metrics.counter('ticker_provider_retries_total', 'Provider calls retried after a failure or timeout');
+
+export interface ProviderGuardOptions {
+  timeoutMs?: number;
+  retries?: number;           // extra attempts within one refresh
+  backoffMs?: number;         // first retry delay; doubles per attempt
+  failureThreshold?: number;  // failed refreshes in a row before the circuit opens
+  cooldownMs?: number;        // how long an open circuit skips the provider
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface ProviderStatus {
+  sport: SportType;
+  status: 'ok' | 'stale' | 'down';    // down = failing with nothing to fall back on
+  circuit: CircuitState;
+  entries: number;                    // entries currently served from this provider
+  consecutiveFailures: number;
+  lastSuccess: string | null;
+  lastFailure: string | null;
+  lastError: string | null;
+  retryAt: string | null;             // when an open circuit lets the next call through
+}
+
+export interface GuardedResult {
+  entries: FeedEntry[];
+  stale: boolean;
+}
+
+export class ProviderGuard {
+  private provider: FeedProvider;
+  private timeoutMs: number;
+  private retries: number;
+  private backoffMs: number;
+  private failureThreshold: number;
+  private cooldownMs: number;
+
+  private lastGood: FeedEntry[] = [];
+  private stale = false;
+  private failures = 0;
+  private openUntil = 0;              // 0 = circuit closed
+  private lastSuccess: Date | null = null;
+  private lastFailure: Date | null = null;
+  private lastError: string | null = null;
+
+  constructor(provider: FeedProvider, options: ProviderGuardOptions = {}) {
+    this.provider = provider;
+    this.timeoutMs = options.timeoutMs ?? 8_000;
+    this.retries = options.retries ?? 2;
+    this.backoffMs = options.backoffMs ?? 500;
+    this.failureThreshold = options.failureThreshold ?? 3;
+    this.cooldownMs = options.cooldownMs ?? 120_000;
+  }
+
+  getSport(): SportType {
+    return this.provider.getSport();
+  }
+
+  /** Fresh entries, or the last good ones (stale) when the provider fails. Never rejects. */
+  async fetch(now = new Date()): Promise<GuardedResult> {
+    const circuit = this.circuit(now);
+    if (circuit === 'open') return { entries: this.lastGood, stale: true };
+
+    // A half-open circuit gets one trial call, no retries
+    const attempts = circuit === 'half-open' ? 1 : this.retries + 1;
+    const labels = { sport: this.getSport() };
+    const start = process.hrtime.bigint();
+    const observe = () => fetchSeconds.observe(labels, Number(process.hrtime.bigint() - start) / 1e9);
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      try {
+        const entries = await this.withTimeout(this.provider.fetchEntries());
+        observe();
+        if (this.openUntil) log.info('Provider recovered; circuit closed', { sport: this.getSport() });
+        this.lastGood = entries;
+        this.stale = false;
+        this.failures = 0;
+        this.openUntil = 0;
+        this.lastSuccess = new Date();
+        return { entries, stale: false };
+      } catch (err) {
+        this.lastError = err instanceof Error ? err.message : String(err);
+        if (attempt < attempts) {
+          retriedCalls.inc(labels);
+          await sleep(this.backoffMs * 2 ** (attempt - 1));
+        }
+      }
+    }
+
+    observe();
+    failedRefreshes.inc(labels);
+    this.failures++;
+    this.lastFailure = new Date();
+    this.stale = true;
+    log.error('Provider failed', { sport: this.getSport(), consecutiveFailures: this.failures, error: this.lastError });
+    if (circuit === 'half-open' || this.failures >= this.failureThreshold) {
+      this.openUntil = now.getTime() + this.cooldownMs;
+      log.warn('Circuit open', { sport: this.getSport(), retryAt: new Date(this.openUntil).toISOString() });
+    }
+    return { entries: this.lastGood, stale: true };
+  }
+
+  status(now = new Date()): ProviderStatus {
+    const circuit = this.circuit(now);
+    return {
+      sport: this.getSport(),
+      status: !this.stale ? 'ok' : this.lastSuccess ? 'stale' : 'down',
+      circuit,
+      entries: this.lastGood.length,
+      consecutiveFailures: this.failures,
+      lastSuccess: this.lastSuccess?.toISOString() ?? null,
+      lastFailure: this.lastFailure?.toISOString() ?? null,
+      lastError: this.lastError,
+      retryAt: circuit === 'open' ? new Date(this.openUntil).toISOString() : null,
+    };
+  }
+
+  private circuit(now: Date): CircuitState {
+    if (!this.openUntil) return 'closed';
+    return now.getTime() < this.openUntil ? 'open' : 'half-open';
+  }
+
+  // Providers take no abort signal, so a hung call is abandoned rather than cancelled
+  private withTimeout<T>(promise: Promise<T>): Promise<T> {
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`Timed out after ${this.timeoutMs}ms`)), this.timeoutMs);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,104 @@
+import type { Response } from 'express';
+import { EntryFilter, NO_FILTER } from './filters';
+
+// ═══════════════════════════════════════════════════════════════════════
+//  Server-Sent Events fan-out for /api/stream
+//
+//  The refresh loop publishes item-level diffs; each connected display
+//  applies them to its local list and hot-updates only the changed tiles.
+// ═══════════════════════════════════════════════════════════════════════
+
+export interface ItemDiff<T> {
+  upserted: T[];     // new or changed items
+  removed: string[]; // ids no longer present
+  order: string[];   // full id order after the change
+}
+
+/** Item-level diff by id; null when nothing (including order) changed. */
+export function diffById<T extends { id: string }>(prev: T[], next: T[]): ItemDiff<T> | null {
+  const prevById = new Map(prev.map((item) => [item.id, JSON.stringify(item)]));
+  const nextIds = new Set(next.map((item) => item.id));
+
+  const upserted = next.filter((item) => prevById.get(item.id) !== JSON.stringify(item));
+  const removed = prev.filter((item) => !nextIds.has(item.id)).map((item) => item.id);
+  const order = next.map((item) => item.id);
+  const reordered = order.join(',') !== prev.map((item) => item.id).join(',');
+
+  if (upserted.length === 0 && removed.length === 0 && !reordered) return null;
+  return { upserted, removed, order };
+}
+
+interface StreamClient {
+  res: Response;
+  channels: Set<string>;
+  baseUrl: string;
+  filter: EntryFilter;
+}
+
+export class FeedStream {
+  private clients = new Set<StreamClient>();
+  private heartbeat: NodeJS.Timeout | null = null;
+
+  constructor(private heartbeatMs: number = 25_000) {}
+
+  get size(): number {
+    return this.clients.size;
+  }
+
+  /**
+   * Attach an SSE response. `baseUrl` is kept per client because payloads
+   * can carry absolute URLs (e.g. imageUrl) built for that client's host;
+   * `filter` because filtered displays get diffs of their own subset.
+   */
+  addClient(res: Response, channels: string[], baseUrl: string, filter: EntryFilter = NO_FILTER): StreamClient {
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no', // disable proxy buffering (nginx)
+      'Access-Control-Allow-Origin': '*',
+    });
+    res.flushHeaders();
+    res.write('retry: 10000\n\n');
+
+    const client: StreamClient = { res, channels: new Set(channels), baseUrl, filter };
+    this.clients.add(client);
+    res.on('close', () => {
+      this.clients.delete(client);
+      if (this.clients.size === 0) this.stopHeartbeat();
+    });
+    this.startHeartbeat();
+    return client;
+  }
+
+  /** Send to one client (initial snapshot on connect). */
+  send(client: StreamClient, event: string, data: unknown): void {
+    if (!client.channels.has(event)) return;
+    client.res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+
+  /**
+   * Send to every client subscribed to `event`; payload is built per client
+   * and a null payload skips that client.
+   */
+  broadcast(event: string, build: (baseUrl: string, filter: EntryFilter) => unknown): void {
+    for (const client of this.clients) {
+      if (!client.channels.has(event)) continue;
+      const data = build(client.baseUrl, client.filter);
+      if (data !== null) this.send(client, event, data);
+    }
+  }
+
+  private startHeartbeat(): void {
+    if (this.heartbeat) return;
+    this.heartbeat = setInterval(() => {
+      for (const client of this.clients) client.res.write(': ping\n\n');
+    }, this.heartbeatMs);
+    this.heartbeat.unref();
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeat) clearInterval(this.heartbeat);
+    this.heartbeat = null;
+  }
+}
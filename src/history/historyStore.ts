@@ -0,0 +1,221 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { isGame } from '../feed/feedItems';
+import { FeedEntry, Game } from '../types';
+import { createLogger } from '../utils/logger';
+
+// ═══════════════════════════════════════════════════════════════════════
+//  Results archive
+//
+//  Every refresh appends what changed to one JSON Lines file per game date
+//  (<dir>/YYYY-MM-DD.jsonl): a `game` record whenever a published game's
+//  score or status moves, and a `lineup` record whenever the published
+//  entries change. Files are only ever appended to, so a crash loses at
+//  most the refresh being written; a torn last line is skipped on read.
+//  A game's date is its start date in `timezone` (first-seen date when it
+//  has no start time). Files older than `retentionDays` are deleted.
+// ═══════════════════════════════════════════════════════════════════════
+
+const log = createLogger('History');
+
+export interface HistoryOptions {
+  dir: string;
+  timezone: string;
+  retentionDays: number;            // 0 = keep forever
+}
+
+/** A game as it was published at `at`. */
+interface GameRecord {
+  type: 'game';
+  at: string;
+  date: string;
+  game: Game;
+}
+
+/** Ids of every entry published at `at`, in feed order. */
+interface LineupRecord {
+  type: 'lineup';
+  at: string;
+  ids: string[];
+}
+
+type HistoryRecord = GameRecord | LineupRecord;
+
+export interface GameHistory {
+  date: string;
+  game: Game;                                   // latest archived state
+  progression: { at: string; game: Game }[];    // one point per score or status change
+}
+
+export interface LineupSnapshot {
+  at: string;                       // when this lineup was published
+  ids: string[];
+  games: Map<string, Game>;         // each game as it stood at the requested time
+}
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class HistoryStore {
+  private options: HistoryOptions;
+  private dir: string;
+  private calendar: Intl.DateTimeFormat;
+  private last = new Map<string, string>();     // game id → fingerprint of its last record
+  private dates = new Map<string, string>();    // game id → first-seen date, for games without a start time
+  private lastLineup = '';
+  private prunedOn = '';
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(options: HistoryOptions) {
+    this.options = options;
+    this.dir = path.resolve(process.cwd(), options.dir);
+    this.calendar = new Intl.DateTimeFormat('en-US', {
+      timeZone: options.timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+    });
+  }
+
+  /** Calendar date (YYYY-MM-DD) of a moment in the archive's time zone. */
+  dateOf(time: Date | number): string {
+    const parts = Object.fromEntries(this.calendar.formatToParts(new Date(time)).map((p) => [p.type, p.value]));
+    return `${parts.year}-${parts.month}-${parts.day}`;
+  }
+
+  /**
+   * Append records for whatever changed in this snapshot. Games are archived
+   * from `entries` (hidden ones included, so a result survives being hidden);
+   * the lineup is what was `published`.
+   */
+  record(entries: FeedEntry[], now: Date, published: FeedEntry[] = entries): Promise<void> {
+    const at = now.toISOString();
+    const byDate = new Map<string, HistoryRecord[]>();
+    const add = (date: string, record: HistoryRecord) => {
+      const records = byDate.get(date) || [];
+      records.push(record);
+      byDate.set(date, records);
+    };
+
+    const ids = entries.map((e) => e.id);
+    for (const game of entries.filter(isGame)) {
+      const print = JSON.stringify([game.score, game.status, game.leagueLabel]);
+      if (this.last.get(game.id) === print) continue;
+      this.last.set(game.id, print);
+      const date = this.gameDate(game, now);
+      add(date, { type: 'game', at, date, game });
+    }
+    // Games that left the feed are recorded afresh if they come back
+    const present = new Set(ids);
+    for (const id of this.last.keys()) {
+      if (!present.has(id)) {
+        this.last.delete(id);
+        this.dates.delete(id);
+      }
+    }
+    const lineup = published.map((e) => e.id);
+    if (lineup.join(',') !== this.lastLineup) {
+      this.lastLineup = lineup.join(',');
+      add(this.dateOf(now), { type: 'lineup', at, ids: lineup });
+    }
+    if (byDate.size === 0) return this.writing;
+
+    this.writing = this.writing.catch(() => undefined).then(async () => {
+      await fs.promises.mkdir(this.dir, { recursive: true });
+      for (const [date, records] of byDate) {
+        await fs.promises.appendFile(this.fileFor(date), records.map((r) => `${JSON.stringify(r)}\n`).join(''));
+      }
+      await this.prune(now);
+    });
+    return this.writing;
+  }
+
+  /** Games archived for `date`, as of `until` (default: latest), in first-seen order. */
+  async games(date: string, until?: Date): Promise<GameHistory[]> {
+    const cutoff = until?.toISOString();
+    const byId = new Map<string, GameHistory>();
+    for (const record of await this.read(date)) {
+      if (record.type !== 'game' || record.date !== date) continue;
+      if (cutoff && record.at > cutoff) continue;
+      const history = byId.get(record.game.id) || { date, game: record.game, progression: [] };
+      history.game = record.game;
+      history.progression.push({ at: record.at, game: record.game });
+      byId.set(record.game.id, history);
+    }
+    return [...byId.values()];
+  }
+
+  /**
+   * What was published at `time`: the lineup then in effect and each of its
+   * games as it stood. Null when the archive has no lineup before `time`.
+   */
+  async lineupAt(time: Date): Promise<LineupSnapshot | null> {
+    const cutoff = time.toISOString();
+    // A lineup can date from the day before; its games from either side of midnight
+    const days = [-1, 0, 1].map((d) => this.dateOf(time.getTime() + d * DAY_MS));
+    const records = (await Promise.all(days.map((d) => this.read(d))))
+      .flat()
+      .filter((r) => r.at <= cutoff)
+      .sort((a, b) => (a.at < b.at ? -1 : a.at > b.at ? 1 : 0));
+
+    let lineup: LineupRecord | null = null;
+    const games = new Map<string, Game>();
+    for (const record of records) {
+      if (record.type === 'lineup') lineup = record;
+      else games.set(record.game.id, record.game);
+    }
+    if (!lineup) return null;
+    const shown = new Map(lineup.ids.filter((id) => games.has(id)).map((id) => [id, games.get(id)!]));
+    return { at: lineup.at, ids: lineup.ids, games: shown };
+  }
+
+  private gameDate(game: Game, now: Date): string {
+    const start = game.startTime ? Date.parse(game.startTime) : NaN;
+    if (!Number.isNaN(start)) return this.dateOf(start);
+    let date = this.dates.get(game.id);
+    if (!date) {
+      date = this.dateOf(now);
+      this.dates.set(game.id, date);
+    }
+    return date;
+  }
+
+  private fileFor(date: string): string {
+    return path.join(this.dir, `${date}.jsonl`);
+  }
+
+  private async read(date: string): Promise<HistoryRecord[]> {
+    if (!DATE.test(date)) return [];
+    let text: string;
+    try {
+      text = await fs.promises.readFile(this.fileFor(date), 'utf-8');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw err;
+    }
+    const records: HistoryRecord[] = [];
+    for (const line of text.split('\n')) {
+      if (!line) continue;
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        // Torn write from a crash mid-append
+      }
+    }
+    return records;
+  }
+
+  // At most once a day: delete files past retention
+  private async prune(now: Date): Promise<void> {
+    const today = this.dateOf(now);
+    if (this.options.retentionDays <= 0 || this.prunedOn === today) return;
+    this.prunedOn = today;
+    const oldest = this.dateOf(now.getTime() - this.options.retentionDays * DAY_MS);
+    const stale = (await fs.promises.readdir(this.dir)).filter((f) => {
+      const date = f.replace(/\.jsonl$/, '');
+      return f.endsWith('.jsonl') && DATE.test(date) && date < oldest;
+    });
+    for (const f of stale) await fs.promises.unlink(path.join(this.dir, f));
+    if (stale.length > 0) log.info('Deleted expired archive files', { count: stale.length, olderThan: oldest });
+  }
+}
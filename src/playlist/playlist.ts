@@ -0,0 +1,173 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { isGame } from '../feed/feedItems';
+import { Daypart, FeedEntry, Game, PlaylistKind, SportType } from '../types';
+import { createLogger } from '../utils/logger';
+
+// ═══════════════════════════════════════════════════════════════════════
+//  Playlist engine
+//
+//  Turns the feed snapshot into a schedule: each entry gets a kind (close,
+//  live, pre, final), a dwell time and a priority, and the list is ordered
+//  by priority (ties keep feed order). Pre-game entries only play within
+//  `preGameHours` of their start. Daypart rules from PLAYLIST_FILE can
+//  narrow the leagues and kinds and override dwell and priority by time of
+//  day; the first daypart matching the local time applies. Entries an
+//  operator pinned skip those rules and play first.
+// ═══════════════════════════════════════════════════════════════════════
+
+const log = createLogger('Playlist');
+
+export interface PlaylistOptions {
+  timezone: string;
+  preGameHours: number;
+  dwellMs: Record<PlaylistKind | 'sponsor', number>;
+  priority: Record<PlaylistKind, number>;
+  close: Partial<Record<SportType, { period: number; margin: number }>>;
+}
+
+export interface PlaylistItem {
+  entry: FeedEntry;
+  kind: PlaylistKind;
+  dwellMs: number;
+  priority: number;
+  pinned: boolean;
+}
+
+export interface PlaylistSchedule {
+  daypart: string | null;
+  items: PlaylistItem[];
+  sponsorDwellMs: number;
+  totalMs: number;
+}
+
+const DAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const HOUR_MS = 60 * 60 * 1000;
+
+export class PlaylistEngine {
+  private options: PlaylistOptions;
+  private dayparts: Daypart[] = [];
+  private clock: Intl.DateTimeFormat;
+
+  constructor(options: PlaylistOptions) {
+    this.options = options;
+    this.clock = new Intl.DateTimeFormat('en-US', {
+      timeZone: options.timezone,
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    });
+  }
+
+  /** Load daypart rules from a JSON array file; a missing file means none. */
+  loadFromFile(filePath: string): void {
+    const resolved = path.resolve(process.cwd(), filePath);
+    if (!fs.existsSync(resolved)) {
+      this.dayparts = [];
+      return;
+    }
+    const raw = JSON.parse(fs.readFileSync(resolved, 'utf-8')) as Daypart[];
+    this.dayparts = raw
+      .filter((d) => {
+        const valid = d.name && parseTime(d.start) !== null && parseTime(d.end) !== null;
+        if (!valid) log.warn('Skipping daypart: needs name, start and end (HH:MM)', { daypart: d.name || '(unnamed)' });
+        return valid;
+      })
+      .map((d) => ({ ...d, days: d.days?.map((day) => day.slice(0, 3).toLowerCase()).filter((day) => DAYS.includes(day)) }));
+    log.info('Loaded dayparts', { count: this.dayparts.length, file: filePath });
+  }
+
+  listDayparts(): Daypart[] {
+    return this.dayparts;
+  }
+
+  /** The daypart in effect at `now`, if any. */
+  daypartAt(now = Date.now()): Daypart | null {
+    const { day, minutes } = this.localTime(now);
+    const yesterday = DAYS[(DAYS.indexOf(day) + 6) % 7];
+    return (
+      this.dayparts.find((d) => {
+        const start = parseTime(d.start)!;
+        const end = parseTime(d.end)!;
+        // Past midnight, an overnight daypart still belongs to the day it started
+        const overnight = start > end && minutes < end;
+        if (d.days && d.days.length > 0 && !d.days.includes(overnight ? yesterday : day)) return false;
+        return start <= end ? minutes >= start && minutes < end : minutes >= start || overnight;
+      }) || null
+    );
+  }
+
+  build(entries: FeedEntry[], now = Date.now(), pinned: ReadonlySet<string> = new Set()): PlaylistSchedule {
+    const daypart = this.daypartAt(now);
+    const dwell = { ...this.options.dwellMs, ...daypart?.dwellMs };
+    const priority = { ...this.options.priority, ...daypart?.priority };
+    const preGameMs = (daypart?.preGameHours ?? this.options.preGameHours) * HOUR_MS;
+
+    let items = entries
+      .map((entry) => ({ entry, kind: this.kindOf(entry), pinned: pinned.has(entry.id) }))
+      .filter(({ entry, kind, pinned }) => {
+        if (pinned) return true;
+        if (daypart?.leagues && daypart.leagues.length > 0 && !daypart.leagues.includes(leagueOf(entry))) return false;
+        if (daypart?.kinds && daypart.kinds.length > 0 && !daypart.kinds.includes(kind)) return false;
+        if (kind === 'pre') return withinPreGame(entry as Game, now, preGameMs);
+        return true;
+      })
+      .map(({ entry, kind, pinned }) => ({
+        entry,
+        kind,
+        dwellMs: dwell[kind],
+        priority: priority[kind] + (daypart?.leagueBoost?.[leagueOf(entry)] ?? 0),
+        pinned,
+      }));
+
+    // Array#sort is stable, so equal priorities keep the feed's league order
+    items.sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.priority - a.priority);
+    if (daypart?.maxItems) items = items.slice(0, daypart.maxItems);
+
+    return {
+      daypart: daypart?.name ?? null,
+      items,
+      sponsorDwellMs: dwell.sponsor,
+      totalMs: items.reduce((sum, i) => sum + i.dwellMs, 0),
+    };
+  }
+
+  kindOf(entry: FeedEntry): PlaylistKind {
+    if (!isGame(entry)) return entry.state === 'live' ? 'live' : 'final';
+    const { state, period } = entry.status;
+    if (state === 'pre') return 'pre';
+    if (state === 'final') return 'final';
+    const rule = this.options.close[entry.league];
+    const margin = Math.abs(entry.score.home - entry.score.away);
+    if (rule && (period ?? 0) >= rule.period && margin <= rule.margin) return 'close';
+    return 'live';
+  }
+
+  private localTime(now: number): { day: string; minutes: number } {
+    const parts = Object.fromEntries(this.clock.formatToParts(new Date(now)).map((p) => [p.type, p.value]));
+    return {
+      day: String(parts.weekday).slice(0, 3).toLowerCase(),
+      minutes: parseInt(parts.hour, 10) * 60 + parseInt(parts.minute, 10),
+    };
+  }
+}
+
+function leagueOf(entry: FeedEntry): SportType {
+  return isGame(entry) ? entry.league : entry.sport;
+}
+
+// Games without a start time (e.g. mock data) are always in the window
+function withinPreGame(game: Game, now: number, windowMs: number): boolean {
+  if (!game.startTime) return true;
+  const start = Date.parse(game.startTime);
+  return Number.isNaN(start) || start - now <= windowMs;
+}
+
+/** 'HH:MM' → minutes after midnight; null if malformed. */
+function parseTime(value: string | undefined): number | null {
+  const m = /^(\d{1,2}):(\d{2})$/.exec(value || '');
+  if (!m) return null;
+  const minutes = parseInt(m[1], 10) * 60 + parseInt(m[2], 10);
+  return minutes <= 24 * 60 ? minutes : null;
+}
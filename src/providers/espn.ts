@@ -0,0 +1,23 @@
+import { FeedProvider, FeedEntry, FeedProviderOptions, SportType } from '../types';
+import { ApiProvider } from '../dataProviders/apiProvider';
+
+/**
+ * Feed provider backed by the ESPN-style scoreboard adapter.
+ * Registered per league as `espn-nba`, `espn-nhl`, …; the `endpoint`
+ * option replaces the full scoreboard URL for that league.
+ */
+export class EspnFeedProvider implements FeedProvider {
+  private sport: SportType;
+  private api: ApiProvider;
+
+  constructor(sport: SportType, options: FeedProviderOptions = {}) {
+    this.sport = sport;
+    this.api = new ApiProvider({ endpoint: options.endpoint });
+  }
+
+  getSport(): SportType { return this.sport; }
+
+  async fetchEntries(): Promise<FeedEntry[]> {
+    return this.api.fetchLeague(this.sport);
+  }
+}
@@ -0,0 +1,17 @@
+import { FeedProvider, FeedEntry, FeedProviderOptions, SportType } from '../types';
+import { getMlbLogoUrl } from '../utils/mlbLogos';
+import { loadGames } from './source';
+
+export class MlbFeedProvider implements FeedProvider {
+  private options: FeedProviderOptions;
+
+  constructor(options: FeedProviderOptions = {}) {
+    this.options = options;
+  }
+
+  getSport(): SportType { return 'MLB'; }
+
+  async fetchEntries(): Promise<FeedEntry[]> {
+    return loadGames(this.options, 'data/mockMlb.json', 'MLB', getMlbLogoUrl);
+  }
+}
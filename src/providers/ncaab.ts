@@ -0,0 +1,17 @@
+import { FeedProvider, FeedEntry, FeedProviderOptions, SportType } from '../types';
+import { getNcaaLogoUrl } from '../utils/ncaaLogos';
+import { loadGames } from './source';
+
+export class NcaabFeedProvider implements FeedProvider {
+  private options: FeedProviderOptions;
+
+  constructor(options: FeedProviderOptions = {}) {
+    this.options = options;
+  }
+
+  getSport(): SportType { return 'NCAAB'; }
+
+  async fetchEntries(): Promise<FeedEntry[]> {
+    return loadGames(this.options, 'data/mockNcaab.json', 'NCAAB', getNcaaLogoUrl);
+  }
+}
@@ -0,0 +1,17 @@
+import { FeedProvider, FeedEntry, FeedProviderOptions, SportType } from '../types';
+import { getNcaaLogoUrl } from '../utils/ncaaLogos';
+import { loadGames } from './source';
+
+export class NcaafFeedProvider implements FeedProvider {
+  private options: FeedProviderOptions;
+
+  constructor(options: FeedProviderOptions = {}) {
+    this.options = options;
+  }
+
+  getSport(): SportType { return 'NCAAF'; }
+
+  async fetchEntries(): Promise<FeedEntry[]> {
+    return loadGames(this.options, 'data/mockNcaaf.json', 'NCAAF', getNcaaLogoUrl);
+  }
+}
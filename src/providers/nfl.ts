@@ -0,0 +1,17 @@
+import { FeedProvider, FeedEntry, FeedProviderOptions, SportType } from '../types';
+import { getNflLogoUrl } from '../utils/nflLogos';
+import { loadGames } from './source';
+
+export class NflFeedProvider implements FeedProvider {
+  private options: FeedProviderOptions;
+
+  constructor(options: FeedProviderOptions = {}) {
+    this.options = options;
+  }
+
+  getSport(): SportType { return 'NFL'; }
+
+  async fetchEntries(): Promise<FeedEntry[]> {
+    return loadGames(this.options, 'data/mockNfl.json', 'NFL', getNflLogoUrl);
+  }
+}
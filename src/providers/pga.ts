@@ -1,19 +1,17 @@
-import * as fs from 'fs';
-import * as path from 'path';
-import { WideFeedProvider, FeedItem, PgaFeedItem, SportType } from '../types';
+import { FeedProvider, FeedEntry, FeedProviderOptions, PgaFeedItem, SportType } from '../types';
+import { loadProviderJson } from './source';
 
-export class PgaFeedProvider implements WideFeedProvider {
-  private filePath: string;
+export class PgaFeedProvider implements FeedProvider {
+  private options: FeedProviderOptions;
 
-  constructor() {
-    this.filePath = this.findDataFile();
+  constructor(options: FeedProviderOptions = {}) {
+    this.options = options;
   }
 
   getSport(): SportType { return 'PGA'; }
 
-  async fetchItems(): Promise<FeedItem[]> {
-    const raw = fs.readFileSync(this.filePath, 'utf-8');
-    const t = JSON.parse(raw);
+  async fetchEntries(): Promise<FeedEntry[]> {
+    const t = await loadProviderJson(this.options, 'data/mockPga.json');
     const item: PgaFeedItem = {
       type: 'pga',
       id: t.id,
@@ -27,13 +25,4 @@ export class PgaFeedProvider implements WideFeedProvider {
     };
     return [item];
   }
-
-  private findDataFile(): string {
-    const candidates = [
-      path.resolve(process.cwd(), 'data/mockPga.json'),
-      path.join(__dirname, '..', '..', 'data', 'mockPga.json'),
-    ];
-    for (const p of candidates) { if (fs.existsSync(p)) return p; }
-    return candidates[0];
-  }
 }
@@ -0,0 +1,100 @@
+import { FeedProviderConfig, FeedProviderOptions, SportType, FeedProvider, StandingsProvider } from '../types';
+import { ESPN_LEAGUE_PATHS } from '../dataProviders/espn';
+import { EspnFeedProvider } from './espn';
+import { NbaFeedProvider } from './nba';
+import { NhlFeedProvider } from './nhl';
+import { NflFeedProvider } from './nfl';
+import { MlbFeedProvider } from './mlb';
+import { NcaafFeedProvider } from './ncaaf';
+import { NcaabFeedProvider } from './ncaab';
+import { PgaFeedProvider } from './pga';
+import { JsonStandingsProvider } from './standings';
+import { getNbaLogoUrl } from '../utils/nbaLogos';
+import { getNhlLogoUrl } from '../utils/nhlLogos';
+import { getNflLogoUrl } from '../utils/nflLogos';
+import { getMlbLogoUrl } from '../utils/mlbLogos';
+import { getNcaaLogoUrl } from '../utils/ncaaLogos';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('Providers');
+
+export type FeedProviderFactory = (options: FeedProviderOptions) => FeedProvider;
+export type StandingsProviderFactory = (options: FeedProviderOptions) => StandingsProvider;
+
+const factories = new Map<string, FeedProviderFactory>();
+const standingsFactories = new Map<string, StandingsProviderFactory>();
+
+/** Register a feed provider under a config key (e.g. `nba`). */
+export function registerFeedProvider(key: string, factory: FeedProviderFactory): void {
+  factories.set(key.toLowerCase(), factory);
+}
+
+export function listFeedProviders(): string[] {
+  return [...factories.keys()];
+}
+
+/**
+ * Instantiate the enabled providers, in configured order.
+ * Unknown keys are skipped with a warning so a typo doesn't take the feed down.
+ */
+export function createFeedProviders(enabled: FeedProviderConfig[]): FeedProvider[] {
+  const providers: FeedProvider[] = [];
+  for (const entry of enabled) {
+    const factory = factories.get(entry.key.toLowerCase());
+    if (!factory) {
+      log.warn('Unknown provider', { key: entry.key, registered: listFeedProviders() });
+      continue;
+    }
+    providers.push(factory(entry.options || {}));
+  }
+  return providers;
+}
+
+/** Register a standings provider under a config key (e.g. `nba`). */
+export function registerStandingsProvider(key: string, factory: StandingsProviderFactory): void {
+  standingsFactories.set(key.toLowerCase(), factory);
+}
+
+export function listStandingsProviders(): string[] {
+  return [...standingsFactories.keys()];
+}
+
+/** Instantiate the enabled standings providers; unknown keys are skipped with a warning. */
+export function createStandingsProviders(enabled: FeedProviderConfig[]): StandingsProvider[] {
+  const providers: StandingsProvider[] = [];
+  for (const entry of enabled) {
+    const factory = standingsFactories.get(entry.key.toLowerCase());
+    if (!factory) {
+      log.warn('Unknown standings provider', { key: entry.key, registered: listStandingsProviders() });
+      continue;
+    }
+    providers.push(factory(entry.options || {}));
+  }
+  return providers;
+}
+
+// ── Built-in providers ────────────────────────────────────────────────
+registerFeedProvider('nba', (opts) => new NbaFeedProvider(opts));
+registerFeedProvider('nhl', (opts) => new NhlFeedProvider(opts));
+registerFeedProvider('nfl', (opts) => new NflFeedProvider(opts));
+registerFeedProvider('mlb', (opts) => new MlbFeedProvider(opts));
+registerFeedProvider('ncaaf', (opts) => new NcaafFeedProvider(opts));
+registerFeedProvider('ncaab', (opts) => new NcaabFeedProvider(opts));
+registerFeedProvider('pga', (opts) => new PgaFeedProvider(opts));
+
+for (const sport of Object.keys(ESPN_LEAGUE_PATHS) as SportType[]) {
+  registerFeedProvider(`espn-${sport}`, (opts) => new EspnFeedProvider(sport, opts));
+}
+
+// Standings read data/mockStandings.json unless given a dataFile or endpoint
+const STANDINGS_LOGOS: [SportType, (abbr: string) => string][] = [
+  ['NBA', getNbaLogoUrl],
+  ['NHL', getNhlLogoUrl],
+  ['NFL', getNflLogoUrl],
+  ['MLB', getMlbLogoUrl],
+  ['NCAAF', getNcaaLogoUrl],
+  ['NCAAB', getNcaaLogoUrl],
+];
+for (const [sport, logos] of STANDINGS_LOGOS) {
+  registerStandingsProvider(sport.toLowerCase(), (opts) => new JsonStandingsProvider(sport, logos, opts));
+}
@@ -0,0 +1,50 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { FeedProviderOptions, Game, SportType } from '../types';
+
+/**
+ * Load a provider's raw JSON payload.
+ *
+ * An `endpoint` option takes precedence and is fetched over HTTP; otherwise
+ * the `dataFile` option (or the provider's default mock file) is read from
+ * disk, relative to the working directory or the project root.
+ */
+export async function loadProviderJson(options: FeedProviderOptions, defaultFile: string): Promise<any> {
+  if (options.endpoint) {
+    const res = await fetch(options.endpoint, { signal: AbortSignal.timeout(10_000) });
+    if (!res.ok) throw new Error(`HTTP ${res.status} from ${options.endpoint}`);
+    return res.json();
+  }
+
+  const raw = fs.readFileSync(findDataFile(options.dataFile || defaultFile), 'utf-8');
+  return JSON.parse(raw);
+}
+
+/**
+ * Load games in the mock-file shape (data/mockGames.json), tagging them with
+ * the provider's league and filling in missing logos from the lookup table.
+ */
+export async function loadGames(
+  options: FeedProviderOptions,
+  defaultFile: string,
+  league: SportType,
+  logoLookup: (abbr: string) => string
+): Promise<Game[]> {
+  const games: Game[] = await loadProviderJson(options, defaultFile);
+  return games.map((g) => ({
+    ...g,
+    league,
+    home: { ...g.home, logoUrl: g.home.logoUrl || logoLookup(g.home.abbr) },
+    away: { ...g.away, logoUrl: g.away.logoUrl || logoLookup(g.away.abbr) },
+  }));
+}
+
+function findDataFile(file: string): string {
+  if (path.isAbsolute(file)) return file;
+  const candidates = [
+    path.resolve(process.cwd(), file),
+    path.join(__dirname, '..', '..', file),
+  ];
+  for (const p of candidates) { if (fs.existsSync(p)) return p; }
+  return candidates[0];
+}
@@ -0,0 +1,43 @@
+import { FeedProviderOptions, SportType, StandingsGroup, StandingsProvider, StandingsRow } from '../types';
+import { loadProviderJson } from './source';
+
+/**
+ * Standings in the mock-file shape (data/mockStandings.json: conference and
+ * division tables keyed by league). Missing ids, logos and games-back are
+ * filled in, so a source only has to supply W-L and streaks in order.
+ */
+export class JsonStandingsProvider implements StandingsProvider {
+  private sport: SportType;
+  private logoLookup: (abbr: string) => string;
+  private options: FeedProviderOptions;
+
+  constructor(sport: SportType, logoLookup: (abbr: string) => string, options: FeedProviderOptions = {}) {
+    this.sport = sport;
+    this.logoLookup = logoLookup;
+    this.options = options;
+  }
+
+  getSport(): SportType { return this.sport; }
+
+  async fetchStandings(): Promise<StandingsGroup[]> {
+    const raw = await loadProviderJson(this.options, 'data/mockStandings.json');
+    const groups: StandingsGroup[] = raw[this.sport] || [];
+    return groups.map((g) => ({
+      ...g,
+      id: g.id || `${this.sport}-${g.division || g.conference}`.toLowerCase().replace(/[^a-z0-9]+/g, '-'),
+      league: this.sport,
+      rows: withGamesBack(
+        g.rows.map((r) => ({ ...r, team: { ...r.team, logoUrl: r.team.logoUrl || this.logoLookup(r.team.abbr) } }))
+      ),
+    }));
+  }
+}
+
+/** Games behind the group leader (first row) where the source leaves it out. */
+export function withGamesBack(rows: StandingsRow[]): StandingsRow[] {
+  const lead = rows[0];
+  return rows.map((r) => ({
+    ...r,
+    gamesBack: r.gamesBack ?? (lead ? (lead.wins - r.wins + (r.losses - lead.losses)) / 2 : 0),
+  }));
+}
@@ -0,0 +1,139 @@
+import { createCanvas, loadImage } from '@napi-rs/canvas';
+import { DisplayProfile } from '../types';
+import { ApngEncoder } from './apngEncoder';
+import { GifEncoder, GifPalette, quantize } from './gifEncoder';
+import { STAGE_H } from './renderWide';
+
+// ═══════════════════════════════════════════════════════════════════════
+//  Animated outputs — one looping file for players that can't rotate URLs
+//
+//  Rotation: every game image held for `dwellMs`, crossfading into the
+//  next over `crossfadeMs`. Marquee: a screen-wide window scrolling over
+//  the wide strip, which wraps around so the loop is seamless.
+// ═══════════════════════════════════════════════════════════════════════
+
+export type AnimationFormat = 'gif' | 'apng';
+
+export interface RotationOptions {
+  dwellMs: number;
+  crossfadeMs: number;
+  fps: number;
+}
+
+export interface MarqueeOptions {
+  /** px/s on the 270px stage, like wide.html. */
+  speed: number;
+  fps: number;
+  maxFrames: number;
+  /** Frame budget in pixels (frames × width × height); long marquees drop fps to fit. */
+  maxPixels: number;
+}
+
+interface FrameEncoder {
+  addFrame(rgba: Uint8Array | Uint8ClampedArray, delayMs: number): void;
+  finish(): Buffer;
+}
+
+function createEncoder(format: AnimationFormat, width: number, height: number, palette?: GifPalette): FrameEncoder {
+  return format === 'gif' ? new GifEncoder(width, height, palette) : new ApngEncoder(width, height);
+}
+
+// Encoding is synchronous; give other requests a turn between frames
+function yieldToLoop(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+/** Rotate through rendered game PNGs (all at the profile size). */
+export async function renderRotation(
+  images: Buffer[],
+  profile: DisplayProfile,
+  format: AnimationFormat,
+  options: RotationOptions
+): Promise<Buffer> {
+  const { width: W, height: H } = profile;
+  const canvas = createCanvas(W, H);
+  const ctx = canvas.getContext('2d');
+  const encoder = createEncoder(format, W, H);
+
+  const decoded = await Promise.all(images.map((img) => loadImage(img)));
+  const fadeFrames = decoded.length > 1 ? Math.round((options.crossfadeMs / 1000) * options.fps) : 0;
+  const fadeDelay = fadeFrames > 0 ? options.crossfadeMs / fadeFrames : 0;
+
+  for (let i = 0; i < decoded.length; i++) {
+    const current = decoded[i];
+    const next = decoded[(i + 1) % decoded.length];
+
+    ctx.globalAlpha = 1;
+    ctx.drawImage(current, 0, 0, W, H);
+    encoder.addFrame(ctx.getImageData(0, 0, W, H).data, options.dwellMs);
+
+    for (let f = 1; f <= fadeFrames; f++) {
+      ctx.globalAlpha = 1;
+      ctx.drawImage(current, 0, 0, W, H);
+      ctx.globalAlpha = f / (fadeFrames + 1);
+      ctx.drawImage(next, 0, 0, W, H);
+      encoder.addFrame(ctx.getImageData(0, 0, W, H).data, fadeDelay);
+    }
+    await yieldToLoop();
+  }
+  return encoder.finish();
+}
+
+/** Scroll a profile-width window across the wide strip PNG, wrapping at the end. */
+export async function renderMarquee(
+  strip: Buffer,
+  profile: DisplayProfile,
+  format: AnimationFormat,
+  options: MarqueeOptions
+): Promise<Buffer> {
+  const image = await loadImage(strip);
+  const stripW = image.width;
+  const H = image.height;
+  const W = profile.width;
+
+  const canvas = createCanvas(stripW, H);
+  const ctx = canvas.getContext('2d');
+  ctx.drawImage(image, 0, 0);
+  const pixels = ctx.getImageData(0, 0, stripW, H).data;
+
+  // Frames are windows onto the strip, so one palette covers all of them
+  const palette = format === 'gif' ? quantize(pixels) : undefined;
+  const encoder = createEncoder(format, W, H, palette);
+
+  // Keep the speed and drop frames when the loop outgrows the budget
+  const pxPerSecond = (options.speed * H) / STAGE_H;
+  const loopMs = (stripW / pxPerSecond) * 1000;
+  const budget = Math.max(1, Math.min(options.maxFrames, Math.floor(options.maxPixels / (W * H))));
+  const count = Math.min(budget, Math.max(1, Math.round((loopMs / 1000) * options.fps)));
+  const step = stripW / count;
+  const delay = loopMs / count;
+  const frame = new Uint8Array(W * H * 4);
+
+  for (let i = 0; i < count; i++) {
+    cropWrapped(pixels, stripW, H, Math.round(i * step) % stripW, W, frame);
+    encoder.addFrame(frame, delay);
+    if (i % 10 === 9) await yieldToLoop();
+  }
+  return encoder.finish();
+}
+
+function cropWrapped(
+  src: Uint8Array | Uint8ClampedArray,
+  srcW: number,
+  height: number,
+  x0: number,
+  width: number,
+  out: Uint8Array
+): void {
+  for (let y = 0; y < height; y++) {
+    let x = x0;
+    let o = 0;
+    while (o < width) {
+      const n = Math.min(width - o, srcW - x);
+      const from = (y * srcW + x) * 4;
+      out.set(src.subarray(from, from + n * 4), (y * width + o) * 4);
+      o += n;
+      x = 0;
+    }
+  }
+}
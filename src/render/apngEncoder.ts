@@ -0,0 +1,108 @@
+import * as zlib from 'zlib';
+
+// ═══════════════════════════════════════════════════════════════════════
+//  Minimal APNG encoder
+//
+//  Full-size RGBA frames, truecolor + alpha, no frame regions or blending:
+//  every frame replaces the previous one. The first frame doubles as the
+//  still image for viewers without APNG support. Loops forever.
+// ═══════════════════════════════════════════════════════════════════════
+
+const SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+export class ApngEncoder {
+  private frames: Buffer[] = [];
+  private frameCount = 0;
+  private sequence = 0;
+  private width: number;
+  private height: number;
+
+  constructor(width: number, height: number) {
+    this.width = width;
+    this.height = height;
+  }
+
+  addFrame(rgba: Uint8Array | Uint8ClampedArray, delayMs: number): void {
+    const fctl = Buffer.alloc(26);
+    fctl.writeUInt32BE(this.sequence++, 0);
+    fctl.writeUInt32BE(this.width, 4);
+    fctl.writeUInt32BE(this.height, 8);
+    // x/y offsets 0; delay as a fraction of a second in ms
+    fctl.writeUInt16BE(Math.min(65535, Math.max(1, Math.round(delayMs))), 20);
+    fctl.writeUInt16BE(1000, 22);
+    fctl[24] = 0; // dispose: none
+    fctl[25] = 0; // blend: source
+    this.frames.push(chunk('fcTL', fctl));
+
+    const data = zlib.deflateSync(filterRows(rgba, this.width, this.height));
+    if (this.frameCount === 0) {
+      this.frames.push(chunk('IDAT', data));
+    } else {
+      const seq = Buffer.alloc(4);
+      seq.writeUInt32BE(this.sequence++, 0);
+      this.frames.push(chunk('fdAT', Buffer.concat([seq, data])));
+    }
+    this.frameCount++;
+  }
+
+  finish(): Buffer {
+    const ihdr = Buffer.alloc(13);
+    ihdr.writeUInt32BE(this.width, 0);
+    ihdr.writeUInt32BE(this.height, 4);
+    ihdr[8] = 8; // bit depth
+    ihdr[9] = 6; // RGBA
+
+    const actl = Buffer.alloc(8);
+    actl.writeUInt32BE(this.frameCount, 0);
+    actl.writeUInt32BE(0, 4); // plays: forever
+
+    return Buffer.concat([
+      SIGNATURE,
+      chunk('IHDR', ihdr),
+      chunk('acTL', actl),
+      ...this.frames,
+      chunk('IEND', Buffer.alloc(0)),
+    ]);
+  }
+}
+
+/** Prefix each scanline with the Sub filter — cheap and compresses UI art well. */
+function filterRows(rgba: Uint8Array | Uint8ClampedArray, width: number, height: number): Buffer {
+  const stride = width * 4;
+  const out = Buffer.alloc((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    const src = y * stride;
+    const dst = y * (stride + 1);
+    out[dst] = 1;
+    for (let i = 0; i < stride; i++) {
+      const left = i >= 4 ? rgba[src + i - 4] : 0;
+      out[dst + 1 + i] = (rgba[src + i] - left) & 0xff;
+    }
+  }
+  return out;
+}
+
+function chunk(type: string, data: Buffer): Buffer {
+  const out = Buffer.alloc(data.length + 12);
+  out.writeUInt32BE(data.length, 0);
+  out.write(type, 4, 'ascii');
+  data.copy(out, 8);
+  out.writeUInt32BE(crc32(out.subarray(4, 8 + data.length)), 8 + data.length);
+  return out;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(buf: Buffer): number {
+  let c = 0xffffffff;
+  for (let i = 0; i < buf.length; i++) c = CRC_TABLE[(c ^ buf[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
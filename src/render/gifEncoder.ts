@@ -0,0 +1,288 @@
+// ═══════════════════════════════════════════════════════════════════════
+//  Minimal animated GIF encoder
+//
+//  Frames are full-size RGBA buffers (as returned by canvas getImageData).
+//  Each frame is quantized to 256 colors with a median cut over a 15-bit
+//  color histogram, unless a shared palette is passed in — the marquee
+//  uses one palette for the whole strip so scrolling doesn't flicker.
+//  Loops forever (NETSCAPE2.0 extension).
+// ═══════════════════════════════════════════════════════════════════════
+
+export interface GifPalette {
+  /** 256 RGB triples. */
+  colors: Uint8Array;
+  /** 15-bit color (r5 g5 b5) → palette index. */
+  lookup: Uint8Array;
+}
+
+export class GifEncoder {
+  private chunks: Buffer[] = [];
+  private width: number;
+  private height: number;
+  private palette?: GifPalette;
+
+  /** With a `palette`, every frame uses it as the global color table. */
+  constructor(width: number, height: number, palette?: GifPalette) {
+    this.width = width;
+    this.height = height;
+    this.palette = palette;
+
+    const screen = Buffer.alloc(13);
+    screen.write('GIF89a', 0, 'ascii');
+    screen.writeUInt16LE(width, 6);
+    screen.writeUInt16LE(height, 8);
+    screen[10] = palette ? 0xf7 : 0x00; // global table of 256 entries, or none
+    this.chunks.push(screen);
+    if (palette) this.chunks.push(Buffer.from(palette.colors));
+
+    // NETSCAPE2.0 application extension: loop count 0 = forever
+    this.chunks.push(Buffer.from([
+      0x21, 0xff, 0x0b, ...Buffer.from('NETSCAPE2.0', 'ascii'), 0x03, 0x01, 0x00, 0x00, 0x00,
+    ]));
+  }
+
+  addFrame(rgba: Uint8Array | Uint8ClampedArray, delayMs: number): void {
+    const palette = this.palette || quantize(rgba);
+    const indices = mapPixels(rgba, palette);
+
+    // Graphic control extension — delay is in hundredths of a second
+    const gce = Buffer.from([0x21, 0xf9, 0x04, 0x04, 0, 0, 0x00, 0x00]);
+    gce.writeUInt16LE(Math.max(2, Math.round(delayMs / 10)), 4);
+    this.chunks.push(gce);
+
+    const descriptor = Buffer.alloc(10);
+    descriptor[0] = 0x2c;
+    descriptor.writeUInt16LE(this.width, 5);
+    descriptor.writeUInt16LE(this.height, 7);
+    descriptor[9] = this.palette ? 0x00 : 0x87; // local table of 256 entries
+    this.chunks.push(descriptor);
+    if (!this.palette) this.chunks.push(Buffer.from(palette.colors));
+
+    this.chunks.push(Buffer.from([8]), lzwEncode(indices, 8));
+  }
+
+  finish(): Buffer {
+    return Buffer.concat([...this.chunks, Buffer.from([0x3b])]);
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────
+//  Median cut quantizer
+// ─────────────────────────────────────────────────────────────────────
+type Box = number[]; // 15-bit color keys
+
+function keyOf(r: number, g: number, b: number): number {
+  return ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+}
+
+/**
+ * Build a 256-color palette for an RGBA image. The lookup only covers
+ * colors present in the image, so a shared palette must be built from
+ * pixels that contain every frame (the marquee quantizes the whole strip).
+ */
+export function quantize(rgba: Uint8Array | Uint8ClampedArray): GifPalette {
+  const counts = new Uint32Array(32768);
+  const sums = new Float64Array(32768 * 3);
+  for (let i = 0; i < rgba.length; i += 4) {
+    const k = keyOf(rgba[i], rgba[i + 1], rgba[i + 2]);
+    counts[k]++;
+    sums[k * 3] += rgba[i];
+    sums[k * 3 + 1] += rgba[i + 1];
+    sums[k * 3 + 2] += rgba[i + 2];
+  }
+
+  const used: number[] = [];
+  for (let k = 0; k < 32768; k++) if (counts[k] > 0) used.push(k);
+
+  // Split the box with the widest channel range, weighted by population
+  const score = (box: Box): number =>
+    box.length < 2 ? 0 : boxRange(box).range * Math.log2(1 + boxPopulation(box, counts));
+  const boxes: Box[] = [used];
+  const scores = [score(used)];
+  while (boxes.length < 256) {
+    let best = -1;
+    let bestScore = 0;
+    for (let i = 0; i < boxes.length; i++) {
+      if (scores[i] > bestScore) { best = i; bestScore = scores[i]; }
+    }
+    if (best < 0) break;
+    const [a, b] = splitBox(boxes[best], counts);
+    boxes.splice(best, 1, a, b);
+    scores.splice(best, 1, score(a), score(b));
+  }
+
+  // Start from the box averages, then refine with a few k-means passes so
+  // small but distinct colors (live dots, logos) aren't averaged away
+  const centers = new Float64Array(boxes.length * 3);
+  boxes.forEach((box, index) => {
+    let n = 0;
+    for (const k of box) {
+      n += counts[k];
+      for (let c = 0; c < 3; c++) centers[index * 3 + c] += sums[k * 3 + c];
+    }
+    for (let c = 0; c < 3; c++) centers[index * 3 + c] /= n;
+  });
+
+  const lookup = new Uint8Array(32768);
+  for (let pass = 0; pass <= KMEANS_PASSES; pass++) {
+    const next = new Float64Array(boxes.length * 3);
+    const population = new Float64Array(boxes.length);
+    for (const k of used) {
+      const n = counts[k];
+      const r = sums[k * 3] / n, g = sums[k * 3 + 1] / n, b = sums[k * 3 + 2] / n;
+      let best = 0, bestDist = Infinity;
+      for (let i = 0; i < boxes.length; i++) {
+        const dr = centers[i * 3] - r, dg = centers[i * 3 + 1] - g, db = centers[i * 3 + 2] - b;
+        const dist = dr * dr + dg * dg + db * db;
+        if (dist < bestDist) { best = i; bestDist = dist; }
+      }
+      lookup[k] = best;
+      population[best] += n;
+      next[best * 3] += sums[k * 3];
+      next[best * 3 + 1] += sums[k * 3 + 1];
+      next[best * 3 + 2] += sums[k * 3 + 2];
+    }
+    if (pass === KMEANS_PASSES) break;
+    for (let i = 0; i < boxes.length; i++) {
+      if (population[i] === 0) continue;
+      for (let c = 0; c < 3; c++) centers[i * 3 + c] = next[i * 3 + c] / population[i];
+    }
+  }
+
+  const colors = new Uint8Array(256 * 3);
+  for (let i = 0; i < centers.length; i++) colors[i] = Math.round(centers[i]);
+  return { colors, lookup };
+}
+
+const CHANNEL_SHIFT = [10, 5, 0];
+const KMEANS_PASSES = 3;
+
+function boxRange(box: Box): { range: number; channel: number } {
+  let range = -1, channel = 0;
+  for (let c = 0; c < 3; c++) {
+    let min = 31, max = 0;
+    for (const k of box) {
+      const v = (k >> CHANNEL_SHIFT[c]) & 31;
+      if (v < min) min = v;
+      if (v > max) max = v;
+    }
+    if (max - min > range) { range = max - min; channel = c; }
+  }
+  return { range, channel };
+}
+
+function boxPopulation(box: Box, counts: Uint32Array): number {
+  let n = 0;
+  for (const k of box) n += counts[k];
+  return n;
+}
+
+/** Split at the weighted median of the widest channel. */
+function splitBox(box: Box, counts: Uint32Array): [Box, Box] {
+  const shift = CHANNEL_SHIFT[boxRange(box).channel];
+  const sorted = [...box].sort((a, b) => ((a >> shift) & 31) - ((b >> shift) & 31));
+  const half = boxPopulation(sorted, counts) / 2;
+  let acc = 0;
+  let cut = 1;
+  for (let i = 0; i < sorted.length - 1; i++) {
+    acc += counts[sorted[i]];
+    if (acc >= half) { cut = i + 1; break; }
+  }
+  return [sorted.slice(0, cut), sorted.slice(cut)];
+}
+
+function mapPixels(rgba: Uint8Array | Uint8ClampedArray, palette: GifPalette): Uint8Array {
+  const out = new Uint8Array(rgba.length / 4);
+  for (let i = 0, p = 0; i < rgba.length; i += 4, p++) {
+    out[p] = palette.lookup[keyOf(rgba[i], rgba[i + 1], rgba[i + 2])];
+  }
+  return out;
+}
+
+// ─────────────────────────────────────────────────────────────────────
+//  LZW with variable code size (classic open-addressing hash, 5003 slots)
+// ─────────────────────────────────────────────────────────────────────
+const HSIZE = 5003;
+const MAX_CODE = 4096;
+
+function lzwEncode(pixels: Uint8Array, minCodeSize: number): Buffer {
+  const htab = new Int32Array(HSIZE).fill(-1);
+  const codetab = new Int32Array(HSIZE);
+  const clearCode = 1 << minCodeSize;
+  const eoiCode = clearCode + 1;
+
+  const bytes: number[] = [];
+  let accum = 0;
+  let accumBits = 0;
+  let nBits = minCodeSize + 1;
+  let maxCode = (1 << nBits) - 1;
+  let freeEnt = clearCode + 2;
+  let clearFlag = false;
+
+  const output = (code: number): void => {
+    accum |= code << accumBits;
+    accumBits += nBits;
+    while (accumBits >= 8) {
+      bytes.push(accum & 0xff);
+      accum >>>= 8;
+      accumBits -= 8;
+    }
+    // Grow the code size once the decoder's next code needs another bit
+    if (freeEnt > maxCode || clearFlag) {
+      if (clearFlag) {
+        nBits = minCodeSize + 1;
+        maxCode = (1 << nBits) - 1;
+        clearFlag = false;
+      } else {
+        nBits++;
+        maxCode = nBits === 12 ? MAX_CODE : (1 << nBits) - 1;
+      }
+    }
+  };
+
+  output(clearCode);
+  let ent = pixels[0];
+  for (let i = 1; i < pixels.length; i++) {
+    const c = pixels[i];
+    const fcode = (c << 12) + ent;
+    let h = (c << 4) ^ ent;
+
+    if (htab[h] === fcode) { ent = codetab[h]; continue; }
+    if (htab[h] >= 0) {
+      const disp = h === 0 ? 1 : HSIZE - h;
+      let found = false;
+      do {
+        h -= disp;
+        if (h < 0) h += HSIZE;
+        if (htab[h] === fcode) { ent = codetab[h]; found = true; break; }
+      } while (htab[h] >= 0);
+      if (found) continue;
+    }
+
+    output(ent);
+    ent = c;
+    if (freeEnt < MAX_CODE) {
+      codetab[h] = freeEnt++;
+      htab[h] = fcode;
+    } else {
+      htab.fill(-1);
+      freeEnt = clearCode + 2;
+      clearFlag = true;
+      output(clearCode);
+    }
+  }
+  output(ent);
+  output(eoiCode);
+  if (accumBits > 0) bytes.push(accum & 0xff);
+
+  // Image data goes out in sub-blocks of at most 255 bytes
+  const blocks = Buffer.alloc(bytes.length + Math.ceil(bytes.length / 255) + 1);
+  let o = 0;
+  for (let i = 0; i < bytes.length; i += 255) {
+    const n = Math.min(255, bytes.length - i);
+    blocks[o++] = n;
+    for (let j = 0; j < n; j++) blocks[o++] = bytes[i + j];
+  }
+  blocks[o] = 0;
+  return blocks;
+}
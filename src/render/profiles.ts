@@ -0,0 +1,47 @@
+import { config } from '../config';
+import { DisplayProfile } from '../types';
+import { createLogger } from '../utils/logger';
+
+// ═══════════════════════════════════════════════════════════════════════
+//  Display profile lookup
+//
+//  Profiles are defined in config.profiles. Every output that has a size
+//  (/api/image, /ticker.png, /rss.xml, ticker.html, wide.html, /preview)
+//  resolves one per request from `?profile=`, falling back to the default.
+// ═══════════════════════════════════════════════════════════════════════
+
+const log = createLogger('Profiles');
+
+export function listProfiles(): DisplayProfile[] {
+  return Object.entries(config.profiles).map(([name, p]) => ({ name, ...p }));
+}
+
+export function defaultProfile(): DisplayProfile {
+  const profile = findProfile(config.display.profile);
+  if (profile) return profile;
+  log.warn('Unknown DISPLAY_PROFILE, using panel', { profile: config.display.profile });
+  return findProfile('panel')!;
+}
+
+/** Look up by name ("strip") or by size ("960x240"); null when unknown. */
+export function findProfile(nameOrSize: string): DisplayProfile | null {
+  const key = nameOrSize.trim().toLowerCase();
+  // Own keys only: "constructor" and "__proto__" are not profiles
+  if (Object.hasOwn(config.profiles, key)) return { name: key, ...config.profiles[key] };
+  return listProfiles().find((p) => `${p.width}x${p.height}` === key) || null;
+}
+
+/** Profile for a `?profile=` value; undefined/empty means the default. */
+export function resolveProfile(param: unknown): DisplayProfile | null {
+  if (param === undefined || param === '') return defaultProfile();
+  return findProfile(String(param));
+}
+
+export function isDefaultProfile(profile: DisplayProfile): boolean {
+  return profile.name === defaultProfile().name;
+}
+
+/** `&profile=<name>` for URLs, empty for the default so URLs stay stable. */
+export function profileQuery(profile: DisplayProfile, prefix: '?' | '&' = '&'): string {
+  return isDefaultProfile(profile) ? '' : `${prefix}profile=${encodeURIComponent(profile.name)}`;
+}
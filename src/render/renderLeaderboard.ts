@@ -0,0 +1,141 @@
+import { createCanvas } from '@napi-rs/canvas';
+import { config } from '../config';
+import { DisplayProfile, PgaFeedItem, Theme } from '../types';
+import { defaultProfile } from './profiles';
+import { drawStatusBar, fit, registerThemeFonts, unit } from './renderTicker';
+import { defaultTheme, fontWeight } from './themes';
+
+// ═══════════════════════════════════════════════════════════════════════
+//  Golf leaderboard renderer — PGA items as a ticker-sized image
+//
+//  Layout (panel profile, 384 x 192 at 1x; other profiles scale from it):
+//  ┌──────────────────────────────────────────┐
+//  │  THE PLAYERS                              │  Header (green)
+//  │  TPC Sawgrass • Round 3                   │
+//  ├──────────────────────────────────────────┤
+//  │  1  S. Scheffler          -14   66    F  │  Top-N players:
+//  │  2  R. McIlroy            -12   68    F  │  pos, name, total,
+//  │  …                                        │  today, thru
+//  ├──────────────────────────────────────────┤
+//  │  PGA     Round 3 • In Progress   ● LIVE  │  Status bar (as games)
+//  └──────────────────────────────────────────┘
+// ═══════════════════════════════════════════════════════════════════════
+
+// Same greens as the PGA tiles in wide.html
+const HEADER_COLORS: [string, string] = ['#006747', '#1a5c35'];
+const UNDER_PAR = '#4caf50';
+
+export async function renderLeaderboardImage(
+  item: PgaFeedItem,
+  profile: DisplayProfile = defaultProfile(),
+  theme: Theme = defaultTheme()
+): Promise<Buffer> {
+  const { width: W, height: H, scaleFactor } = profile;
+  registerThemeFonts(theme);
+
+  const canvas = createCanvas(W * scaleFactor, H * scaleFactor);
+  const ctx = canvas.getContext('2d');
+  ctx.scale(scaleFactor, scaleFactor);
+
+  const fonts = profile.fonts;
+  const family = theme.fonts.family;
+  const u = unit(profile);
+
+  // ── Layout geometry (status bar lines up with the game images) ─────
+  const rowH    = profile.ticker.teamRowHeight;
+  const headerH = Math.round(rowH * 0.55);      // 44
+  const statusY = rowH * 2 + 1;                 // 161
+  const statusH = H - statusY;                  // 31
+  const boardH  = statusY - headerH;
+
+  ctx.fillStyle = theme.colors.background;
+  ctx.fillRect(0, 0, W, H);
+
+  // ── Header: tournament, course and round ───────────────────────────
+  const grad = ctx.createLinearGradient(0, 0, W, headerH);
+  grad.addColorStop(0, HEADER_COLORS[0]);
+  grad.addColorStop(1, HEADER_COLORS[1]);
+  ctx.fillStyle = grad;
+  ctx.fillRect(0, 0, W, headerH);
+
+  const pad = 10 * u;
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = theme.colors.teamText;
+  ctx.font = `${fontWeight(theme, 'teamAbbr', '900')} ${Math.round(fonts.status.size * 1.2)}px ${family}`;
+  ctx.fillText(fit(ctx, item.tournament.toUpperCase(), W - pad * 2), pad, headerH * 0.36);
+  ctx.fillStyle = theme.colors.recordText;
+  ctx.font = `${fontWeight(theme, 'record', fonts.record.weight)} ${fonts.record.size}px ${family}`;
+  ctx.fillText(fit(ctx, `${item.course} • ${item.round}`, W - pad * 2), pad, headerH * 0.74);
+
+  // ── Board: as many of the top players as fit ───────────────────────
+  const minLineH = fonts.status.size * 1.5;
+  const rows = Math.min(
+    config.leaderboard.players,
+    item.players.length,
+    Math.max(1, Math.floor(boardH / minLineH))
+  );
+  const lineH = Math.min(boardH / rows, fonts.status.size * 2.2);
+  const right = W - pad;
+  const thruX = right;
+  const todayX = right - 34 * u;
+  const totalX = right - 76 * u;
+  const nameX = pad + 26 * u;
+
+  item.players.slice(0, rows).forEach((p, i) => {
+    const ry = headerH + i * lineH;
+    const cy = ry + lineH / 2;
+
+    if (i > 0) {
+      ctx.fillStyle = theme.colors.divider;
+      ctx.fillRect(pad, ry, W - pad * 2, 1);
+    }
+
+    ctx.textBaseline = 'middle';
+    ctx.font = `${fontWeight(theme, 'league', fonts.league.weight)} ${fonts.status.size}px ${family}`;
+    ctx.textAlign = 'center';
+    ctx.fillStyle = theme.colors.dimText;
+    ctx.fillText(String(p.rank), pad + 8 * u, cy);
+
+    ctx.textAlign = 'right';
+    ctx.font = `${fontWeight(theme, 'record', fonts.record.weight)} ${fonts.record.size}px ${family}`;
+    ctx.fillStyle = theme.colors.final;
+    ctx.fillText(p.thru, thruX, cy);
+    ctx.fillStyle = theme.colors.dimText;
+    ctx.fillText(p.today, todayX, cy);
+
+    ctx.font = `${fontWeight(theme, 'score', '800')} ${fonts.status.size}px ${family}`;
+    ctx.fillStyle = p.score.startsWith('-') ? UNDER_PAR : theme.colors.text;
+    ctx.fillText(p.score, totalX, cy);
+    const totalW = ctx.measureText(p.score).width;
+
+    ctx.textAlign = 'left';
+    ctx.font = `${fontWeight(theme, 'teamAbbr', '600')} ${fonts.status.size}px ${family}`;
+    ctx.fillStyle = theme.colors.text;
+    ctx.fillText(fit(ctx, p.name, totalX - totalW - 8 * u - nameX), nameX, cy);
+  });
+
+  // ── Status bar ─────────────────────────────────────────────────────
+  const status = {
+    league: item.sport,
+    text: item.statusText,
+    state: item.state === 'live' ? 'in_progress' as const : 'final' as const,
+  };
+  drawStatusBar(ctx, status, statusY, statusH, W, profile, theme);
+
+  // ── Outer border ───────────────────────────────────────────────────
+  const bw = theme.border.width;
+  if (bw > 0) {
+    ctx.strokeStyle = theme.border.color;
+    ctx.lineWidth = bw;
+    ctx.strokeRect(bw / 2, bw / 2, W - bw, H - bw);
+  }
+
+  // ── Downscale for LED sharpness ────────────────────────────────────
+  if (scaleFactor > 1) {
+    const output = createCanvas(W, H);
+    output.getContext('2d').drawImage(canvas, 0, 0, W, H);
+    return output.toBuffer('image/png');
+  }
+  return canvas.toBuffer('image/png');
+}
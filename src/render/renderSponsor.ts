@@ -0,0 +1,139 @@
+import { createCanvas, loadImage } from '@napi-rs/canvas';
+import * as fs from 'fs';
+import { DisplayProfile, Sponsor, Theme } from '../types';
+import { defaultProfile } from './profiles';
+import { fit, registerThemeFonts, unit } from './renderTicker';
+import { defaultTheme, fontWeight } from './themes';
+import { createLogger } from '../utils/logger';
+
+// ═══════════════════════════════════════════════════════════════════════
+//  Sponsor frame renderer
+//
+//  A creative image (per-profile if the sponsor has one) is fitted inside
+//  the frame without cropping. Without a creative — or if it fails to
+//  load — a "Presented by" frame is generated:
+//  ┌──────────────────────────────────────────┐
+//  │  [LOGO]   PRESENTED BY                   │
+//  │           Acme Sports Drinks             │
+//  │           Fuel the fourth quarter        │
+//  └──────────────────────────────────────────┘
+// ═══════════════════════════════════════════════════════════════════════
+
+const log = createLogger('Sponsors');
+
+export async function renderSponsorImage(
+  sponsor: Sponsor,
+  profile: DisplayProfile = defaultProfile(),
+  theme: Theme = defaultTheme()
+): Promise<Buffer> {
+  const creative = sponsor.images?.[profile.name] || sponsor.image;
+  if (creative) {
+    try {
+      return await renderCreative(creative, sponsor, profile, theme);
+    } catch (err) {
+      log.warn('Creative failed, using a generated frame', { sponsor: sponsor.id, creative, err });
+    }
+  }
+  return renderPresentedBy(sponsor, profile, theme);
+}
+
+async function renderCreative(
+  file: string,
+  sponsor: Sponsor,
+  profile: DisplayProfile,
+  theme: Theme
+): Promise<Buffer> {
+  const { width: W, height: H } = profile;
+  const image = await loadImage(await fs.promises.readFile(file));
+  const canvas = createCanvas(W, H);
+  const ctx = canvas.getContext('2d');
+
+  ctx.fillStyle = sponsor.color || theme.colors.background;
+  ctx.fillRect(0, 0, W, H);
+  const scale = Math.min(W / image.width, H / image.height);
+  const w = image.width * scale;
+  const h = image.height * scale;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(image, (W - w) / 2, (H - h) / 2, w, h);
+  return canvas.toBuffer('image/png');
+}
+
+async function renderPresentedBy(sponsor: Sponsor, profile: DisplayProfile, theme: Theme): Promise<Buffer> {
+  const { width: W, height: H, scaleFactor } = profile;
+  registerThemeFonts(theme);
+
+  const canvas = createCanvas(W * scaleFactor, H * scaleFactor);
+  const ctx = canvas.getContext('2d');
+  ctx.scale(scaleFactor, scaleFactor);
+
+  const fonts = profile.fonts;
+  const family = theme.fonts.family;
+  const u = unit(profile);
+  const textColor = sponsor.textColor || theme.colors.text;
+
+  // ── Background ─────────────────────────────────────────────────────
+  ctx.fillStyle = sponsor.color || theme.colors.statusBarBg;
+  ctx.fillRect(0, 0, W, H);
+  const grad = ctx.createLinearGradient(0, 0, 0, H);
+  grad.addColorStop(0, 'rgba(255,255,255,0.08)');
+  grad.addColorStop(1, 'rgba(0,0,0,0.25)');
+  ctx.fillStyle = grad;
+  ctx.fillRect(0, 0, W, H);
+
+  // ── Logo (left), text block beside it or centered ──────────────────
+  const pad = 16 * u;
+  let textX = W / 2;
+  let align: 'left' | 'center' = 'center';
+  if (sponsor.logo) {
+    try {
+      const logo = await loadImage(await fs.promises.readFile(sponsor.logo));
+      const box = Math.min(H * 0.62, W * 0.3);
+      const scale = Math.min(box / logo.width, box / logo.height);
+      const w = logo.width * scale;
+      const h = logo.height * scale;
+      ctx.drawImage(logo, pad + (box - w) / 2, (H - h) / 2, w, h);
+      textX = pad * 2 + box;
+      align = 'left';
+    } catch (err) {
+      log.warn('Logo failed to load', { sponsor: sponsor.id, logo: sponsor.logo, err });
+    }
+  }
+  const maxTextW = align === 'left' ? W - textX - pad : W - pad * 2;
+
+  const nameSize = Math.round(fonts.teamAbbr.size * 1.1);
+  const lines = [
+    { text: 'PRESENTED BY', size: fonts.league.size, weight: fontWeight(theme, 'league', '700'), color: theme.colors.dimText },
+    { text: sponsor.name, size: nameSize, weight: fontWeight(theme, 'teamAbbr', '900'), color: textColor },
+    ...(sponsor.tagline
+      ? [{ text: sponsor.tagline, size: fonts.status.size, weight: fontWeight(theme, 'record', 'normal'), color: textColor }]
+      : []),
+  ];
+  const gap = 6 * u;
+  const blockH = lines.reduce((sum, l) => sum + l.size, 0) + gap * (lines.length - 1);
+
+  ctx.textAlign = align;
+  ctx.textBaseline = 'top';
+  let y = (H - blockH) / 2;
+  for (const line of lines) {
+    ctx.font = `${line.weight} ${line.size}px ${family}`;
+    ctx.fillStyle = line.color;
+    ctx.fillText(fit(ctx, line.text, maxTextW), textX, y);
+    y += line.size + gap;
+  }
+
+  // ── Outer border ───────────────────────────────────────────────────
+  const bw = theme.border.width;
+  if (bw > 0) {
+    ctx.strokeStyle = theme.border.color;
+    ctx.lineWidth = bw;
+    ctx.strokeRect(bw / 2, bw / 2, W - bw, H - bw);
+  }
+
+  // ── Downscale for LED sharpness ────────────────────────────────────
+  if (scaleFactor > 1) {
+    const output = createCanvas(W, H);
+    output.getContext('2d').drawImage(canvas, 0, 0, W, H);
+    return output.toBuffer('image/png');
+  }
+  return canvas.toBuffer('image/png');
+}
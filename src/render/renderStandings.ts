@@ -0,0 +1,162 @@
+import { createCanvas } from '@napi-rs/canvas';
+import { config } from '../config';
+import { DisplayProfile, StandingsGroup, StandingsRow, Theme } from '../types';
+import { defaultProfile } from './profiles';
+import { drawStatusBar, fit, registerThemeFonts, unit } from './renderTicker';
+import { CHIP_COLORS } from './renderWide';
+import { defaultTheme, fontWeight } from './themes';
+
+// ═══════════════════════════════════════════════════════════════════════
+//  Standings renderer — a conference or division table, ticker-sized
+//
+//  Layout (panel profile, 384 x 192 at 1x; other profiles scale from it):
+//  ┌──────────────────────────────────────────┐
+//  │  ATLANTIC DIVISION                        │  Header (league colors)
+//  │  Eastern Conference       W-L   GB  STRK │  with column labels
+//  ├──────────────────────────────────────────┤
+//  │  1 ▌TOR              35-18-4     —    W3 │  Top-N teams: rank,
+//  │  2 ▌FLA              34-19-3   0.5    L1 │  color swatch, abbr,
+//  │  …                                        │  record, GB, streak
+//  ├──────────────────────────────────────────┤
+//  │  NHL           STANDINGS                  │  Status bar (as games)
+//  └──────────────────────────────────────────┘
+// ═══════════════════════════════════════════════════════════════════════
+
+const WIN_STREAK = '#4caf50';
+
+/** "35-18" or "35-18-4" with ties / overtime losses. */
+export function formatRecord(row: StandingsRow): string {
+  return row.ties !== undefined ? `${row.wins}-${row.losses}-${row.ties}` : `${row.wins}-${row.losses}`;
+}
+
+/** Games back: an em dash for the leader, halves as ".5". */
+export function formatGamesBack(gamesBack: number): string {
+  if (gamesBack <= 0) return '—';
+  return Number.isInteger(gamesBack) ? String(gamesBack) : gamesBack.toFixed(1);
+}
+
+/** Header title: the division if there is one, else the conference. */
+export function standingsTitle(group: StandingsGroup): string {
+  return group.division ? `${group.division} Division` : group.conference;
+}
+
+export async function renderStandingsImage(
+  group: StandingsGroup,
+  profile: DisplayProfile = defaultProfile(),
+  theme: Theme = defaultTheme()
+): Promise<Buffer> {
+  const { width: W, height: H, scaleFactor } = profile;
+  registerThemeFonts(theme);
+
+  const canvas = createCanvas(W * scaleFactor, H * scaleFactor);
+  const ctx = canvas.getContext('2d');
+  ctx.scale(scaleFactor, scaleFactor);
+
+  const fonts = profile.fonts;
+  const family = theme.fonts.family;
+  const u = unit(profile);
+
+  // ── Layout geometry (status bar lines up with the game images) ─────
+  const rowH    = profile.ticker.teamRowHeight;
+  const headerH = Math.round(rowH * 0.55);      // 44
+  const statusY = rowH * 2 + 1;                 // 161
+  const statusH = H - statusY;                  // 31
+  const boardH  = statusY - headerH;
+
+  ctx.fillStyle = theme.colors.background;
+  ctx.fillRect(0, 0, W, H);
+
+  // ── Columns (right-aligned, shared by the header labels and rows) ──
+  const pad = 10 * u;
+  const right = W - pad;
+  const streakX = right;
+  const gbX = right - 40 * u;
+  const recordX = right - 84 * u;
+  const swatchX = pad + 20 * u;
+  const abbrX = swatchX + 10 * u;
+
+  // ── Header: table title, conference and column labels ──────────────
+  const [from, to] = CHIP_COLORS[group.league] || ['#333333', '#555555'];
+  const grad = ctx.createLinearGradient(0, 0, W, headerH);
+  grad.addColorStop(0, from);
+  grad.addColorStop(1, to);
+  ctx.fillStyle = grad;
+  ctx.fillRect(0, 0, W, headerH);
+
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = theme.colors.teamText;
+  ctx.font = `${fontWeight(theme, 'teamAbbr', '900')} ${Math.round(fonts.status.size * 1.2)}px ${family}`;
+  ctx.fillText(fit(ctx, standingsTitle(group).toUpperCase(), W - pad * 2), pad, headerH * 0.36);
+
+  ctx.font = `${fontWeight(theme, 'record', fonts.record.weight)} ${fonts.record.size}px ${family}`;
+  ctx.fillStyle = theme.colors.recordText;
+  const subtitle = group.division ? group.conference : `${group.league} Standings`;
+  ctx.fillText(fit(ctx, subtitle, recordX - 60 * u - pad), pad, headerH * 0.74);
+  ctx.textAlign = 'right';
+  ctx.fillText(group.rows.some((r) => r.ties !== undefined) ? 'W-L-T' : 'W-L', recordX, headerH * 0.74);
+  ctx.fillText('GB', gbX, headerH * 0.74);
+  ctx.fillText('STRK', streakX, headerH * 0.74);
+
+  // ── Board: as many of the top teams as fit ─────────────────────────
+  const minLineH = fonts.status.size * 1.5;
+  const rows = Math.min(
+    config.standings.rows,
+    group.rows.length,
+    Math.max(1, Math.floor(boardH / minLineH))
+  );
+  const lineH = Math.min(boardH / Math.max(rows, 1), fonts.status.size * 2.2);
+
+  group.rows.slice(0, rows).forEach((row, i) => {
+    const ry = headerH + i * lineH;
+    const cy = ry + lineH / 2;
+
+    if (i > 0) {
+      ctx.fillStyle = theme.colors.divider;
+      ctx.fillRect(pad, ry, W - pad * 2, 1);
+    }
+
+    ctx.textBaseline = 'middle';
+    ctx.font = `${fontWeight(theme, 'league', fonts.league.weight)} ${fonts.status.size}px ${family}`;
+    ctx.textAlign = 'center';
+    ctx.fillStyle = theme.colors.dimText;
+    ctx.fillText(String(i + 1), pad + 6 * u, cy);
+
+    ctx.fillStyle = row.team.color;
+    ctx.fillRect(swatchX, cy - lineH * 0.3, 4 * u, lineH * 0.6);
+
+    ctx.textAlign = 'left';
+    ctx.font = `${fontWeight(theme, 'teamAbbr', '900')} ${fonts.status.size}px ${family}`;
+    ctx.fillStyle = theme.colors.text;
+    ctx.fillText(row.team.abbr, abbrX, cy);
+
+    ctx.textAlign = 'right';
+    ctx.font = `${fontWeight(theme, 'score', '800')} ${fonts.status.size}px ${family}`;
+    ctx.fillText(formatRecord(row), recordX, cy);
+
+    ctx.font = `${fontWeight(theme, 'record', fonts.record.weight)} ${fonts.record.size}px ${family}`;
+    ctx.fillStyle = theme.colors.dimText;
+    ctx.fillText(formatGamesBack(row.gamesBack), gbX, cy);
+    ctx.fillStyle = row.streak.startsWith('W') ? WIN_STREAK : theme.colors.final;
+    ctx.fillText(row.streak, streakX, cy);
+  });
+
+  // ── Status bar ─────────────────────────────────────────────────────
+  drawStatusBar(ctx, { league: group.league, text: 'STANDINGS', state: 'final' }, statusY, statusH, W, profile, theme);
+
+  // ── Outer border ───────────────────────────────────────────────────
+  const bw = theme.border.width;
+  if (bw > 0) {
+    ctx.strokeStyle = theme.border.color;
+    ctx.lineWidth = bw;
+    ctx.strokeRect(bw / 2, bw / 2, W - bw, H - bw);
+  }
+
+  // ── Downscale for LED sharpness ────────────────────────────────────
+  if (scaleFactor > 1) {
+    const output = createCanvas(W, H);
+    output.getContext('2d').drawImage(canvas, 0, 0, W, H);
+    return output.toBuffer('image/png');
+  }
+  return canvas.toBuffer('image/png');
+}
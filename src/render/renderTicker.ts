@@ -1,8 +1,13 @@
 import { createCanvas, loadImage, GlobalFonts } from '@napi-rs/canvas';
 import * as path from 'path';
-import { Game, Team } from '../types';
-import { config } from '../config';
+import { DisplayProfile, Game, GameStatus, Team, Theme } from '../types';
 import { LogoCache } from '../utils/logoCache';
+import { formatStatus, possessionSide } from '../utils/status';
+import { defaultProfile } from './profiles';
+import { defaultTheme, fontWeight } from './themes';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('Fonts');
 
 // ── Register bundled fonts (needed on Vercel / Linux where Arial is missing) ──
 const fontsDir = path.resolve(__dirname, '..', '..', 'fonts');
@@ -16,14 +21,28 @@ try {
     GlobalFonts.registerFromPath(path.join(altFontsDir, 'Inter-Regular.ttf'), 'Inter');
     GlobalFonts.registerFromPath(path.join(altFontsDir, 'Inter-Bold.ttf'), 'Inter');
   } catch {
-    console.warn('[Fonts] Could not register bundled Inter fonts — text may not render');
+    log.warn('Could not register bundled Inter fonts — text may not render');
+  }
+}
+
+// Theme font files register under the first name in the theme's family list
+const registeredFontFiles = new Set<string>();
+
+export function registerThemeFonts(theme: Theme): void {
+  const family = theme.fonts.family.split(',')[0].trim().replace(/^['"]|['"]$/g, '');
+  for (const file of theme.fonts.files || []) {
+    if (registeredFontFiles.has(file)) continue;
+    registeredFontFiles.add(file);
+    if (!GlobalFonts.registerFromPath(file, family)) {
+      log.warn('Could not register theme font', { file, theme: theme.name });
+    }
   }
 }
 
 // ═══════════════════════════════════════════════════════════════════════
 //  Broadcast-style scoreboard ticker renderer
 //
-//  Layout (384 x 192 at 1x):
+//  Layout (panel profile, 384 x 192 at 1x; other profiles scale from it):
 //  ┌──────────────────────────────┬───────────┐
 //  │  [LOGO 70]  TEAM   record   │   SCORE   │  Row 1: Away (80px)
 //  │  (team color background)     │  (dark)   │
@@ -35,15 +54,21 @@ try {
 //  └──────────────────────────────────────────┘
 // ═══════════════════════════════════════════════════════════════════════
 
-export async function renderTickerImage(game: Game, logoCache: LogoCache): Promise<Buffer> {
-  const { width: W, height: H, scaleFactor } = config.display;
+export async function renderTickerImage(
+  game: Game,
+  logoCache: LogoCache,
+  profile: DisplayProfile = defaultProfile(),
+  theme: Theme = defaultTheme()
+): Promise<Buffer> {
+  const { width: W, height: H, scaleFactor } = profile;
+  registerThemeFonts(theme);
 
   const canvas = createCanvas(W * scaleFactor, H * scaleFactor);
   const ctx = canvas.getContext('2d');
   ctx.scale(scaleFactor, scaleFactor); 
 
   // ── Layout geometry ────────────────────────────────────────────────
-  const t = config.ticker;
+  const t = profile.ticker;
   const rowH       = t.teamRowHeight;       // 80
   const scorePanW  = t.scorePanelWidth;     // 114
   const scorePanX  = W - scorePanW;         // 270
@@ -57,34 +82,42 @@ export async function renderTickerImage(game: Game, logoCache: LogoCache): Promi
   const statusH    = H - statusY;           // 31
 
   // ── Black base ─────────────────────────────────────────────────────
-  ctx.fillStyle = config.colors.background;
+  ctx.fillStyle = theme.colors.background;
   ctx.fillRect(0, 0, W, H);
 
   // ── Row 1: Away team ───────────────────────────────────────────────
   await drawTeamRow(
     ctx, game.away, game.score.away,
     row1Y, rowH, W, scorePanX, scorePanW,
-    logoSz, logoPad, logoCache, game.status.state, game
+    logoSz, logoPad, logoCache, game.status.state, game, profile, theme
   );
 
   // ── Horizontal divider ─────────────────────────────────────────────
-  ctx.fillStyle = '#000000';
+  ctx.fillStyle = theme.colors.background;
   ctx.fillRect(0, dividerY, W, 1);
 
   // ── Row 2: Home team ───────────────────────────────────────────────
   await drawTeamRow(
     ctx, game.home, game.score.home,
     row2Y, rowH, W, scorePanX, scorePanW,
-    logoSz, logoPad, logoCache, game.status.state, game
+    logoSz, logoPad, logoCache, game.status.state, game, profile, theme
   );
 
   // ── Status bar ─────────────────────────────────────────────────────
-  drawStatusBar(ctx, game, statusY, statusH, W);
+  const status = {
+    league: game.leagueLabel || game.league,
+    text: formatStatus(game, { separator: '  \u00B7  ' }),
+    state: game.status.state,
+  };
+  drawStatusBar(ctx, status, statusY, statusH, W, profile, theme);
 
   // ── Outer border (subtle, helps define edges on LED) ───────────────
-  ctx.strokeStyle = 'rgba(255,255,255,0.08)';
-  ctx.lineWidth = 1;
-  ctx.strokeRect(0.5, 0.5, W - 1, H - 1);
+  const bw = theme.border.width;
+  if (bw > 0) {
+    ctx.strokeStyle = theme.border.color;
+    ctx.lineWidth = bw;
+    ctx.strokeRect(bw / 2, bw / 2, W - bw, H - bw);
+  }
 
   // ── Downscale for LED sharpness ────────────────────────────────────
   if (scaleFactor > 1) {
@@ -105,8 +138,13 @@ async function drawTeamRow(
   y: number, h: number, totalW: number,
   scorePanX: number, scorePanW: number,
   logoSize: number, logoPad: number,
-  logoCache: LogoCache, gameState: string, game: Game
+  logoCache: LogoCache, gameState: string, game: Game,
+  profile: DisplayProfile, theme: Theme
 ): Promise<void> {
+  const fonts = profile.fonts;
+  const family = theme.fonts.family;
+  const u = unit(profile);
+
   // ── Team color nameplate (left portion) ────────────────────────────
   ctx.fillStyle = team.color;
   ctx.fillRect(0, y, scorePanX, h);
@@ -120,36 +158,47 @@ async function drawTeamRow(
   ctx.fillRect(0, y, scorePanX, h);
 
   // ── Score panel (dark) ─────────────────────────────────────────────
-  ctx.fillStyle = config.colors.scorePanelBg;
+  ctx.fillStyle = theme.colors.scorePanelBg;
   ctx.fillRect(scorePanX, y, scorePanW, h);
 
   // Vertical separator between team bar and score panel
-  ctx.fillStyle = '#000000';
+  ctx.fillStyle = theme.colors.background;
   ctx.fillRect(scorePanX, y, 2, h);
 
   // ── Logo ───────────────────────────────────────────────────────────
   const logoX = logoPad;
   const logoY = y + (h - logoSize) / 2;
-  await drawLogo(ctx, team, logoX, logoY, logoSize, logoCache);
+  await drawLogo(ctx, team, logoX, logoY, logoSize, logoCache, theme);
 
   // ── Team abbreviation (big, white, on color bar) ───────────────────
-  const textX = logoPad + logoSize + 10;
+  const textX = logoPad + logoSize + 10 * u;
   const hasRecord = !!(team.record && team.record.length > 0);
 
-  ctx.fillStyle = '#ffffff';
-  ctx.font = `${config.fonts.teamAbbr.weight} ${config.fonts.teamAbbr.size}px ${config.fonts.family}`;
+  ctx.fillStyle = theme.colors.teamText;
+  ctx.font = `${fontWeight(theme, 'teamAbbr', fonts.teamAbbr.weight)} ${fonts.teamAbbr.size}px ${family}`;
   ctx.textAlign = 'left';
   ctx.textBaseline = 'middle';
   // Shift up slightly when record is shown
-  ctx.fillText(team.abbr, textX, y + h / 2 - (hasRecord ? 8 : 0));
+  const abbrY = y + h / 2 - (hasRecord ? 8 * u : 0);
+  ctx.fillText(team.abbr, textX, abbrY);
+
+  // ── Possession marker (football ball / baseball at-bat) ────────────
+  const side = team === game.away ? 'away' : 'home';
+  if (possessionSide(game) === side) {
+    const abbrW = ctx.measureText(team.abbr).width;
+    ctx.fillStyle = theme.colors.possession;
+    ctx.beginPath();
+    ctx.arc(textX + abbrW + 9 * u, abbrY, 4 * u, 0, Math.PI * 2);
+    ctx.fill();
+  }
 
   // ── Record (smaller, semi-transparent) ─────────────────────────────
   if (hasRecord) {
-    ctx.fillStyle = 'rgba(255,255,255,0.55)';
-    ctx.font = `${config.fonts.record.size}px ${config.fonts.family}`;
+    ctx.fillStyle = theme.colors.recordText;
+    ctx.font = `${fontWeight(theme, 'record', fonts.record.weight)} ${fonts.record.size}px ${family}`;
     ctx.textAlign = 'left';
     ctx.textBaseline = 'middle';
-    ctx.fillText(team.record!, textX, y + h / 2 + 14);
+    ctx.fillText(team.record!, textX, y + h / 2 + 14 * u);
   }
 
   // ── Score (large, centered in dark panel) ──────────────────────────
@@ -157,20 +206,20 @@ async function drawTeamRow(
 
   if (gameState === 'pre') {
     // Pre-game: show dash
-    ctx.fillStyle = '#444444';
-    ctx.font = `bold ${Math.round(config.fonts.score.size * 0.55)}px ${config.fonts.family}`;
+    ctx.fillStyle = theme.colors.muted;
+    ctx.font = `bold ${Math.round(fonts.score.size * 0.55)}px ${family}`;
     ctx.textAlign = 'center';
     ctx.textBaseline = 'middle';
     ctx.fillText('–', scoreCX, y + h / 2);
   } else {
     // Drop shadow for LED pop
     ctx.shadowColor = 'rgba(0,0,0,0.6)';
-    ctx.shadowBlur = 3;
-    ctx.shadowOffsetX = 1;
-    ctx.shadowOffsetY = 1;
+    ctx.shadowBlur = 3 * u;
+    ctx.shadowOffsetX = u;
+    ctx.shadowOffsetY = u;
 
-    ctx.fillStyle = '#ffffff';
-    ctx.font = `${config.fonts.score.weight} ${config.fonts.score.size}px ${config.fonts.family}`;
+    ctx.fillStyle = theme.colors.text;
+    ctx.font = `${fontWeight(theme, 'score', fonts.score.weight)} ${fonts.score.size}px ${family}`;
     ctx.textAlign = 'center';
     ctx.textBaseline = 'middle';
     ctx.fillText(String(score), scoreCX, y + h / 2);
@@ -189,7 +238,7 @@ async function drawTeamRow(
       if (isWinner) {
         // Bright underline accent
         ctx.fillStyle = team.color;
-        ctx.fillRect(scorePanX + 20, y + h - 4, scorePanW - 40, 3);
+        ctx.fillRect(scorePanX + 20 * u, y + h - 4 * u, scorePanW - 40 * u, 3 * u);
       }
     }
   }
@@ -198,77 +247,92 @@ async function drawTeamRow(
 // ─────────────────────────────────────────────────────────────────────
 //  Status bar (league, period/clock, LIVE indicator)
 // ─────────────────────────────────────────────────────────────────────
-function drawStatusBar(ctx: any, game: Game, y: number, h: number, w: number): void {
+export interface StatusLine {
+  league: string;
+  text: string;
+  state: GameStatus['state'];
+}
+
+export function drawStatusBar(
+  ctx: any, status: StatusLine, y: number, h: number, w: number,
+  profile: DisplayProfile, theme: Theme
+): void {
+  const fonts = profile.fonts;
+  const family = theme.fonts.family;
+  const u = unit(profile);
+
   // Background
-  ctx.fillStyle = config.colors.statusBarBg;
+  ctx.fillStyle = theme.colors.statusBarBg;
   ctx.fillRect(0, y, w, h);
 
   // Top border
-  ctx.fillStyle = config.colors.divider;
+  ctx.fillStyle = theme.colors.divider;
   ctx.fillRect(0, y, w, 1);
 
   const cy = y + h / 2 + 1;
 
   // League badge (left)
-  ctx.fillStyle = config.colors.dimText;
-  ctx.font = `${config.fonts.league.weight} ${config.fonts.league.size}px ${config.fonts.family}`;
+  ctx.fillStyle = theme.colors.dimText;
+  ctx.font = `${fontWeight(theme, 'league', fonts.league.weight)} ${fonts.league.size}px ${family}`;
   ctx.textAlign = 'left';
   ctx.textBaseline = 'middle';
-  ctx.fillText(game.league, 8, cy);
+  ctx.fillText(status.league, 8 * u, cy);
 
   // Status text (center)
   const centerX = w / 2;
 
-  if (game.status.state === 'in_progress') {
-    ctx.fillStyle = '#ffffff';
-    ctx.font = `${config.fonts.status.weight} ${config.fonts.status.size}px ${config.fonts.family}`;
-    ctx.textAlign = 'center';
-    ctx.textBaseline = 'middle';
-    const period = game.status.period ? `Q${game.status.period}` : '';
-    const clock = game.status.clock || '';
-    ctx.fillText(`${period}  \u00B7  ${clock}`, centerX, cy);
-  } else if (game.status.state === 'final') {
-    ctx.fillStyle = config.colors.final;
-    ctx.font = `${config.fonts.status.weight} ${config.fonts.status.size}px ${config.fonts.family}`;
-    ctx.textAlign = 'center';
-    ctx.textBaseline = 'middle';
-    ctx.fillText('FINAL', centerX, cy);
-  } else {
-    ctx.fillStyle = config.colors.pre;
-    ctx.font = `${config.fonts.status.weight} ${config.fonts.status.size}px ${config.fonts.family}`;
-    ctx.textAlign = 'center';
-    ctx.textBaseline = 'middle';
-    ctx.fillText(game.status.detail || 'UPCOMING', centerX, cy);
-  }
+  ctx.fillStyle =
+    status.state === 'in_progress' ? theme.colors.text :
+    status.state === 'final'       ? theme.colors.final :
+                                     theme.colors.pre;
+  ctx.font = `${fontWeight(theme, 'status', fonts.status.weight)} ${fonts.status.size}px ${family}`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(status.text, centerX, cy);
 
   // LIVE indicator (right side, only for in-progress)
-  if (game.status.state === 'in_progress') {
-    const liveRightX = w - 8;
-    ctx.fillStyle = config.colors.live;
+  if (status.state === 'in_progress') {
+    const liveRightX = w - 8 * u;
+    ctx.fillStyle = theme.colors.live;
 
     // Pulsing red dot
     ctx.beginPath();
-    ctx.arc(liveRightX - 38, cy, 4, 0, Math.PI * 2);
+    ctx.arc(liveRightX - 38 * u, cy, 4 * u, 0, Math.PI * 2);
     ctx.fill();
 
     // "LIVE" text
-    ctx.font = `${config.fonts.liveIndicator.weight} ${config.fonts.liveIndicator.size}px ${config.fonts.family}`;
+    ctx.font = `${fontWeight(theme, 'liveIndicator', fonts.liveIndicator.weight)} ${fonts.liveIndicator.size}px ${family}`;
     ctx.textAlign = 'right';
     ctx.textBaseline = 'middle';
     ctx.fillText('LIVE', liveRightX, cy);
   }
 }
 
+// Fixed gaps and markers were tuned on the 80px team row of the panel
+// profile; scale them with the row height so larger profiles keep proportions
+export function unit(profile: DisplayProfile): number {
+  return profile.ticker.teamRowHeight / 80;
+}
+
+/** Truncate with an ellipsis to fit `maxWidth` in the current font. */
+export function fit(ctx: any, text: string, maxWidth: number): string {
+  if (ctx.measureText(text).width <= maxWidth) return text;
+  let s = text;
+  while (s.length > 1 && ctx.measureText(`${s}…`).width > maxWidth) s = s.slice(0, -1);
+  return `${s}…`;
+}
+
 // ─────────────────────────────────────────────────────────────────────
 //  Draw team logo (image or fallback badge)
 // ─────────────────────────────────────────────────────────────────────
-async function drawLogo(
+export async function drawLogo(
   ctx: any,
   team: Team,
   x: number,
   y: number,
   size: number,
-  logoCache: LogoCache
+  logoCache: LogoCache,
+  theme: Theme
 ): Promise<void> {
   const logoBuffer = await logoCache.getLogo(team.logoUrl);
 
@@ -308,8 +372,8 @@ async function drawLogo(
   ctx.stroke();
 
   // Abbreviation text in the circle
-  ctx.fillStyle = '#ffffff';
-  ctx.font = `bold ${Math.round(size * 0.36)}px ${config.fonts.family}`;
+  ctx.fillStyle = theme.colors.teamText;
+  ctx.font = `bold ${Math.round(size * 0.36)}px ${theme.fonts.family}`;
   ctx.textAlign = 'center';
   ctx.textBaseline = 'middle';
   ctx.fillText(team.abbr, cx, cy);
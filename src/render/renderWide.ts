@@ -0,0 +1,437 @@
+import { createCanvas } from '@napi-rs/canvas';
+import { DisplayProfile, FeedItem, GameFeedItem, PgaFeedItem, Theme } from '../types';
+import { LogoCache } from '../utils/logoCache';
+import { drawLogo, fit } from './renderTicker';
+import { fontWeight } from './themes';
+
+// ═══════════════════════════════════════════════════════════════════════
+//  Wide strip renderer — the /wide.html marquee as a PNG
+//
+//  Same tiles as the browser version (sport chips, game tiles, PGA
+//  leaderboards), laid out on a 270px-tall stage and scaled to the
+//  profile height. The full strip is one long image; pages split it into
+//  screen-width frames that never cut a tile in half.
+//
+//  Stage (270 tall):
+//  ┌────┬──────────────────┬──────────────────┬────┬────────────────────┐
+//  │ N  │ [logo] PHI   111 │ [logo] BOS    98 │ N  │ Tournament         │
+//  │ B  │ [logo] CHI   113 │ [logo] NYK   101 │ H  │ 1  Player   -12 …  │
+//  │ A  │ NBA  Q4 · 3:52 ● │ NBA  FINAL       │ L  │ Round 3     ● LIVE │
+//  └────┴──────────────────┴──────────────────┴────┴────────────────────┘
+// ═══════════════════════════════════════════════════════════════════════
+
+/** Height of the layout stage; profiles scale from it. */
+export const STAGE_H = 270;
+const EDGE_PAD = 16;     // .track padding
+const TILE_MARGIN = 10;  // each side of a tile / chip
+const TILE_H = 240;
+const GAME_W = 380;
+const PGA_W = 420;
+const CHIP_W = 52;
+const CHIP_H = 230;
+
+// Same gradients as the .chip-* classes in wide.html
+export const CHIP_COLORS: Record<string, [string, string]> = {
+  NBA:   ['#1d428a', '#c8102e'],
+  NHL:   ['#003087', '#00847e'],
+  NFL:   ['#013369', '#d50a0a'],
+  MLB:   ['#041e42', '#bf0d3e'],
+  NCAAF: ['#1b365d', '#7a0019'],
+  NCAAB: ['#1b365d', '#e87722'],
+  PGA:   ['#006747', '#2d6b3f'],
+};
+
+type Block =
+  | { kind: 'chip'; sport: string; label: string; width: number }
+  | { kind: 'game'; item: GameFeedItem; width: number }
+  | { kind: 'pga'; item: PgaFeedItem; width: number };
+
+export interface WideRenderOptions {
+  profile: DisplayProfile;
+  theme: Theme;
+}
+
+/** Stage-space width of the stage for a profile (270 tall, profile aspect). */
+function stageWidth(profile: DisplayProfile): number {
+  return Math.round((profile.width * STAGE_H) / profile.height);
+}
+
+function layout(items: FeedItem[]): Block[] {
+  const blocks: Block[] = [];
+  let label = '';
+  for (const item of items) {
+    const itemLabel = (item.type === 'game' && item.leagueLabel) || item.sport;
+    if (itemLabel !== label) {
+      label = itemLabel;
+      blocks.push({ kind: 'chip', sport: item.sport, label, width: CHIP_W + TILE_MARGIN * 2 });
+    }
+    if (item.type === 'game') blocks.push({ kind: 'game', item, width: GAME_W + TILE_MARGIN * 2 });
+    else blocks.push({ kind: 'pga', item, width: PGA_W + TILE_MARGIN * 2 });
+  }
+  return blocks;
+}
+
+/**
+ * Split the strip into frames that fit the profile width. A frame that
+ * starts mid-sport repeats that sport's chip so every frame is labelled.
+ */
+function paginate(blocks: Block[], maxWidth: number): Block[][] {
+  const pages: Block[][] = [];
+  let page: Block[] = [];
+  let used = EDGE_PAD * 2;
+  let sport: Block | null = null;
+
+  for (const block of blocks) {
+    if (block.kind === 'chip') sport = block;
+    if (page.length > 0 && used + block.width > maxWidth) {
+      // A chip left at the end would label nothing; the next page repeats it
+      if (page[page.length - 1].kind === 'chip' && page.length > 1) page.pop();
+      pages.push(page);
+      page = [];
+      used = EDGE_PAD * 2;
+      if (block.kind !== 'chip' && sport) {
+        page.push(sport);
+        used += sport.width;
+      }
+    }
+    page.push(block);
+    used += block.width;
+  }
+  // Drop a trailing chip with no tiles after it
+  if (page.length > 0 && !(page.length === 1 && page[0].kind === 'chip')) pages.push(page);
+  return pages;
+}
+
+/** Number of screen-width frames the strip splits into for a profile. */
+export function countWidePages(items: FeedItem[], profile: DisplayProfile): number {
+  return paginate(layout(items), stageWidth(profile)).length;
+}
+
+/** The whole strip as one image, at least one screen wide. */
+export async function renderWideStrip(
+  items: FeedItem[],
+  logoCache: LogoCache,
+  options: WideRenderOptions
+): Promise<Buffer> {
+  const blocks = layout(items);
+  const contentW = blocks.reduce((sum, b) => sum + b.width, EDGE_PAD * 2);
+  return renderBlocks(blocks, Math.max(contentW, stageWidth(options.profile)), logoCache, options);
+}
+
+/** One screen-width frame (0-based `page`); null when out of range. */
+export async function renderWidePage(
+  items: FeedItem[],
+  page: number,
+  logoCache: LogoCache,
+  options: WideRenderOptions
+): Promise<Buffer | null> {
+  const pages = paginate(layout(items), stageWidth(options.profile));
+  if (page < 0 || page >= pages.length) return null;
+  return renderBlocks(pages[page], stageWidth(options.profile), logoCache, options);
+}
+
+async function renderBlocks(
+  blocks: Block[],
+  stageW: number,
+  logoCache: LogoCache,
+  { profile, theme }: WideRenderOptions
+): Promise<Buffer> {
+  const scale = (profile.height / STAGE_H) * profile.scaleFactor;
+  const W = Math.round(stageW * scale);
+  const H = profile.height * profile.scaleFactor;
+
+  const canvas = createCanvas(W, H);
+  const ctx = canvas.getContext('2d');
+  ctx.scale(scale, scale);
+
+  ctx.fillStyle = theme.colors.pageBackground;
+  ctx.fillRect(0, 0, stageW, STAGE_H);
+
+  let x = EDGE_PAD;
+  for (const block of blocks) {
+    const left = x + TILE_MARGIN;
+    if (block.kind === 'chip') drawChip(ctx, block.sport, block.label, left, theme);
+    else if (block.kind === 'game') await drawGameTile(ctx, block.item, left, logoCache, theme);
+    else drawPgaTile(ctx, block.item, left, theme);
+    x += block.width;
+  }
+
+  if (profile.scaleFactor > 1) {
+    const outW = Math.round(W / profile.scaleFactor);
+    const output = createCanvas(outW, profile.height);
+    output.getContext('2d').drawImage(canvas, 0, 0, outW, profile.height);
+    return output.toBuffer('image/png');
+  }
+  return canvas.toBuffer('image/png');
+}
+
+// ─────────────────────────────────────────────────────────────────────
+//  Sport chip (vertical league label)
+// ─────────────────────────────────────────────────────────────────────
+function drawChip(ctx: any, sport: string, label: string, x: number, theme: Theme): void {
+  const y = (STAGE_H - CHIP_H) / 2;
+  const [from, to] = CHIP_COLORS[sport] || ['#333333', '#555555'];
+
+  // Label box sized to the text, centered in the chip column
+  ctx.font = `800 14px ${theme.fonts.family}`;
+  const boxH = ctx.measureText(label).width + 24 + label.length * 2;
+  const boxW = 30;
+  const bx = x + (CHIP_W - boxW) / 2;
+  const by = y + (CHIP_H - boxH) / 2;
+
+  const grad = ctx.createLinearGradient(0, by, 0, by + boxH);
+  grad.addColorStop(0, from);
+  grad.addColorStop(1, to);
+  ctx.fillStyle = grad;
+  roundRect(ctx, bx, by, boxW, boxH, 8);
+  ctx.fill();
+
+  ctx.save();
+  ctx.translate(bx + boxW / 2, by + boxH / 2);
+  ctx.rotate(Math.PI / 2);
+  ctx.fillStyle = '#ffffff';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.letterSpacing = '2px';
+  ctx.fillText(label, 0, 0);
+  ctx.letterSpacing = '0px';
+  ctx.restore();
+}
+
+// ─────────────────────────────────────────────────────────────────────
+//  Game tile (two team rows + status bar)
+// ─────────────────────────────────────────────────────────────────────
+async function drawGameTile(
+  ctx: any, g: GameFeedItem, x: number, logoCache: LogoCache, theme: Theme
+): Promise<void> {
+  const y = (STAGE_H - TILE_H) / 2;
+  const rowH = 90;
+  const C = theme.colors;
+
+  ctx.save();
+  tileFrame(ctx, x, y, GAME_W, theme);
+  ctx.clip();
+
+  ctx.fillStyle = C.tileBg;
+  ctx.fillRect(x, y, GAME_W, TILE_H);
+
+  await drawTileRow(ctx, g.away, g.awayScore, g, g.possession === 'away', x, y, rowH, logoCache, theme);
+  ctx.fillStyle = 'rgba(255,255,255,0.08)';
+  ctx.fillRect(x + 14, y + rowH, GAME_W - 28, 1);
+  await drawTileRow(ctx, g.home, g.homeScore, g, g.possession === 'home', x, y + rowH + 1, rowH, logoCache, theme);
+
+  // Status bar
+  const sy = y + rowH * 2 + 1;
+  const sh = TILE_H - rowH * 2 - 1;
+  const cy = sy + sh / 2;
+  ctx.fillStyle = C.statusBarBg;
+  ctx.fillRect(x, sy, GAME_W, sh);
+  ctx.fillStyle = C.divider;
+  ctx.fillRect(x, sy, GAME_W, 1);
+
+  ctx.textBaseline = 'middle';
+  ctx.textAlign = 'left';
+  ctx.fillStyle = C.dimText;
+  ctx.font = `${fontWeight(theme, 'league', '700')} 11px ${theme.fonts.family}`;
+  ctx.fillText(g.leagueLabel || g.sport, x + 14, cy);
+
+  ctx.textAlign = 'center';
+  ctx.fillStyle = g.state === 'final' ? C.final : g.state === 'pre' ? C.pre : C.text;
+  ctx.font = `${fontWeight(theme, 'status', '700')} 15px ${theme.fonts.family}`;
+  ctx.fillText(g.statusText || '', x + GAME_W / 2, cy);
+
+  if (g.state === 'live') drawLive(ctx, x + GAME_W - 14, cy, theme);
+  ctx.restore();
+
+  tileFrame(ctx, x, y, GAME_W, theme);
+  strokeBorder(ctx, theme);
+}
+
+async function drawTileRow(
+  ctx: any,
+  team: GameFeedItem['away'],
+  score: number,
+  g: GameFeedItem,
+  hasBall: boolean,
+  x: number, y: number, h: number,
+  logoCache: LogoCache,
+  theme: Theme
+): Promise<void> {
+  const C = theme.colors;
+  ctx.fillStyle = team.color;
+  ctx.fillRect(x, y, GAME_W, h);
+
+  const grad = ctx.createLinearGradient(0, y, 0, y + h);
+  grad.addColorStop(0,   'rgba(255,255,255,0.08)');
+  grad.addColorStop(0.5, 'rgba(0,0,0,0)');
+  grad.addColorStop(1,   'rgba(0,0,0,0.15)');
+  ctx.fillStyle = grad;
+  ctx.fillRect(x, y, GAME_W, h);
+
+  const logoSize = 52;
+  await drawLogo(ctx, team, x + 14, y + (h - logoSize) / 2, logoSize, logoCache, theme);
+
+  const textX = x + 14 + logoSize + 10;
+  const abbrY = y + h / 2 - (team.record ? 7 : 0);
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = C.teamText;
+  ctx.font = `${fontWeight(theme, 'teamAbbr', '900')} 24px ${theme.fonts.family}`;
+  ctx.fillText(team.abbr, textX, abbrY);
+
+  if (hasBall) {
+    const abbrW = ctx.measureText(team.abbr).width;
+    ctx.fillStyle = C.possession;
+    ctx.beginPath();
+    ctx.arc(textX + abbrW + 9.5, abbrY, 3.5, 0, Math.PI * 2);
+    ctx.fill();
+  }
+
+  if (team.record) {
+    ctx.fillStyle = C.recordText;
+    ctx.font = `${fontWeight(theme, 'record', '400')} 11px ${theme.fonts.family}`;
+    ctx.fillText(team.record, textX, y + h / 2 + 13);
+  }
+
+  ctx.textAlign = 'right';
+  const scoreX = x + GAME_W - 14;
+  if (g.state === 'pre') {
+    ctx.fillStyle = C.muted;
+    ctx.font = `bold 28px ${theme.fonts.family}`;
+    ctx.fillText('–', scoreX, y + h / 2);
+  } else {
+    ctx.shadowColor = 'rgba(0,0,0,0.6)';
+    ctx.shadowBlur = 4;
+    ctx.shadowOffsetX = 1;
+    ctx.shadowOffsetY = 2;
+    ctx.fillStyle = C.teamText;
+    ctx.font = `${fontWeight(theme, 'score', '900')} 40px ${theme.fonts.family}`;
+    ctx.fillText(String(score), scoreX, y + h / 2);
+    ctx.shadowColor = 'transparent';
+    ctx.shadowBlur = 0;
+    ctx.shadowOffsetX = 0;
+    ctx.shadowOffsetY = 0;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────
+//  PGA leaderboard tile
+// ─────────────────────────────────────────────────────────────────────
+function drawPgaTile(ctx: any, g: PgaFeedItem, x: number, theme: Theme): void {
+  const y = (STAGE_H - TILE_H) / 2;
+  const C = theme.colors;
+  const family = theme.fonts.family;
+  const headerH = 52;
+  const statusH = 34;
+
+  ctx.save();
+  tileFrame(ctx, x, y, PGA_W, theme);
+  ctx.clip();
+
+  ctx.fillStyle = C.tileBg;
+  ctx.fillRect(x, y, PGA_W, TILE_H);
+
+  // Header
+  const grad = ctx.createLinearGradient(x, y, x + PGA_W, y + headerH);
+  grad.addColorStop(0, '#006747');
+  grad.addColorStop(1, '#1a5c35');
+  ctx.fillStyle = grad;
+  ctx.fillRect(x, y, PGA_W, headerH);
+
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = C.teamText;
+  ctx.font = `900 16px ${family}`;
+  ctx.fillText(fit(ctx, g.tournament, PGA_W - 28), x + 14, y + 20);
+  ctx.fillStyle = 'rgba(255,255,255,0.7)';
+  ctx.font = `11px ${family}`;
+  ctx.fillText(fit(ctx, `${g.course} • ${g.round}`, PGA_W - 28), x + 14, y + 39);
+
+  // Board
+  const rowH = 28;
+  const boardY = y + headerH + 4;
+  const maxRows = Math.floor((TILE_H - headerH - statusH - 8) / rowH);
+  g.players.slice(0, maxRows).forEach((p, i) => {
+    const ry = boardY + i * rowH;
+    const cy = ry + rowH / 2;
+    ctx.fillStyle = 'rgba(255,255,255,0.04)';
+    ctx.fillRect(x + 10, ry + rowH - 1, PGA_W - 20, 1);
+
+    ctx.font = `700 12px ${family}`;
+    ctx.textAlign = 'center';
+    ctx.fillStyle = C.dimText;
+    ctx.fillText(String(p.rank), x + 10 + 12, cy);
+
+    const right = x + PGA_W - 10;
+    ctx.textAlign = 'right';
+    ctx.font = `11px ${family}`;
+    ctx.fillStyle = '#666666';
+    ctx.fillText(p.thru, right, cy);
+    ctx.font = `12px ${family}`;
+    ctx.fillStyle = '#aaaaaa';
+    ctx.fillText(p.today, right - 30, cy);
+    ctx.font = `800 12px ${family}`;
+    ctx.fillStyle = '#4caf50';
+    ctx.fillText(p.score, right - 66, cy);
+
+    ctx.textAlign = 'left';
+    ctx.font = `600 12px ${family}`;
+    ctx.fillStyle = C.text;
+    ctx.fillText(fit(ctx, p.name, PGA_W - 20 - 24 - 6 - 108 - 8), x + 10 + 24 + 6, cy);
+  });
+
+  // Status bar
+  const sy = y + TILE_H - statusH;
+  const cy = sy + statusH / 2;
+  ctx.fillStyle = C.statusBarBg;
+  ctx.fillRect(x, sy, PGA_W, statusH);
+  ctx.fillStyle = C.divider;
+  ctx.fillRect(x, sy, PGA_W, 1);
+  ctx.textAlign = 'center';
+  ctx.fillStyle = C.text;
+  ctx.font = `${fontWeight(theme, 'status', '700')} 12px ${family}`;
+  ctx.fillText(g.statusText, x + PGA_W / 2, cy);
+  if (g.state === 'live') drawLive(ctx, x + PGA_W - 14, cy, theme);
+  ctx.restore();
+
+  tileFrame(ctx, x, y, PGA_W, theme);
+  strokeBorder(ctx, theme);
+}
+
+// ─────────────────────────────────────────────────────────────────────
+//  Helpers
+// ─────────────────────────────────────────────────────────────────────
+
+/** "● LIVE" right-aligned at `right`. */
+function drawLive(ctx: any, right: number, cy: number, theme: Theme): void {
+  ctx.fillStyle = theme.colors.live;
+  ctx.font = `${fontWeight(theme, 'liveIndicator', '700')} 11px ${theme.fonts.family}`;
+  ctx.textAlign = 'right';
+  ctx.fillText('LIVE', right, cy);
+  const textW = ctx.measureText('LIVE').width;
+  ctx.beginPath();
+  ctx.arc(right - textW - 5 - 3.5, cy, 3.5, 0, Math.PI * 2);
+  ctx.fill();
+}
+
+function tileFrame(ctx: any, x: number, y: number, w: number, theme: Theme): void {
+  roundRect(ctx, x, y, w, TILE_H, theme.border.radius);
+}
+
+function strokeBorder(ctx: any, theme: Theme): void {
+  if (theme.border.width <= 0) return;
+  ctx.strokeStyle = theme.border.color;
+  ctx.lineWidth = theme.border.width;
+  ctx.stroke();
+}
+
+function roundRect(ctx: any, x: number, y: number, w: number, h: number, r: number): void {
+  const radius = Math.min(r, w / 2, h / 2);
+  ctx.beginPath();
+  ctx.moveTo(x + radius, y);
+  ctx.arcTo(x + w, y, x + w, y + h, radius);
+  ctx.arcTo(x + w, y + h, x, y + h, radius);
+  ctx.arcTo(x, y + h, x, y, radius);
+  ctx.arcTo(x, y, x + w, y, radius);
+  ctx.closePath();
+}
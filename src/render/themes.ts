@@ -0,0 +1,132 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { config } from '../config';
+import { DisplayProfile, Theme } from '../types';
+import { createLogger } from '../utils/logger';
+
+// ═══════════════════════════════════════════════════════════════════════
+//  Theme loading
+//
+//  Themes are JSON files in config.themes.dir named <theme>.json. Each is
+//  merged over the base theme in config, so a file only needs the colors
+//  or fonts it changes. Files are re-read when they change on disk.
+// ═══════════════════════════════════════════════════════════════════════
+
+const log = createLogger('Themes');
+
+type ThemeFile = Partial<Omit<Theme, 'name' | 'version' | 'colors' | 'fonts' | 'border'>> & {
+  colors?: Partial<Theme['colors']>;
+  fonts?: Partial<Theme['fonts']>;
+  border?: Partial<Theme['border']>;
+};
+
+const THEME_NAME = /^[a-z0-9][a-z0-9_-]*$/i;
+
+const loaded = new Map<string, { mtimeMs: number; theme: Theme }>();
+
+function baseTheme(): Theme {
+  return {
+    name: 'default',
+    label: 'Default',
+    version: 'base',
+    colors: { ...config.colors },
+    fonts: { ...config.fonts, weights: {} },
+    border: { ...config.border },
+  };
+}
+
+function themePath(name: string): string {
+  return path.resolve(process.cwd(), config.themes.dir, `${name}.json`);
+}
+
+/** Names of the theme files on disk, plus `default`. */
+export function listThemes(): string[] {
+  let files: string[] = [];
+  try {
+    files = fs.readdirSync(path.resolve(process.cwd(), config.themes.dir));
+  } catch {
+    // No themes directory — only the base theme
+  }
+  const names = files
+    .filter((f) => f.endsWith('.json'))
+    .map((f) => f.slice(0, -'.json'.length))
+    .filter((n) => THEME_NAME.test(n));
+  return ['default', ...names.filter((n) => n !== 'default').sort()];
+}
+
+/** Load a theme by name; null when the file doesn't exist or the name is invalid. */
+export function findTheme(name: string): Theme | null {
+  const key = name.trim().toLowerCase();
+  if (!THEME_NAME.test(key)) return null;
+
+  const file = themePath(key);
+  let stat: fs.Stats;
+  try {
+    stat = fs.statSync(file);
+  } catch {
+    // `default` works without a file; a default.json tweaks the base
+    return key === 'default' ? baseTheme() : null;
+  }
+
+  const hit = loaded.get(key);
+  if (hit && hit.mtimeMs === stat.mtimeMs) return hit.theme;
+
+  try {
+    const raw = JSON.parse(fs.readFileSync(file, 'utf-8')) as ThemeFile;
+    const theme = mergeTheme(key, raw, stat.mtimeMs);
+    loaded.set(key, { mtimeMs: stat.mtimeMs, theme });
+    return theme;
+  } catch (err) {
+    log.error('Failed to load theme', { file, err });
+    return hit ? hit.theme : null;
+  }
+}
+
+export function defaultTheme(): Theme {
+  const theme = findTheme(config.themes.default);
+  if (theme) return theme;
+  log.warn('Unknown THEME, using base theme', { theme: config.themes.default });
+  return baseTheme();
+}
+
+/** Theme for a `?theme=` value; undefined/empty means the default. */
+export function resolveTheme(param: unknown): Theme | null {
+  if (param === undefined || param === '') return defaultTheme();
+  return findTheme(String(param));
+}
+
+export function isDefaultTheme(theme: Theme): boolean {
+  return theme.name === defaultTheme().name;
+}
+
+/** `&theme=<name>` for URLs, empty for the default so URLs stay stable. */
+export function themeQuery(theme: Theme, prefix: '?' | '&' = '&'): string {
+  return isDefaultTheme(theme) ? '' : `${prefix}theme=${encodeURIComponent(theme.name)}`;
+}
+
+/** Font weight for a text role: the theme's override, else `fallback`. */
+export function fontWeight(
+  theme: Theme,
+  role: keyof DisplayProfile['fonts'],
+  fallback: string
+): string {
+  return theme.fonts.weights[role] || fallback;
+}
+
+function mergeTheme(name: string, raw: ThemeFile, mtimeMs: number): Theme {
+  const base = baseTheme();
+  return {
+    name,
+    label: raw.label || name,
+    version: String(Math.round(mtimeMs)),
+    colors: { ...base.colors, ...raw.colors },
+    fonts: {
+      ...base.fonts,
+      ...raw.fonts,
+      weights: { ...raw.fonts?.weights },
+      // Font files are relative to the theme file
+      files: raw.fonts?.files?.map((f) => path.resolve(path.dirname(themePath(name)), f)),
+    },
+    border: { ...base.border, ...raw.border },
+  };
+}
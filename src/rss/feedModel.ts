@@ -0,0 +1,183 @@
+import * as crypto from 'crypto';
+import { DisplayProfile, FeedEntry, Game, PgaFeedItem, SponsorPlacement, SportType, Theme } from '../types';
+import { config } from '../config';
+import { formatStatus } from '../utils/status';
+import { isGame } from '../feed/feedItems';
+import { EntryFilter, NO_FILTER } from '../feed/filters';
+import { isSponsorPlacement } from '../sponsors/sponsors';
+import { defaultProfile, profileQuery } from '../render/profiles';
+import { defaultTheme, themeQuery } from '../render/themes';
+
+// ═══════════════════════════════════════════════════════════════════════
+//  Syndication item model
+//
+//  /rss.xml, /atom.xml and /feed.json serialize the same channel: one item
+//  per published entry (and sponsor slot) with its title, text, image
+//  enclosure and timestamp. Formats only differ in how they write it out.
+//
+//  An item's version is a digest of what a viewer sees — its text and the
+//  exact PNG served — so a score, status or theme change gives RSS a new
+//  guid. `updated` is when that version was first published.
+// ═══════════════════════════════════════════════════════════════════════
+
+export const FEED_TITLE = 'Sports Ticker Feed';
+export const FEED_DESCRIPTION = 'Live sports scores ticker with high-resolution images for LED displays';
+
+export interface SyndicationItem {
+  id: string;
+  guid: string;             // id + content version; changes whenever the item looks different
+  title: string;
+  description: string;      // plain text
+  category?: SportType;     // league; sponsor slots have none
+  imageUrl: string;         // PNG enclosure, rendered on demand
+  imageLength: number;      // bytes of that PNG
+  updated: Date;
+}
+
+export interface SyndicationFeed {
+  baseUrl: string;
+  title: string;
+  league?: SportType;       // set on a per-league channel
+  updated: Date;
+  width: number;            // enclosure image size (display profile)
+  height: number;
+  query: string;            // display + filter params for the feed's own URL ('' or '?…')
+  items: SyndicationItem[];
+}
+
+export interface SyndicationOptions {
+  baseUrl?: string;
+  profile?: DisplayProfile;
+  theme?: Theme;
+  filter?: EntryFilter;     // echoed into the feed's own URL
+  league?: SportType;
+}
+
+// guid → when that version was first published. Bounded; the oldest go first.
+const MAX_VERSIONS = 5000;
+const firstSeen = new Map<string, Date>();
+
+function publishedAt(guid: string, fallback: Date): Date {
+  let at = firstSeen.get(guid);
+  if (!at) {
+    at = fallback;
+    firstSeen.set(guid, at);
+    if (firstSeen.size > MAX_VERSIONS) firstSeen.delete(firstSeen.keys().next().value!);
+  }
+  return at;
+}
+
+function contentVersion(title: string, description: string, image: Buffer): string {
+  return crypto
+    .createHash('sha1')
+    .update(`${title}\n${description}\n`)
+    .update(image)
+    .digest('hex')
+    .slice(0, 12);
+}
+
+// A game's own timestamp dates a version seen before this process started;
+// leaderboards and sponsor slots carry none
+function versionSince(entry: FeedEntry | SponsorPlacement, now: Date): Date {
+  if (isSponsorPlacement(entry) || !isGame(entry)) return now;
+  const updated = Date.parse(entry.updatedAt);
+  return Number.isNaN(updated) || updated > now.getTime() ? now : new Date(updated);
+}
+
+function formatTitle(game: Game): string {
+  if (game.status.state === 'pre') {
+    return `${game.away.abbr} vs ${game.home.abbr} (${game.status.detail || 'Upcoming'})`;
+  }
+  const statusStr = formatStatus(game, { style: 'text' });
+  return `${game.away.abbr} ${game.score.away} - ${game.home.abbr} ${game.score.home} (${statusStr})`;
+}
+
+function formatDescription(game: Game): string {
+  if (game.status.state === 'pre') {
+    return `${game.away.name} vs ${game.home.name} — ${game.status.detail || 'Upcoming'}`;
+  }
+  const statusStr = formatStatus(game, { style: 'text' });
+  return `${game.away.name} ${game.score.away}, ${game.home.name} ${game.score.home} — ${statusStr}`;
+}
+
+// "THE PLAYERS (Round 3): S. Scheffler -14, R. McIlroy -12, …"
+function formatLeaderboardTitle(item: PgaFeedItem): string {
+  const leaders = item.players.slice(0, 3).map((p) => `${p.name} ${p.score}`).join(', ');
+  return `${item.tournament} (${item.round}): ${leaders}`;
+}
+
+function formatLeaderboardDescription(item: PgaFeedItem): string {
+  const board = item.players
+    .slice(0, config.leaderboard.players)
+    .map((p) => `${p.rank}. ${p.name} ${p.score} (${p.thru})`)
+    .join(', ');
+  return `${item.tournament}, ${item.course} — ${item.statusText}. ${board}`;
+}
+
+function formatSponsorDescription(placement: SponsorPlacement): string {
+  const { name, tagline } = placement.sponsor;
+  return tagline ? `Presented by ${name} — ${tagline}` : `Presented by ${name}`;
+}
+
+/**
+ * The channel for these entries. `images` holds the PNG each item's
+ * enclosure serves (keyed by entry or placement id), for its byte length
+ * and content version.
+ */
+export function buildSyndicationFeed(
+  entries: (FeedEntry | SponsorPlacement)[],
+  images: Map<string, Buffer>,
+  options: SyndicationOptions = {}
+): SyndicationFeed {
+  const baseUrl = options.baseUrl || config.server.baseUrl;
+  const { profile = defaultProfile(), theme = defaultTheme(), filter = NO_FILTER, league } = options;
+  const now = new Date();
+  const displayParams = `${profileQuery(profile)}${themeQuery(theme)}`;
+  const params = `${displayParams}${filter.key ? `&${filter.key}` : ''}`;
+
+  const items = entries.map((entry): SyndicationItem => {
+    const image = images.get(entry.id) || Buffer.alloc(0);
+    const item = isSponsorPlacement(entry)
+      ? {
+          title: `Presented by ${entry.sponsor.name}`,
+          description: formatSponsorDescription(entry),
+          // Sponsor images count an impression when fetched with ?ch=rss
+          imageUrl: `${baseUrl}/api/sponsors/${encodeURIComponent(entry.sponsor.id)}/image?ch=rss${displayParams}`,
+        }
+      : {
+          title: isGame(entry) ? formatTitle(entry) : formatLeaderboardTitle(entry),
+          description: isGame(entry) ? formatDescription(entry) : formatLeaderboardDescription(entry),
+          category: isGame(entry) ? entry.league : entry.sport,
+          // On-demand image endpoint — renders fresh, no cache dependency
+          imageUrl: `${baseUrl}/api/image?id=${encodeURIComponent(entry.id)}${displayParams}`,
+        };
+    const guid = `${entry.id}#${contentVersion(item.title, item.description, image)}`;
+    return { id: entry.id, guid, ...item, imageLength: image.length, updated: publishedAt(guid, versionSince(entry, now)) };
+  });
+
+  return {
+    baseUrl,
+    title: league ? `${FEED_TITLE} — ${league}` : FEED_TITLE,
+    league,
+    updated: now,
+    width: profile.width,
+    height: profile.height,
+    query: params.replace(/^&/, '?'),
+    items,
+  };
+}
+
+export function escapeXml(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/** The `<img>` + caption body shared by the HTML content of every format. */
+export function itemHtml(item: SyndicationItem, feed: SyndicationFeed): string {
+  const imageAttr = escapeXml(item.imageUrl);
+  return `<img src="${imageAttr}" width="${feed.width}" height="${feed.height}" alt="${escapeXml(item.description)}" /><br/>${escapeXml(item.description)}`;
+}
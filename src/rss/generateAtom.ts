@@ -0,0 +1,46 @@
+import { escapeXml, FEED_DESCRIPTION, FEED_TITLE, itemHtml, SyndicationFeed } from './feedModel';
+
+// Atom ids must be permanent IRIs; a tag URI keeps an entry's id stable
+// across display profiles, themes and filters (an update only moves <updated>)
+function tagUri(baseUrl: string, id: string): string {
+  let host = 'localhost';
+  try {
+    host = new URL(baseUrl).hostname;
+  } catch {
+    // Keep the fallback authority
+  }
+  return `tag:${host},2026:${encodeURIComponent(id)}`;
+}
+
+export function generateAtom(feed: SyndicationFeed): string {
+  const { baseUrl, width, height } = feed;
+
+  const items = feed.items
+    .map((item) => {
+      const imageAttr = escapeXml(item.imageUrl);
+      return `  <entry>
+    <title>${escapeXml(item.title)}</title>
+    <id>${escapeXml(tagUri(baseUrl, item.id))}</id>
+    <updated>${item.updated.toISOString()}</updated>${item.category ? `
+    <category term="${item.category}"/>` : ''}
+    <summary type="text">${escapeXml(item.description)}</summary>
+    <content type="html">${escapeXml(itemHtml(item, feed))}</content>
+    <link rel="enclosure" href="${imageAttr}" type="image/png" length="${item.imageLength}"/>
+    <media:content url="${imageAttr}" type="image/png" medium="image" width="${width}" height="${height}"/>
+    <media:thumbnail url="${imageAttr}" width="${width}" height="${height}"/>
+  </entry>`;
+    })
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xmlns:media="http://search.yahoo.com/mrss/">
+  <title>${escapeXml(feed.title)}</title>
+  <subtitle>${FEED_DESCRIPTION}</subtitle>
+  <id>${escapeXml(tagUri(baseUrl, 'feed'))}</id>
+  <link rel="self" type="application/atom+xml" href="${escapeXml(`${baseUrl}/atom.xml${feed.query}`)}"/>
+  <link rel="alternate" type="text/html" href="${escapeXml(baseUrl)}"/>
+  <updated>${feed.updated.toISOString()}</updated>
+  <author><name>${FEED_TITLE}</name></author>
+${items}
+</feed>`;
+}
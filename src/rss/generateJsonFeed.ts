@@ -0,0 +1,27 @@
+import { FEED_DESCRIPTION, itemHtml, SyndicationFeed } from './feedModel';
+
+// JSON Feed 1.1 (https://www.jsonfeed.org/version/1.1/). The image size has
+// no standard field, so it rides along in the `_media` extension object.
+export function generateJsonFeed(feed: SyndicationFeed): object {
+  const { baseUrl, width, height } = feed;
+
+  return {
+    version: 'https://jsonfeed.org/version/1.1',
+    title: feed.title,
+    description: FEED_DESCRIPTION,
+    home_page_url: baseUrl,
+    feed_url: `${baseUrl}/feed.json${feed.query}`,
+    items: feed.items.map((item) => ({
+      id: item.id,
+      title: item.title,
+      content_html: itemHtml(item, feed),
+      content_text: item.description,
+      image: item.imageUrl,
+      date_published: item.updated.toISOString(),
+      date_modified: item.updated.toISOString(),
+      tags: item.category ? [item.category] : undefined,
+      attachments: [{ url: item.imageUrl, mime_type: 'image/png', size_in_bytes: item.imageLength }],
+      _media: { medium: 'image', width, height },
+    })),
+  };
+}
@@ -1,58 +1,21 @@
-import { Game } from '../types';
-import { config } from '../config';
+import { escapeXml, FEED_DESCRIPTION, itemHtml, SyndicationFeed } from './feedModel';
 
-function escapeXml(str: string): string {
-  return str
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&apos;');
-}
-
-function formatTitle(game: Game): string {
-  if (game.status.state === 'pre') {
-    return `${game.away.abbr} vs ${game.home.abbr} (${game.status.detail || 'Upcoming'})`;
-  }
-  const statusStr =
-    game.status.state === 'final'
-      ? 'Final'
-      : `Q${game.status.period || '?'} ${game.status.clock || ''}`.trim();
-  return `${game.away.abbr} ${game.score.away} - ${game.home.abbr} ${game.score.home} (${statusStr})`;
-}
-
-function formatDescription(game: Game): string {
-  if (game.status.state === 'pre') {
-    return `${game.away.name} vs ${game.home.name} — ${game.status.detail || 'Upcoming'}`;
-  }
-  const statusStr =
-    game.status.state === 'final'
-      ? 'Final'
-      : `Q${game.status.period || '?'} ${game.status.clock || ''}`.trim();
-  return `${game.away.name} ${game.score.away}, ${game.home.name} ${game.score.home} — ${statusStr}`;
-}
-
-export function generateRss(games: Game[], requestBaseUrl?: string): string {
-  const baseUrl = requestBaseUrl || config.server.baseUrl;
-  const now = new Date().toUTCString();
-  const { width, height } = config.display;
-
-  const items = games
-    .map((game) => {
-      const title = escapeXml(formatTitle(game));
-      const descText = formatDescription(game);
-      // On-demand image endpoint — renders fresh, no cache dependency
-      const imageUrl = `${baseUrl}/api/image?id=${encodeURIComponent(game.id)}`;
-      const pubDate = new Date(game.updatedAt).toUTCString();
+// `path` is where this channel is served (/rss.xml, /rss/nba.xml), for its self link
+export function generateRss(feed: SyndicationFeed, path = '/rss.xml'): string {
+  const { baseUrl, width, height } = feed;
 
+  const items = feed.items
+    .map((item) => {
+      const imageAttr = escapeXml(item.imageUrl);
       return `    <item>
-      <title>${title}</title>
-      <description><![CDATA[<img src="${imageUrl}" width="${width}" height="${height}" alt="${escapeXml(descText)}" /><br/>${escapeXml(descText)}]]></description>
-      <guid isPermaLink="false">${escapeXml(game.id)}</guid>
-      <pubDate>${pubDate}</pubDate>
-      <enclosure url="${imageUrl}" type="image/png" length="50000"/>
-      <media:content url="${imageUrl}" type="image/png" medium="image" width="${width}" height="${height}"/>
-      <media:thumbnail url="${imageUrl}" width="${width}" height="${height}"/>
+      <title>${escapeXml(item.title)}</title>
+      <description><![CDATA[${itemHtml(item, feed)}]]></description>
+      <guid isPermaLink="false">${escapeXml(item.guid)}</guid>${item.category ? `
+      <category>${item.category}</category>` : ''}
+      <pubDate>${item.updated.toUTCString()}</pubDate>
+      <enclosure url="${imageAttr}" type="image/png" length="${item.imageLength}"/>
+      <media:content url="${imageAttr}" type="image/png" medium="image" width="${width}" height="${height}"/>
+      <media:thumbnail url="${imageAttr}" width="${width}" height="${height}"/>
     </item>`;
     })
     .join('\n');
@@ -60,12 +23,13 @@ export function generateRss(games: Game[], requestBaseUrl?: string): string {
   return `<?xml version="1.0" encoding="UTF-8"?>
 <rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:media="http://search.yahoo.com/mrss/">
   <channel>
-    <title>Sports Ticker Feed</title>
+    <title>${escapeXml(feed.title)}</title>
     <link>${escapeXml(baseUrl)}</link>
-    <description>Live sports scores ticker with high-resolution images for LED displays</description>
-    <lastBuildDate>${now}</lastBuildDate>
+    <description>${FEED_DESCRIPTION}</description>${feed.league ? `
+    <category>${feed.league}</category>` : ''}
+    <lastBuildDate>${feed.updated.toUTCString()}</lastBuildDate>
     <ttl>1</ttl>
-    <atom:link href="${escapeXml(baseUrl)}/rss.xml" rel="self" type="application/rss+xml"/>
+    <atom:link href="${escapeXml(`${baseUrl}${path}${feed.query}`)}" rel="self" type="application/rss+xml"/>
 ${items}
   </channel>
 </rss>`;
@@ -1,89 +1,529 @@
-import express from 'express';
+import express, { Request } from 'express';
+import * as crypto from 'crypto';
 import { config } from './config';
 import { ImageCache } from './utils/cache';
 import { LogoCache } from './utils/logoCache';
-import { MockProvider } from './dataProviders/mockProvider';
-import { ApiProvider } from './dataProviders/apiProvider';
 import { renderTickerImage } from './render/renderTicker';
+import { renderLeaderboardImage } from './render/renderLeaderboard';
+import { countWidePages, renderWidePage, renderWideStrip } from './render/renderWide';
+import { AnimationFormat, renderMarquee, renderRotation } from './render/animate';
+import { defaultProfile, findProfile, isDefaultProfile, listProfiles, profileQuery, resolveProfile } from './render/profiles';
+import { defaultTheme, fontWeight, isDefaultTheme, listThemes, resolveTheme, themeQuery } from './render/themes';
+import { buildSyndicationFeed, SyndicationFeed } from './rss/feedModel';
 import { generateRss } from './rss/generateRss';
+import { generateAtom } from './rss/generateAtom';
+import { generateJsonFeed } from './rss/generateJsonFeed';
 import { FeedAggregator } from './feed/feedAggregator';
-import { Game, DataProvider } from './types';
+import { entryToFeedItem, isGame } from './feed/feedItems';
+import { FeedStream, ItemDiff, diffById } from './feed/stream';
+import {
+  EntryFilter, filterEntries, filterQuery, listPresets, loadPresets, matchesFilter, matchesStandings, parseFilter,
+} from './feed/filters';
+import { EventLog, GameEvent, GameEventDetector } from './feed/events';
+import { createFeedProviders, createStandingsProviders } from './providers/registry';
+import { WebhookDispatcher } from './webhooks/dispatcher';
+import { SponsorManager, isSponsorPlacement } from './sponsors/sponsors';
+import { renderSponsorImage } from './render/renderSponsor';
+import { formatGamesBack, formatRecord, renderStandingsImage, standingsTitle } from './render/renderStandings';
+import { PlaylistEngine } from './playlist/playlist';
+import { AdminStore } from './admin/adminStore';
+import { GameHistory, HistoryStore } from './history/historyStore';
+import { formatStatus, possessionSide } from './utils/status';
+import { cacheLookups, metrics, renderSeconds } from './utils/metrics';
+import { configureLogging, createLogger, withLogContext } from './utils/logger';
+import {
+  DisplayProfile, FeedEntry, FeedItem, FeedResponse, Game, Sponsor, SponsorOutput, SportType, StandingsGroup, Theme,
+} from './types';
+
+// Before anything below can log: building the providers warns about unknown keys
+configureLogging(config.logging);
 
 // ── State ──────────────────────────────────────────────────────────────
+// One snapshot feeds every output: currentGames is the team-game subset
+// of currentEntries (which also carries PGA leaderboards for /api/feed)
+let currentEntries: FeedEntry[] = [];
 let currentGames: Game[] = [];
 let lastUpdate = new Date();
 let refreshCount = 0;
+// Sports whose provider is failing; their last good entries are still served
+let staleSports: SportType[] = [];
+// Conference / division tables, refreshed on their own slower interval
+let currentStandings: StandingsGroup[] = [];
+let standingsUpdate = new Date(0);
 
 const imageCache = new ImageCache(config.storage.imagesDir, config.cache.imageTtlMs);
 const logoCache = new LogoCache(config.storage.logosDir);
 
-function createProvider(): DataProvider {
-  if (config.dataProvider === 'api') {
-    return new ApiProvider();
+const adminStore = new AdminStore(config.admin);
+const feedAggregator = new FeedAggregator(createFeedProviders(config.feed.providers), adminStore, config.feed.resilience);
+const standingsProviders = createStandingsProviders(config.standings.providers);
+const feedStream = new FeedStream();
+const eventDetector = new GameEventDetector({ upsetMargin: config.events.upsetMargin });
+const eventLog = new EventLog(config.events.logSize);
+const webhooks = new WebhookDispatcher(config.webhooks);
+const sponsors = new SponsorManager(config.sponsors);
+const playlistEngine = new PlaylistEngine(config.playlist);
+const history = new HistoryStore(config.history);
+
+const log = createLogger('Server');
+const refreshLog = createLogger('Refresh');
+const eventLogger = createLogger('Event');
+const renderLog = createLogger('Render');
+const standingsLog = createLogger('Standings');
+const requestLog = createLogger('Request');
+
+// ── Metrics (/metrics) ─────────────────────────────────────────────────
+const refreshSeconds = metrics.histogram('ticker_refresh_duration_seconds', 'Time for a full data refresh');
+const refreshFailures = metrics.counter('ticker_refresh_failures_total', 'Data refreshes that threw');
+const httpRequests = metrics.counter('ticker_http_requests_total', 'HTTP requests by method, route and status');
+const httpSeconds = metrics.histogram('ticker_http_request_duration_seconds', 'HTTP response time by method and route');
+const feedUpdated = metrics.gauge('ticker_feed_last_update_timestamp_seconds', 'When the published snapshot was last refreshed');
+const feedEntries = metrics.gauge('ticker_feed_entries', 'Entries in the published snapshot');
+const providerUp = metrics.gauge('ticker_provider_up', '1 while a provider answers, 0 while it is failing');
+const providerStale = metrics.gauge('ticker_provider_stale', '1 while a provider\'s last good entries are served');
+const providerCircuitOpen = metrics.gauge('ticker_provider_circuit_open', '1 while a provider\'s circuit breaker is open');
+const providerLastSuccess = metrics.gauge(
+  'ticker_provider_last_success_timestamp_seconds',
+  'When a provider last answered (0 = never)'
+);
+const residentMemory = metrics.gauge('process_resident_memory_bytes', 'Resident memory size in bytes');
+
+metrics.onCollect(() => {
+  feedUpdated.set({}, lastUpdate.getTime() / 1000);
+  feedEntries.set({}, currentEntries.length);
+  for (const gauge of [providerUp, providerStale, providerCircuitOpen, providerLastSuccess]) gauge.reset();
+  for (const p of feedAggregator.getProviderStatus()) {
+    const labels = { sport: p.sport };
+    providerUp.set(labels, p.status === 'ok' ? 1 : 0);
+    providerStale.set(labels, p.status === 'stale' ? 1 : 0);
+    providerCircuitOpen.set(labels, p.circuit === 'open' ? 1 : 0);
+    providerLastSuccess.set(labels, p.lastSuccess ? Date.parse(p.lastSuccess) / 1000 : 0);
   }
-  return new MockProvider();
+  residentMemory.set({}, process.memoryUsage().rss);
+});
+
+function requestBaseUrl(req: Request): string {
+  const protocol = req.headers['x-forwarded-proto'] || req.protocol || 'https';
+  const host = req.headers['x-forwarded-host'] || req.headers.host || '';
+  return `${protocol}://${host}`;
+}
+
+// Size and look for a rendered output: ?profile= and ?theme=
+interface DisplayOptions {
+  profile: DisplayProfile;
+  theme: Theme;
+}
+
+function defaultDisplay(): DisplayOptions {
+  return { profile: defaultProfile(), theme: defaultTheme() };
+}
+
+// Display options for this request; answers 400 and returns null when the
+// profile or theme is unknown
+function requestDisplay(req: Request, res: express.Response): DisplayOptions | null {
+  const profile = resolveProfile(req.query.profile);
+  if (!profile) {
+    const names = listProfiles().map((p) => p.name).join(', ');
+    res.status(400).set('Content-Type', 'text/plain').send(`Unknown profile (available: ${names})`);
+    return null;
+  }
+  const theme = resolveTheme(req.query.theme);
+  if (!theme) {
+    res.status(400).set('Content-Type', 'text/plain').send(`Unknown theme (available: ${listThemes().join(', ')})`);
+    return null;
+  }
+  return { profile, theme };
+}
+
+// <link> tags for the theme's web font stylesheet, if any
+function fontLinks(theme: Theme): string {
+  if (!theme.fonts.cssUrl) return '';
+  const origin = new URL(theme.fonts.cssUrl).origin;
+  return `<link rel="preconnect" href="${origin}"/>\n<link href="${theme.fonts.cssUrl}" rel="stylesheet"/>`;
+}
+
+// The wide marquee outputs default to the `wide` profile rather than DISPLAY_PROFILE
+function requestWideDisplay(req: Request, res: express.Response): DisplayOptions | null {
+  const display = requestDisplay(req, res);
+  if (display && !req.query.profile) display.profile = findProfile('wide')!;
+  return display;
+}
+
+// League / team / state / preset filter for this request; answers 400 and
+// returns null when the query names something unknown
+function requestFilter(req: Request, res: express.Response): EntryFilter | null {
+  const parsed = parseFilter(req.query);
+  if ('error' in parsed) {
+    res.status(400).set('Content-Type', 'text/plain').send(parsed.error);
+    return null;
+  }
+  return parsed.filter;
+}
+
+// Carries a non-default profile/theme along to linked URLs
+function displayQuery(display: DisplayOptions, prefix: '?' | '&' = '&'): string {
+  const query = `${profileQuery(display.profile)}${themeQuery(display.theme)}`;
+  return query && prefix === '?' ? `?${query.slice(1)}` : query;
+}
+
+// Image cache key: the plain game id for the default profile and theme
+function imageKey(gameId: string, display: DisplayOptions): string {
+  const parts = [gameId];
+  if (!isDefaultProfile(display.profile)) parts.push(display.profile.name);
+  if (!isDefaultTheme(display.theme)) parts.push(display.theme.name);
+  return parts.join('@');
+}
+
+// Cache key for an image built from many entries; each filter gets its own
+// (hashed, since a filter key isn't safe in a file name)
+function filteredImageKey(name: string, display: DisplayOptions, filter: EntryFilter): string {
+  const key = imageKey(name, display);
+  return filter.key ? `${key}~${crypto.createHash('sha1').update(filter.key).digest('hex').slice(0, 12)}` : key;
+}
+
+// Changes with the game data or an edit to the theme file. Leaderboards
+// carry no timestamp, so they hash their content instead.
+function imageHash(entry: FeedEntry, theme: Theme): string {
+  const version = isGame(entry)
+    ? entry.updatedAt
+    : crypto.createHash('sha1').update(JSON.stringify(entry)).digest('hex');
+  return `${version}|${theme.name}:${theme.version}`;
+}
+
+function renderEntryImage(entry: FeedEntry, display: DisplayOptions): Promise<Buffer> {
+  return isGame(entry)
+    ? renderSeconds.time({ kind: 'game' }, () => renderTickerImage(entry, logoCache, display.profile, display.theme))
+    : renderSeconds.time({ kind: 'leaderboard' }, () => renderLeaderboardImage(entry, display.profile, display.theme));
+}
+
+// Cached PNG for a game or leaderboard; renders when missing or out of date.
+// refreshData() keeps the default display warm, others render on first use.
+async function entryImage(entry: FeedEntry, display: DisplayOptions): Promise<Buffer> {
+  const key = imageKey(entry.id, display);
+  const hash = imageHash(entry, display.theme);
+  const cached = imageCache.lookup(key, hash);
+  if (cached) return cached;
+  const buffer = await renderEntryImage(entry, display);
+  await imageCache.set(key, buffer, hash);
+  return buffer;
+}
+
+// Status state in the Game vocabulary, for playlist and preview badges
+function statusState(entry: FeedEntry): Game['status']['state'] {
+  if (isGame(entry)) return entry.status.state;
+  return entry.state === 'live' ? 'in_progress' : 'final';
+}
+
+function entryTitle(entry: FeedEntry): string {
+  return isGame(entry) ? `${entry.away.abbr} vs ${entry.home.abbr}` : entry.tournament;
+}
+
+// Sponsor tiles in the wide.html marquee are game-tile sized (380x240 stage px)
+function sponsorTileProfile(): DisplayProfile {
+  return { ...findProfile('strip')!, name: 'tile', label: 'Wide marquee tile', width: 380 };
+}
+
+// Cached sponsor frame; re-rendered when the sponsors file or theme changes
+async function sponsorImage(sponsor: Sponsor, display: DisplayOptions): Promise<Buffer> {
+  const key = imageKey(`sponsor-${sponsor.id}`, display);
+  const hash = `${sponsors.getVersion()}|${display.theme.name}:${display.theme.version}`;
+  const cached = imageCache.lookup(key, hash);
+  if (cached) return cached;
+  const buffer = await renderSeconds.time({ kind: 'sponsor' }, () =>
+    renderSponsorImage(sponsor, display.profile, display.theme)
+  );
+  await imageCache.set(key, buffer, hash);
+  return buffer;
+}
+
+// Cached standings image; re-rendered when the table or theme changes
+async function standingsImage(group: StandingsGroup, display: DisplayOptions): Promise<Buffer> {
+  const key = imageKey(`standings-${group.id}`, display);
+  const digest = crypto.createHash('sha1').update(JSON.stringify(group)).digest('hex');
+  const hash = `${digest}|${display.theme.name}:${display.theme.version}`;
+  const cached = imageCache.lookup(key, hash);
+  if (cached) return cached;
+  const buffer = await renderSeconds.time({ kind: 'standings' }, () =>
+    renderStandingsImage(group, display.profile, display.theme)
+  );
+  await imageCache.set(key, buffer, hash);
+  return buffer;
+}
+
+function sponsorImageUrl(base: string, sponsor: Sponsor, output: SponsorOutput, display: DisplayOptions): string {
+  return `${base}/api/sponsors/${encodeURIComponent(sponsor.id)}/image?ch=${output}${displayQuery(display)}`;
+}
+
+// `stale` on the JSON APIs while a provider is failing; absent when all are fresh
+function staleField(): { stale?: SportType[] } {
+  return staleSports.length > 0 ? { stale: staleSports } : {};
+}
+
+// Shape served by /api/games and the `games` stream channel (ticker.html)
+function toApiGame(g: Game, base: string) {
+  return {
+    id: g.id,
+    league: g.league,
+    leagueLabel: g.leagueLabel,
+    away: { abbr: g.away.abbr, name: g.away.name, color: g.away.color, record: g.away.record, logoUrl: g.away.logoUrl || '' },
+    home: { abbr: g.home.abbr, name: g.home.name, color: g.home.color, record: g.home.record, logoUrl: g.home.logoUrl || '' },
+    score: g.score,
+    status: g.status,
+    statusText: formatStatus(g, { separator: ' \u00B7 ' }),
+    possession: possessionSide(g),
+    // Stable image URL — same URL per game, no cache-busting params
+    imageUrl: `${base}/api/image?id=${encodeURIComponent(g.id)}`,
+  };
+}
+
+// An archived game for /api/history, with one point per score or status change
+function toHistoryGame(h: GameHistory) {
+  const g = h.game;
+  return {
+    id: g.id,
+    date: h.date,
+    league: g.league,
+    leagueLabel: g.leagueLabel,
+    startTime: g.startTime,
+    away: { abbr: g.away.abbr, name: g.away.name },
+    home: { abbr: g.home.abbr, name: g.home.name },
+    score: g.score,
+    status: g.status,
+    statusText: formatStatus(g, { separator: ' \u00B7 ' }),
+    final: g.status.state === 'final',
+    progression: h.progression.map((p) => ({
+      at: p.at,
+      score: p.game.score,
+      state: p.game.status.state,
+      period: p.game.status.period,
+      clock: p.game.status.clock,
+      statusText: formatStatus(p.game, { separator: ' \u00B7 ' }),
+    })),
+  };
 }
 
-const provider = createProvider();
-const feedAggregator = new FeedAggregator();
+// Push item-level changes and game events to /api/stream subscribers
+function publishChanges(prevEntries: FeedEntry[], prevGames: Game[], events: GameEvent[]): void {
+  if (feedStream.size === 0) return;
+  const updated = lastUpdate.toISOString();
+
+  // Diffs are per filter: a filtered display also loses games that leave its subset
+  const gamesDiffs = new Map<string, ItemDiff<Game> | null>();
+  feedStream.broadcast('games', (base, filter) => {
+    if (!gamesDiffs.has(filter.key)) {
+      gamesDiffs.set(filter.key, diffById(filterEntries(prevGames, filter), filterEntries(currentGames, filter)));
+    }
+    const diff = gamesDiffs.get(filter.key);
+    return diff ? { ...diff, upserted: diff.upserted.map((g) => toApiGame(g, base)), updated } : null;
+  });
+
+  const feedDiffs = new Map<string, ItemDiff<FeedItem> | null>();
+  feedStream.broadcast('feed', (_base, filter) => {
+    if (!feedDiffs.has(filter.key)) {
+      feedDiffs.set(filter.key, diffById(
+        filterEntries(prevEntries, filter).map(entryToFeedItem),
+        filterEntries(currentEntries, filter).map(entryToFeedItem)
+      ));
+    }
+    const diff = feedDiffs.get(filter.key);
+    return diff ? { ...diff, updated } : null;
+  });
+
+  if (events.length > 0) {
+    feedStream.broadcast('events', () => ({ events }));
+  }
+}
 
 // ── Data refresh logic ─────────────────────────────────────────────────
-async function refreshData(): Promise<void> {
+// Refreshes run one at a time (the interval and admin changes both trigger
+// them), so snapshots are always published in order
+let refreshQueue: Promise<void> = Promise.resolve();
+function refreshData(): Promise<void> {
+  refreshQueue = refreshQueue.then(runRefresh);
+  return refreshQueue;
+}
+
+// Every record logged during a cycle (providers included) carries its number
+function runRefresh(): Promise<void> {
+  return withLogContext({ refresh: refreshCount + 1 }, refreshCycle);
+}
+
+async function refreshCycle(): Promise<void> {
+  const start = process.hrtime.bigint();
   try {
-    const games = await provider.fetchGames();
+    if (Date.now() - standingsUpdate.getTime() >= config.standings.refreshIntervalMs) await refreshStandings();
+    const snapshot = await feedAggregator.refresh();
+    const games = snapshot.entries.filter(isGame);
+    const display = defaultDisplay();
     let regenerated = 0;
 
-    for (const game of games) {
-      const dataHash = game.updatedAt;
-      if (imageCache.isStale(game.id, dataHash)) {
-        const buffer = await renderTickerImage(game, logoCache);
-        await imageCache.set(game.id, buffer, dataHash);
+    for (const entry of snapshot.entries) {
+      const key = imageKey(entry.id, display);
+      const dataHash = imageHash(entry, display.theme);
+      if (imageCache.isStale(key, dataHash)) {
+        const buffer = await renderEntryImage(entry, display);
+        await imageCache.set(key, buffer, dataHash);
         regenerated++;
       }
     }
 
+    const prevEntries = currentEntries;
+    const prevGames = currentGames;
+    currentEntries = snapshot.entries;
     currentGames = games;
-    lastUpdate = new Date();
+    lastUpdate = snapshot.updatedAt;
+    staleSports = snapshot.stale;
     refreshCount++;
 
-    if (regenerated > 0) {
-      console.log(
-        `[Refresh #${refreshCount}] Regenerated ${regenerated}/${games.length} images at ${lastUpdate.toISOString()}`
-      );
-    } else {
-      console.log(
-        `[Refresh #${refreshCount}] ${games.length} games up-to-date at ${lastUpdate.toISOString()}`
-      );
+    // Hidden games are still followed, so un-hiding one doesn't replay it as new
+    const events = eventLog.append(eventDetector.update(snapshot.all.filter(isGame), lastUpdate));
+    for (const e of events) {
+      eventLogger.info(e.message, { type: e.type, seq: e.seq, gameId: e.gameId, league: e.league, score: e.score });
     }
+    publishChanges(prevEntries, prevGames, events);
+    webhooks.dispatch(events);
+    history.record(snapshot.all, lastUpdate, currentEntries).catch((err) => createLogger('History').error('Could not save', { err }));
+
+    refreshLog.info('Refresh complete', {
+      ...refreshSummary(prevEntries, prevGames),
+      durationMs: Math.round(Number(process.hrtime.bigint() - start) / 1e6),
+      regenerated,
+      events: events.length,
+    });
   } catch (err) {
-    console.error('[Refresh] Failed to refresh data:', err);
+    refreshFailures.inc();
+    refreshLog.error('Failed to refresh data', { err });
+  } finally {
+    refreshSeconds.observe({}, Number(process.hrtime.bigint() - start) / 1e9);
   }
 }
 
+// What a refresh published: counts, provider state and every game whose score
+// or status moved, so a reported wrong score can be traced to its refresh
+function refreshSummary(prevEntries: FeedEntry[], prevGames: Game[]) {
+  const before = new Map(prevGames.map((g) => [g.id, g]));
+  const moved = currentGames.filter((g) => {
+    const prev = before.get(g.id);
+    return !prev || JSON.stringify([prev.score, prev.status]) !== JSON.stringify([g.score, g.status]);
+  });
+  const current = new Set(currentEntries.map((e) => e.id));
+  return {
+    updated: lastUpdate.toISOString(),
+    entries: currentEntries.length,
+    games: currentGames.length,
+    stale: staleSports,
+    providers: feedAggregator.getProviderStatus().map((p) => ({ sport: p.sport, status: p.status, entries: p.entries })),
+    changed: moved.map((g) => ({
+      id: g.id,
+      score: `${g.away.abbr} ${g.score.away} - ${g.home.abbr} ${g.score.home}`,
+      status: formatStatus(g, { style: 'text' }),
+    })),
+    removed: prevEntries.filter((e) => !current.has(e.id)).map((e) => e.id),
+  };
+}
+
+// A league whose provider fails keeps its last tables
+async function refreshStandings(): Promise<void> {
+  const results = await Promise.allSettled(standingsProviders.map((p) => p.fetchStandings()));
+  const groups: StandingsGroup[] = [];
+  results.forEach((result, i) => {
+    const sport = standingsProviders[i].getSport();
+    if (result.status === 'fulfilled') {
+      groups.push(...result.value);
+    } else {
+      standingsLog.error('Provider failed', { sport, err: result.reason });
+      groups.push(...currentStandings.filter((g) => g.league === sport));
+    }
+  });
+  currentStandings = groups;
+  standingsUpdate = new Date();
+  standingsLog.info('Standings refreshed', { tables: groups.length, providers: standingsProviders.length });
+}
+
 // ── Lazy initialization (for serverless cold starts) ───────────────────
 let initialized = false;
 
 async function ensureInitialized(): Promise<void> {
   if (initialized) return;
-  console.log('Initializing RSS Sports Ticker...');
-  console.log(`  Provider:    ${config.dataProvider}`);
-  console.log(`  Resolution:  ${config.display.width}x${config.display.height} (${config.display.scaleFactor}x render)`);
-  console.log(`  Environment: ${config.isVercel ? 'Vercel (serverless)' : 'local'}`);
+  const { profile, theme } = defaultDisplay();
+  log.info('Initializing RSS Sports Ticker', {
+    provider: config.dataProvider,
+    sports: feedAggregator.getSports(),
+    profile: `${profile.name} ${profile.width}x${profile.height} (${profile.scaleFactor}x render)`,
+    theme: theme.name,
+    environment: config.isVercel ? 'vercel' : 'local',
+  });
   await imageCache.initialize();
   await logoCache.initialize();
+  try {
+    webhooks.loadFromFile(config.webhooks.file);
+  } catch (err) {
+    log.error('Could not load webhooks', { file: config.webhooks.file, err });
+  }
+  try {
+    sponsors.loadFromFile(config.sponsors.file);
+    sponsors.loadImpressions();
+  } catch (err) {
+    log.error('Could not load sponsors', { file: config.sponsors.file, err });
+  }
+  try {
+    adminStore.load();
+  } catch (err) {
+    log.error('Could not load admin', { file: config.admin.file, err });
+  }
+  try {
+    loadPresets(config.filters.presetsFile);
+  } catch (err) {
+    log.error('Could not load filter presets', { file: config.filters.presetsFile, err });
+  }
+  try {
+    playlistEngine.loadFromFile(config.playlist.file);
+  } catch (err) {
+    log.error('Could not load playlist', { file: config.playlist.file, err });
+  }
   await refreshData();
   initialized = true;
 }
 
 // ── Express app ────────────────────────────────────────────────────────
 const app = express();
+app.set('trust proxy', config.server.trustProxy);
+
+// Every request gets an id — the caller's X-Request-Id if it sent a sane
+// one — echoed in the response and carried by every record logged while
+// serving it, renders and provider calls included. Request count and
+// latency are tracked per route pattern (not per URL, to keep the series
+// bounded); requests no route matched are counted together.
+app.use((req, res, next) => {
+  const start = process.hrtime.bigint();
+  const sent = req.get('X-Request-Id');
+  const requestId = sent && /^[\w.-]{1,64}$/.test(sent) ? sent : crypto.randomUUID();
+  res.set('X-Request-Id', requestId);
+  res.on('finish', () => {
+    const route = req.route ? `${req.baseUrl}${req.route.path}` : '(unmatched)';
+    const labels = { method: req.method, route };
+    const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+    httpRequests.inc({ ...labels, status: String(res.statusCode) });
+    httpSeconds.observe(labels, seconds);
+    const fields = {
+      requestId, method: req.method, path: req.path, route, status: res.statusCode, durationMs: Math.round(seconds * 1000),
+    };
+    if (res.statusCode >= 500) requestLog.warn('Request failed', fields);
+    else requestLog.debug('Request', fields);
+  });
+  withLogContext({ requestId }, next);
+});
 
-// Init middleware — ensures data/images are ready before handling requests
+// Init middleware — ensures data/images are ready before handling requests.
+// Serverless instances have no background interval, so refresh on demand.
 app.use(async (_req, _res, next) => {
   try {
     await ensureInitialized();
+    if (config.isVercel && Date.now() - lastUpdate.getTime() > config.cache.refreshIntervalMs) {
+      await refreshData();
+    }
   } catch (err) {
-    console.error('[Init] Failed:', err);
+    log.error('Initialization failed', { err });
   }
   next();
 });
@@ -92,168 +532,568 @@ app.use(async (_req, _res, next) => {
 //  CORE API ENDPOINTS
 // ═══════════════════════════════════════════════════════════════════════
 
-// Lightweight JSON endpoint — ticker.html fetches this every 60s
+// Lightweight JSON endpoint — ticker.html polls this when /api/stream is down
 // Returns game data + stable image URLs (no cache-busting params)
 app.get('/api/games', (req, res) => {
-  const protocol = req.headers['x-forwarded-proto'] || req.protocol || 'https';
-  const host = req.headers['x-forwarded-host'] || req.headers.host || '';
-  const base = `${protocol}://${host}`;
-
-  const games = currentGames.map((g) => ({
-    id: g.id,
-    league: g.league,
-    away: { abbr: g.away.abbr, name: g.away.name, color: g.away.color, record: g.away.record, logoUrl: g.away.logoUrl || '' },
-    home: { abbr: g.home.abbr, name: g.home.name, color: g.home.color, record: g.home.record, logoUrl: g.home.logoUrl || '' },
-    score: g.score,
-    status: g.status,
-    // Stable image URL — same URL per game, no cache-busting params
-    imageUrl: `${base}/api/image?id=${encodeURIComponent(g.id)}`,
-  }));
+  const filter = requestFilter(req, res);
+  if (!filter) return;
+  const base = requestBaseUrl(req);
+  const games = filterEntries(currentGames, filter).map((g) => toApiGame(g, base));
 
   res.set({
     'Content-Type': 'application/json',
     'Cache-Control': 'public, max-age=20, s-maxage=20, stale-while-revalidate=60',
     'Access-Control-Allow-Origin': '*',
   });
-  res.json({ games, updated: lastUpdate.toISOString() });
+  res.json({ games, updated: lastUpdate.toISOString(), ...staleField() });
 });
 
-// On-demand image endpoint — returns cached PNG or renders fresh
+// On-demand image endpoint — returns cached PNG or renders fresh.
+// ?profile=<name> and ?theme=<name> select size and look (defaults:
+// DISPLAY_PROFILE, THEME)
 app.get('/api/image', async (req, res) => {
   const id = req.query.id as string;
   if (!id) {
     res.status(400).set('Content-Type', 'text/plain').send('Missing id parameter');
     return;
   }
+  const display = requestDisplay(req, res);
+  if (!display) return;
+
+  const entry = currentEntries.find((e) => e.id === id);
+  if (!entry) {
+    // Game dropped off the feed — serve the last image we rendered, if any
+    const cached = imageCache.get(imageKey(id, display));
+    if (cached) {
+      res.set({
+        'Content-Type': 'image/png',
+        'Cache-Control': 'public, max-age=30, s-maxage=30, stale-while-revalidate=60',
+      });
+      res.send(cached);
+      return;
+    }
+    res.status(404).set('Content-Type', 'text/plain').send('Game not found');
+    return;
+  }
 
-  // Try in-memory cache first (fast path)
-  const cached = imageCache.get(id);
-  if (cached) {
+  try {
+    const buffer = await entryImage(entry, display);
     res.set({
       'Content-Type': 'image/png',
       'Cache-Control': 'public, max-age=30, s-maxage=30, stale-while-revalidate=60',
     });
-    res.send(cached);
+    res.send(buffer);
+  } catch (err) {
+    renderLog.error('Failed to render image', { id, err });
+    res.status(500).set('Content-Type', 'text/plain').send('Failed to render image');
+  }
+});
+
+// Wide-format feed endpoint — /wide.html polls this when /api/stream is down
+app.get('/api/feed', (req, res) => {
+  const filter = requestFilter(req, res);
+  if (!filter) return;
+  res.set({
+    'Content-Type': 'application/json',
+    'Cache-Control': 'public, max-age=20, s-maxage=20, stale-while-revalidate=60',
+    'Access-Control-Allow-Origin': '*',
+  });
+  const body: FeedResponse = {
+    items: filterEntries(currentEntries, filter).map(entryToFeedItem),
+    updated: lastUpdate.toISOString(),
+    ...staleField(),
+  };
+  res.json(body);
+});
+
+// Game event log — scores, lead changes, starts, period ends, finals, upsets.
+// Filters: ?since=<seq>&type=scored,went_final&league=NBA&team=CHI&game=<id>&limit=50
+app.get('/api/events', (req, res) => {
+  const list = (v: unknown) => (v ? String(v).split(',').map((x) => x.trim()).filter(Boolean) : undefined);
+  const events = eventLog.query({
+    since: req.query.since !== undefined ? parseInt(String(req.query.since), 10) || 0 : undefined,
+    types: list(req.query.type),
+    leagues: list(req.query.league),
+    teams: list(req.query.team),
+    gameId: req.query.game ? String(req.query.game) : undefined,
+    limit: req.query.limit ? parseInt(String(req.query.limit), 10) || undefined : undefined,
+  });
+  res.set({
+    'Cache-Control': 'no-cache',
+    'Access-Control-Allow-Origin': '*',
+  });
+  res.json({ events, lastSeq: eventLog.lastSeq, updated: lastUpdate.toISOString() });
+});
+
+// Results archive for a day (?date=YYYY-MM-DD, default today in HISTORY_TIMEZONE):
+// each game's latest state and score progression. ?at=<ISO time> rewinds to
+// that moment and adds the lineup that was published then. ?league=, ?team=,
+// ?state= and ?preset= narrow the games; ?state=final gives the results.
+app.get('/api/history', async (req, res) => {
+  const filter = requestFilter(req, res);
+  if (!filter) return;
+  const at = req.query.at ? new Date(String(req.query.at)) : undefined;
+  if (at && Number.isNaN(at.getTime())) {
+    res.status(400).set('Content-Type', 'text/plain').send('at must be an ISO date-time');
+    return;
+  }
+  const date = req.query.date ? String(req.query.date) : history.dateOf(at || new Date());
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    res.status(400).set('Content-Type', 'text/plain').send('date must be YYYY-MM-DD');
     return;
   }
 
-  // Render on-demand — find the game and generate the image
-  const game = currentGames.find((g) => g.id === id);
-  if (!game) {
-    res.status(404).set('Content-Type', 'text/plain').send('Game not found');
+  try {
+    const games = (await history.games(date, at)).filter((h) => matchesFilter(h.game, filter));
+    const body: Record<string, unknown> = { date, games: games.map(toHistoryGame) };
+    if (at) {
+      const lineup = await history.lineupAt(at);
+      body.at = at.toISOString();
+      body.lineup = lineup && {
+        at: lineup.at,
+        entries: lineup.ids.map((id) => {
+          const game = lineup.games.get(id);
+          return game
+            ? { id, title: entryTitle(game), score: game.score, statusText: formatStatus(game, { separator: ' \u00B7 ' }) }
+            : { id };
+        }),
+      };
+    }
+    res.set({ 'Cache-Control': 'public, max-age=30, s-maxage=30', 'Access-Control-Allow-Origin': '*' });
+    res.json(body);
+  } catch (err) {
+    log.error('History query failed', { err });
+    res.status(500).set('Content-Type', 'text/plain').send('Could not read history');
+  }
+});
+
+// Conference / division standings with image URLs. ?league= and ?team= (or
+// a preset) narrow the tables; `marquee` tells wide.html when to show them.
+app.get('/api/standings', (req, res) => {
+  const display = requestDisplay(req, res);
+  if (!display) return;
+  const filter = requestFilter(req, res);
+  if (!filter) return;
+  const base = requestBaseUrl(req);
+  const groups = currentStandings
+    .filter((g) => matchesStandings(g, filter))
+    .map((g) => ({
+      id: g.id,
+      league: g.league,
+      conference: g.conference,
+      division: g.division,
+      title: standingsTitle(g),
+      rows: g.rows.map((r, i) => ({
+        rank: i + 1,
+        abbr: r.team.abbr,
+        name: r.team.name,
+        color: r.team.color,
+        logoUrl: r.team.logoUrl || '',
+        record: formatRecord(r),
+        gamesBack: formatGamesBack(r.gamesBack),
+        streak: r.streak,
+      })),
+      imageUrl: `${base}/api/standings/${encodeURIComponent(g.id)}/image${displayQuery(display, '?')}`,
+    }));
+  res.set({ 'Cache-Control': 'public, max-age=60, s-maxage=60', 'Access-Control-Allow-Origin': '*' });
+  res.json({ groups, marquee: config.standings.marquee, updated: standingsUpdate.toISOString() });
+});
+
+app.get('/api/standings/:id/image', async (req, res) => {
+  const display = requestDisplay(req, res);
+  if (!display) return;
+  const group = currentStandings.find((g) => g.id === req.params.id);
+  if (!group) {
+    res.status(404).set('Content-Type', 'text/plain').send('Standings not found');
     return;
   }
+  try {
+    const buffer = await standingsImage(group, display);
+    res.set({ 'Content-Type': 'image/png', 'Cache-Control': 'public, max-age=300, s-maxage=300' });
+    res.send(buffer);
+  } catch (err) {
+    renderLog.error('Failed to render standings', { id: group.id, err });
+    res.status(500).set('Content-Type', 'text/plain').send('Failed to render image');
+  }
+});
+
+// Named filter presets for ?preset=
+app.get('/api/presets', (_req, res) => {
+  res.json({ presets: listPresets() });
+});
+
+// Webhook subscriptions (secrets omitted) and the recent delivery log.
+// Filter deliveries with ?subscription=<id>. Admin only: for Slack-style
+// incoming webhooks the URL itself is the secret.
+app.get('/api/webhooks', requireAdmin, (_req, res) => {
+  res.json({ subscriptions: webhooks.listSubscriptions() });
+});
+
+app.get('/api/webhooks/deliveries', requireAdmin, (req, res) => {
+  const subscription = req.query.subscription ? String(req.query.subscription) : undefined;
+  res.set('Cache-Control', 'no-cache');
+  res.json({ deliveries: webhooks.listDeliveries(subscription) });
+});
+
+// Sponsors and whether each can take a slot right now
+app.get('/api/sponsors', (_req, res) => {
+  const now = Date.now();
+  const activeIds = new Set(
+    (['ticker', 'playlist', 'rss', 'wide'] as SponsorOutput[]).flatMap((o) => sponsors.eligible(o, now).map((s) => s.id))
+  );
+  res.set('Cache-Control', 'no-cache');
+  res.json({
+    every: sponsors.getEvery(),
+    sponsors: sponsors.list().map(({ image, images, logo, ...rest }) => ({
+      ...rest,
+      creative: !!(image || images),
+      active: activeIds.has(rest.id),
+    })),
+  });
+});
+
+// Impressions per sponsor for partner reports (admin only); ?from= / ?to=
+// (YYYY-MM-DD) limit the totals to those days
+app.get('/api/sponsors/report', requireAdmin, (req, res) => {
+  const from = req.query.from ? String(req.query.from) : undefined;
+  const to = req.query.to ? String(req.query.to) : undefined;
+  res.set('Cache-Control', 'no-cache');
+  res.json({ from, to, sponsors: sponsors.report(from, to), generated: new Date().toISOString() });
+});
+
+// Slot sequence for the wide.html marquee: one sponsor tile after every
+// `every` tiles, cycling through `slots`
+app.get('/api/sponsors/marquee', (req, res) => {
+  const display = requestDisplay(req, res);
+  if (!display) return;
+  const base = requestBaseUrl(req);
+  res.set({ 'Cache-Control': 'no-cache', 'Access-Control-Allow-Origin': '*' });
+  res.json({
+    every: sponsors.getEvery(),
+    slots: sponsors.cycle('wide', refreshCount).map((s) => ({
+      id: s.id,
+      name: s.name,
+      imageUrl: `${base}/api/sponsors/${encodeURIComponent(s.id)}/image?tile=1${themeQuery(display.theme)}`,
+    })),
+  });
+});
+
+// Sponsor frame at the requested profile/theme (?tile=1: wide.html tile).
+// ?ch=playlist|rss counts an impression for that output.
+app.get('/api/sponsors/:id/image', async (req, res) => {
+  const sponsor = sponsors.find(req.params.id);
+  if (!sponsor) {
+    res.status(404).set('Content-Type', 'text/plain').send('Sponsor not found');
+    return;
+  }
+  const display = requestDisplay(req, res);
+  if (!display) return;
+  if (req.query.tile) display.profile = sponsorTileProfile();
 
   try {
-    const buffer = await renderTickerImage(game, logoCache);
-    await imageCache.set(game.id, buffer, game.updatedAt);
+    const buffer = await sponsorImage(sponsor, display);
+    const ch = String(req.query.ch || '');
+    if (ch === 'playlist' || ch === 'rss') sponsors.recordImpression(sponsor.id, ch);
     res.set({
       'Content-Type': 'image/png',
-      'Cache-Control': 'public, max-age=30, s-maxage=30, stale-while-revalidate=60',
+      'Cache-Control': ch ? 'no-cache' : 'public, max-age=300',
     });
     res.send(buffer);
   } catch (err) {
-    console.error(`[Image] Failed to render ${id}:`, err);
+    renderLog.error('Failed to render sponsor', { id: sponsor.id, err });
     res.status(500).set('Content-Type', 'text/plain').send('Failed to render image');
   }
 });
 
-// Wide-format feed endpoint — /wide.html fetches this every 60s
-app.get('/api/feed', async (_req, res) => {
+// Last impression report per client address, oldest first
+const MAX_REPORTERS = 1000;
+const sponsorReports = new Map<string, number>();
+
+// wide.html reports the sponsor tiles that scrolled past, once per loop.
+// The endpoint is open, so a report only counts sponsors in the current
+// marquee cycle, no more of them than one loop of the feed has slots, and
+// at most one report per client every `reportIntervalMs`.
+app.post('/api/sponsors/impressions', express.json({ limit: '16kb' }), (req, res) => {
+  const ids: unknown = req.body?.ids;
+  if (!Array.isArray(ids)) {
+    res.status(400).set('Content-Type', 'text/plain').send('Expected { "ids": [...] }');
+    return;
+  }
+  const now = Date.now();
+  const client = req.ip || '';
+  const last = sponsorReports.get(client);
+  if (last !== undefined && now - last < config.sponsors.reportIntervalMs) {
+    res.set('Retry-After', String(Math.ceil((last + config.sponsors.reportIntervalMs - now) / 1000)));
+    res.status(429).set('Content-Type', 'text/plain').send('Too many reports');
+    return;
+  }
+  sponsorReports.delete(client);
+  sponsorReports.set(client, now);
+  if (sponsorReports.size > MAX_REPORTERS) sponsorReports.delete(sponsorReports.keys().next().value!);
+
+  const cycle = new Set(sponsors.cycle('wide').map((s) => s.id));
+  const every = sponsors.getEvery();
+  const slots = every > 0 ? Math.floor(currentEntries.length / every) : 0;
+  const counted = ids.map(String).filter((id) => cycle.has(id)).slice(0, slots);
+  for (const id of counted) sponsors.recordImpression(id, 'wide');
+  res.status(204).end();
+});
+
+// Live push channel — ticker.html subscribes to `games`, wide.html to `feed`,
+// downstream systems can listen to `events` (new GameEvents per refresh).
+// Each event carries { upserted, removed, order, updated }; the first event
+// after connecting is the full list. ?league=, ?team=, ?state= and ?preset=
+// narrow `games` and `feed` as on /api/games. Serverless hosts can't hold
+// the connection open, so they answer 204 and the pages keep polling.
+app.get('/api/stream', (req, res) => {
+  if (config.isVercel) {
+    res.status(204).end();
+    return;
+  }
+  const filter = requestFilter(req, res);
+  if (!filter) return;
+
+  const requested = String(req.query.channel || 'games,feed,events').split(',');
+  const channels = requested.filter((c) => c === 'games' || c === 'feed' || c === 'events');
+  const base = requestBaseUrl(req);
+  const client = feedStream.addClient(res, channels, base, filter);
+  const updated = lastUpdate.toISOString();
+
+  const order = (list: { id: string }[]) => list.map((item) => item.id);
+  const games = filterEntries(currentGames, filter);
+  const entries = filterEntries(currentEntries, filter);
+
+  feedStream.send(client, 'games', {
+    upserted: games.map((g) => toApiGame(g, base)),
+    removed: [],
+    order: order(games),
+    updated,
+  });
+  feedStream.send(client, 'feed', {
+    upserted: entries.map(entryToFeedItem),
+    removed: [],
+    order: order(entries),
+    updated,
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════
+//  ADMIN API — manual games, provider overrides, hidden and pinned items
+//
+//  Every route needs `Authorization: Bearer <ADMIN_TOKEN>`; without
+//  ADMIN_TOKEN the admin API is off. Changes are saved, then a refresh
+//  publishes them to every output right away.
+// ═══════════════════════════════════════════════════════════════════════
+function requireAdmin(req: Request, res: express.Response, next: express.NextFunction): void {
+  if (!config.admin.token) {
+    res.status(503).json({ error: 'Admin API disabled (set ADMIN_TOKEN)' });
+    return;
+  }
+  const header = req.headers.authorization || '';
+  const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+  const expected = crypto.createHash('sha256').update(config.admin.token).digest();
+  const given = crypto.createHash('sha256').update(token).digest();
+  if (!crypto.timingSafeEqual(expected, given)) {
+    res.status(401).set('WWW-Authenticate', 'Bearer').json({ error: 'Unauthorized' });
+    return;
+  }
+  next();
+}
+
+app.use('/api/admin', requireAdmin, express.json({ limit: '32kb' }));
+
+// Save, republish and answer; validation problems are 400s
+async function adminChange<T>(
+  res: express.Response,
+  change: () => Promise<T | { error: string } | null>,
+  status = 200
+): Promise<void> {
   try {
-    const data = await feedAggregator.getItems();
-    res.set({
-      'Content-Type': 'application/json',
-      'Cache-Control': 'public, max-age=20, s-maxage=20, stale-while-revalidate=60',
-      'Access-Control-Allow-Origin': '*',
-    });
-    res.json(data);
+    const result = await change();
+    if (result === null) {
+      res.status(404).json({ error: 'Not found' });
+      return;
+    }
+    if (typeof result === 'object' && 'error' in (result as object)) {
+      res.status(400).json(result);
+      return;
+    }
+    await refreshData();
+    if (result === true) res.status(204).end();
+    else res.status(status).json(result);
   } catch (err) {
-    console.error('[/api/feed] Error:', err);
-    res.status(500).json({ error: 'Failed to fetch feed' });
+    log.error('Admin change failed', { err });
+    res.status(500).json({ error: 'Could not save change' });
+  }
+}
+
+app.get('/api/admin/games', (_req, res) => {
+  res.json({ games: adminStore.listGames() });
+});
+
+app.get('/api/admin/games/:id', (req, res) => {
+  const game = adminStore.getGame(req.params.id);
+  if (!game) {
+    res.status(404).json({ error: 'Not found' });
+    return;
   }
+  res.json(game);
+});
+
+app.post('/api/admin/games', (req, res) => adminChange(res, () => adminStore.createGame(req.body), 201));
+
+app.patch('/api/admin/games/:id', (req, res) => adminChange(res, () => adminStore.updateGame(req.params.id, req.body)));
+
+app.delete('/api/admin/games/:id', (req, res) =>
+  adminChange(res, async () => (await adminStore.deleteGame(req.params.id)) || null)
+);
+
+// Overrides, each with whether its game is in the current snapshot
+app.get('/api/admin/overrides', (_req, res) => {
+  const overrides = adminStore.listOverrides().map((o) => ({
+    ...o,
+    matched: currentGames.some((g) => g.id === o.id),
+  }));
+  res.json({ overrides });
+});
+
+app.put('/api/admin/overrides/:id', (req, res) =>
+  adminChange(res, () => adminStore.setOverride(req.params.id, req.body))
+);
+
+app.delete('/api/admin/overrides/:id', (req, res) =>
+  adminChange(res, async () => (await adminStore.deleteOverride(req.params.id)) || null)
+);
+
+// Every entry of the last refresh from both pipelines (provider and manual),
+// hidden ones included, with the operator flags the console shows
+app.get('/api/admin/entries', (_req, res) => {
+  const overridden = new Set(adminStore.listOverrides().map((o) => o.id));
+  const entries = adminStore.listEntries().map((e) => {
+    const { hidden, pinned } = adminStore.flagsFor(e.id);
+    return {
+      id: e.id,
+      type: isGame(e) ? 'game' : 'pga',
+      league: isGame(e) ? e.leagueLabel || e.league : e.sport,
+      title: entryTitle(e),
+      state: statusState(e),
+      statusText: isGame(e) ? formatStatus(e, { separator: ' \u00B7 ' }) : e.statusText,
+      source: adminStore.getGame(e.id) ? 'manual' : 'provider',
+      overridden: overridden.has(e.id),
+      hidden,
+      pinned,
+      ...(isGame(e) ? { away: e.away.abbr, home: e.home.abbr, score: e.score, status: e.status } : {}),
+      // Changes whenever the rendered image does; the console busts its previews with it
+      version: crypto.createHash('sha1').update(imageHash(e, defaultTheme())).digest('hex').slice(0, 12),
+    };
+  });
+  res.json({ entries, updated: lastUpdate.toISOString(), refreshCount });
+});
+
+// { "hidden": true } keeps an entry off every output; { "pinned": true } puts it first
+app.patch('/api/admin/entries/:id', (req, res) =>
+  adminChange(res, () => adminStore.setFlags(req.params.id, req.body))
+);
+
+// Force a provider refresh now instead of waiting for the interval
+app.post('/api/admin/refresh', async (_req, res) => {
+  await refreshData();
+  res.json({ refreshCount, updated: lastUpdate.toISOString(), entriesCount: currentEntries.length });
 });
 
 // ═══════════════════════════════════════════════════════════════════════
 //  NOVASTAR TICKER PAGE — CSS-rendered broadcast scoreboard
 //
-//  Loads ONCE, fetches /api/games every 60s, renders with CSS locally.
+//  Loads ONCE, live diffs via /api/stream (polls /api/games every 60s
+//  while the stream is down), renders with CSS locally.
 //  Rotates every 8s with crossfade. Animated LIVE pulse.
 //  ~1 JSON request/min + logo images cached by browser.
 // ═══════════════════════════════════════════════════════════════════════
-app.get('/ticker.html', (_req, res) => {
-  const W = config.display.width;   // 384
-  const H = config.display.height;  // 192
-  const ROW_H = 80;
-  const STATUS_H = H - ROW_H * 2 - 1; // 31
-  const SCORE_W = 114;
-  const INFO_W = W - SCORE_W;       // 270
-  const LOGO_SZ = 70;
+app.get('/ticker.html', (req, res) => {
+  const display = requestDisplay(req, res);
+  if (!display) return;
+  const filter = requestFilter(req, res);
+  if (!filter) return;
+  const { profile, theme } = display;
+  const { width: W, height: H, fonts: F } = profile;
+  const C = theme.colors;
+  const weight = (role: keyof DisplayProfile['fonts'], fallback: string) => fontWeight(theme, role, fallback);
+  const ROW_H = profile.ticker.teamRowHeight;
+  const STATUS_H = H - ROW_H * 2 - 1;
+  const SCORE_W = profile.ticker.scorePanelWidth;
+  const INFO_W = W - SCORE_W;
+  const LOGO_SZ = profile.ticker.logoSize;
+  // Fixed gaps were tuned on the panel profile's 80px rows
+  const px = (n: number) => Math.max(1, Math.round((n * ROW_H) / 80));
 
   const html = `<!DOCTYPE html>
 <html>
 <head>
 <meta charset="UTF-8"/>
 <meta name="viewport" content="width=${W},height=${H},initial-scale=1,user-scalable=no"/>
-<link rel="preconnect" href="https://fonts.googleapis.com"/>
-<link href="https://fonts.googleapis.com/css2?family=Inter:wght@400;700;800;900&display=swap" rel="stylesheet"/>
+${fontLinks(theme)}
 <style>
 *{margin:0;padding:0;box-sizing:border-box}
-html,body{width:${W}px;height:${H}px;overflow:hidden;background:#000;
-  font-family:'Inter',-apple-system,'Segoe UI',Roboto,Arial,sans-serif}
+html,body{width:${W}px;height:${H}px;overflow:hidden;background:${C.background};
+  font-family:${theme.fonts.family},-apple-system,'Segoe UI',Roboto,sans-serif}
 
 /* ── Game slides ── */
 .game{position:absolute;top:0;left:0;width:${W}px;height:${H}px;
   opacity:0;transition:opacity 0.8s ease;pointer-events:none}
 .game.active{opacity:1}
+.game::after{content:'';position:absolute;inset:0;pointer-events:none;
+  border:${theme.border.width}px solid ${theme.border.color}}
 
 /* ── Team row ── */
 .row{display:flex;width:${W}px;height:${ROW_H}px;position:relative}
 .row-info{display:flex;align-items:center;width:${INFO_W}px;height:${ROW_H}px;
-  padding-left:6px;position:relative;overflow:hidden}
+  padding-left:${profile.ticker.logoPadding}px;position:relative;overflow:hidden}
 .row-info::after{content:'';position:absolute;inset:0;
   background:linear-gradient(180deg,rgba(255,255,255,0.10) 0%,transparent 50%,rgba(0,0,0,0.22) 100%);
   pointer-events:none}
 
 /* ── Score panel ── */
-.score-panel{width:${SCORE_W}px;height:${ROW_H}px;background:#141414;
-  display:flex;align-items:center;justify-content:center;border-left:2px solid #000}
-.score-val{font-size:46px;font-weight:900;color:#fff;
-  text-shadow:1px 2px 4px rgba(0,0,0,0.7)}
-.score-dash{font-size:26px;font-weight:700;color:#444}
+.score-panel{width:${SCORE_W}px;height:${ROW_H}px;background:${C.scorePanelBg};
+  display:flex;align-items:center;justify-content:center;border-left:${px(2)}px solid ${C.background}}
+.score-val{font-size:${F.score.size}px;font-weight:${weight('score', '900')};color:${C.text};
+  text-shadow:${px(1)}px ${px(2)}px ${px(4)}px rgba(0,0,0,0.7)}
+.score-dash{font-size:${Math.round(F.score.size * 0.55)}px;font-weight:700;color:${C.muted}}
 
 /* ── Logo ── */
 .logo-wrap{width:${LOGO_SZ}px;height:${LOGO_SZ}px;min-width:${LOGO_SZ}px;
   border-radius:50%;overflow:hidden;position:relative;z-index:1;
   background:rgba(0,0,0,0.25);display:flex;align-items:center;justify-content:center}
 .logo-wrap img{width:100%;height:100%;object-fit:cover;display:block}
-.logo-fb{font-size:25px;font-weight:900;color:#fff;display:none}
+.logo-fb{font-size:${Math.round(LOGO_SZ * 0.36)}px;font-weight:900;color:${C.teamText};display:none}
 .logo-wrap.no-img .logo-fb{display:flex}
 .logo-wrap.no-img img{display:none}
-.logo-wrap.no-img{border:2px solid rgba(255,255,255,0.25);background:rgba(0,0,0,0.35)}
+.logo-wrap.no-img{border:${px(2)}px solid rgba(255,255,255,0.25);background:rgba(0,0,0,0.35)}
 
 /* ── Team text ── */
-.t-text{margin-left:10px;position:relative;z-index:1;overflow:hidden}
-.t-abbr{font-size:28px;font-weight:900;color:#fff;line-height:1.1;
+.t-text{margin-left:${px(10)}px;position:relative;z-index:1;overflow:hidden}
+.t-abbr{font-size:${F.teamAbbr.size}px;font-weight:${weight('teamAbbr', '900')};color:${C.teamText};line-height:1.1;
   text-shadow:0 1px 2px rgba(0,0,0,0.4)}
-.t-rec{font-size:13px;font-weight:400;color:rgba(255,255,255,0.55);margin-top:1px}
+.t-rec{font-size:${F.record.size}px;font-weight:${weight('record', '400')};color:${C.recordText};margin-top:1px}
+.poss{display:inline-block;width:${px(8)}px;height:${px(8)}px;border-radius:50%;background:${C.possession};
+  margin-left:${px(7)}px;vertical-align:middle}
+.poss.hidden{display:none}
 
 /* ── Divider ── */
-.divider{width:${W}px;height:1px;background:#000}
+.divider{width:${W}px;height:1px;background:${C.background}}
 
 /* ── Winner accent bar ── */
-.winner-bar{position:absolute;bottom:0;right:0;width:${SCORE_W - 40}px;height:3px;
-  margin-right:20px;border-radius:1px}
+.winner-bar{position:absolute;bottom:0;right:0;width:${SCORE_W - px(40)}px;height:${px(3)}px;
+  margin-right:${px(20)}px;border-radius:1px}
 
 /* ── Status bar ── */
 .status{display:flex;align-items:center;width:${W}px;height:${STATUS_H}px;
-  background:#0c0c0c;border-top:1px solid #333;padding:0 8px}
-.s-league{font-size:12px;font-weight:700;color:#888;min-width:36px}
-.s-clock{flex:1;text-align:center;font-size:14px;font-weight:700;color:#fff}
-.s-clock.final{color:#999}
-.s-clock.pre{color:#4499ff}
-.s-live{display:flex;align-items:center;gap:5px;font-size:12px;font-weight:700;color:#ff3333;min-width:50px;justify-content:flex-end}
-.s-live-dot{width:8px;height:8px;border-radius:50%;background:#ff3333;
+  background:${C.statusBarBg};border-top:1px solid ${C.divider};padding:0 ${px(8)}px}
+.s-league{font-size:${F.league.size}px;font-weight:${weight('league', '700')};color:${C.dimText};min-width:${px(36)}px}
+.s-clock{flex:1;text-align:center;font-size:${F.status.size}px;font-weight:${weight('status', '700')};color:${C.text}}
+.s-clock.final{color:${C.final}}
+.s-clock.pre{color:${C.pre}}
+.s-live{display:flex;align-items:center;gap:${px(5)}px;font-size:${F.liveIndicator.size}px;font-weight:${weight('liveIndicator', '700')};color:${C.live};min-width:${px(50)}px;justify-content:flex-end}
+.s-live-dot{width:${px(8)}px;height:${px(8)}px;border-radius:50%;background:${C.live};
   animation:pulse 2s ease-in-out infinite}
 .s-live.hidden{visibility:hidden}
 @keyframes pulse{0%,100%{opacity:1}50%{opacity:0.3}}
@@ -264,11 +1104,14 @@ html,body{width:${W}px;height:${H}px;overflow:hidden;background:#000;
 <script>
 (function(){
 var ct=document.getElementById('ct');
-var games=[],slides=[],cur=0,timer=null;
+var games=[],shown=[],slides=[],cur=0,timer=null;
+// Schedule from /playlist.json: game ids in play order with dwell times.
+// Until it loads, every game plays for 8s in feed order.
+var plan=null;
 
 function fetchGames(){
   var x=new XMLHttpRequest();
-  x.open('GET','/api/games',true);
+  x.open('GET','/api/games${filterQuery(filter, '?')}',true);
   x.timeout=15000;
   x.onload=function(){
     if(x.status!==200)return;
@@ -280,35 +1123,71 @@ function fetchGames(){
   x.send();
 }
 
+function fetchPlan(){
+  var x=new XMLHttpRequest();
+  x.open('GET','/playlist.json${filterQuery(filter, '?')}',true);
+  x.timeout=15000;
+  x.onload=function(){
+    if(x.status!==200)return;
+    try{
+      var d=JSON.parse(x.responseText);
+      var np=[];
+      for(var i=0;i<d.games.length;i++){
+        if(d.games[i].type==='game')np.push({id:d.games[i].id,dwellMs:d.games[i].dwellMs});
+      }
+      plan=np;
+      update(games);
+    }catch(e){}
+  };
+  x.send();
+}
+
+function scheduled(list){
+  if(!plan)return list;
+  var byId={},out=[],i;
+  for(i=0;i<list.length;i++)byId[list[i].id]=list[i];
+  for(i=0;i<plan.length;i++)if(byId[plan[i].id])out.push(byId[plan[i].id]);
+  return out;
+}
+
+function dwell(i){
+  if(plan&&shown[i]){
+    for(var j=0;j<plan.length;j++)if(plan[j].id===shown[i].id)return plan[j].dwellMs;
+  }
+  return 8000;
+}
+
 function update(ng){
-  var changed=ng.length!==games.length;
+  games=ng;
+  var ns=scheduled(ng);
+  var changed=ns.length!==shown.length;
   if(!changed){
-    for(var i=0;i<ng.length;i++){
-      if(ng[i].id!==games[i].id){changed=true;break;}
+    for(var i=0;i<ns.length;i++){
+      if(ns[i].id!==shown[i].id){changed=true;break;}
     }
   }
-  games=ng;
+  shown=ns;
   if(changed){rebuild();}
   else{refreshData();}
 }
 
 function rebuild(){
-  if(timer){clearInterval(timer);timer=null;}
+  if(timer){clearTimeout(timer);timer=null;}
   cur=0;
   ct.innerHTML='';
   slides=[];
-  for(var i=0;i<games.length;i++){
-    var el=buildGame(games[i]);
+  for(var i=0;i<shown.length;i++){
+    var el=buildGame(shown[i]);
     if(i===0)el.className='game active';
     ct.appendChild(el);
     slides.push(el);
   }
-  if(games.length>1)timer=setInterval(rotate,8000);
+  if(shown.length>1)timer=setTimeout(rotate,dwell(0));
 }
 
 function refreshData(){
-  for(var i=0;i<games.length;i++){
-    var g=games[i];
+  for(var i=0;i<shown.length;i++){
+    var g=shown[i];
     var s=slides[i];
     if(!s)continue;
     // Update scores
@@ -325,19 +1204,21 @@ function refreshData(){
     // Update status
     var cl=s.querySelector('.s-clock');
     var lv=s.querySelector('.s-live');
+    cl.textContent=g.statusText;
     if(g.status.state==='in_progress'){
-      cl.textContent='Q'+(g.status.period||'?')+' \\u00B7 '+(g.status.clock||'');
       cl.className='s-clock';
       lv.className='s-live';
     }else if(g.status.state==='final'){
-      cl.textContent='FINAL';
       cl.className='s-clock final';
       lv.className='s-live hidden';
     }else{
-      cl.textContent=g.status.detail||'UPCOMING';
       cl.className='s-clock pre';
       lv.className='s-live hidden';
     }
+    // Update possession markers (away, home)
+    var ps=s.querySelectorAll('.poss');
+    if(ps[0])ps[0].className='poss'+(g.possession==='away'?'':' hidden');
+    if(ps[1])ps[1].className='poss'+(g.possession==='home'?'':' hidden');
     // Update winner bars
     var wb=s.querySelectorAll('.winner-bar');
     if(g.status.state==='final'){
@@ -361,22 +1242,17 @@ function buildGame(g){
   var awayWin=isFinal&&g.score.away>g.score.home;
   var homeWin=isFinal&&g.score.home>g.score.away;
 
-  // Status text
-  var clockText='',clockClass='s-clock';
-  if(isLive){
-    clockText='Q'+(g.status.period||'?')+' \\u00B7 '+(g.status.clock||'');
-  }else if(isFinal){
-    clockText='FINAL';clockClass='s-clock final';
-  }else{
-    clockText=g.status.detail||'UPCOMING';clockClass='s-clock pre';
-  }
+  // Status text (server-formatted, sport-aware)
+  var clockText=g.statusText,clockClass='s-clock';
+  if(isFinal)clockClass='s-clock final';
+  else if(isPre)clockClass='s-clock pre';
 
   d.innerHTML=
-    teamRow(g.away,isPre?'\\u2013':g.score.away,isPre,awayWin)+
+    teamRow(g.away,isPre?'\\u2013':g.score.away,isPre,awayWin,g.possession==='away')+
     '<div class="divider"></div>'+
-    teamRow(g.home,isPre?'\\u2013':g.score.home,isPre,homeWin)+
+    teamRow(g.home,isPre?'\\u2013':g.score.home,isPre,homeWin,g.possession==='home')+
     '<div class="status">'+
-      '<span class="s-league">'+esc(g.league)+'</span>'+
+      '<span class="s-league">'+esc(g.leagueLabel||g.league)+'</span>'+
       '<span class="'+clockClass+'">'+esc(clockText)+'</span>'+
       '<span class="s-live'+(isLive?'':' hidden')+'"><span class="s-live-dot"></span>LIVE</span>'+
     '</div>';
@@ -384,13 +1260,13 @@ function buildGame(g){
   return d;
 }
 
-function teamRow(team,score,isPre,isWinner){
+function teamRow(team,score,isPre,isWinner,hasBall){
   var scoreClass=isPre?'score-val score-dash':'score-val';
   return '<div class="row">'+
     '<div class="row-info" style="background:'+team.color+'">'+
       logoHtml(team)+
       '<div class="t-text">'+
-        '<div class="t-abbr">'+esc(team.abbr)+'</div>'+
+        '<div class="t-abbr">'+esc(team.abbr)+'<span class="poss'+(hasBall?'':' hidden')+'"></span></div>'+
         (team.record?'<div class="t-rec">'+esc(team.record)+'</div>':'')+
       '</div>'+
     '</div>'+
@@ -419,10 +1295,40 @@ function rotate(){
   slides[cur].className='game';
   cur=(cur+1)%slides.length;
   slides[cur].className='game active';
+  timer=setTimeout(rotate,dwell(cur));
+}
+
+function applyDiff(list,d){
+  var byId={},out=[],i;
+  for(i=0;i<list.length;i++)byId[list[i].id]=list[i];
+  for(i=0;i<d.upserted.length;i++)byId[d.upserted[i].id]=d.upserted[i];
+  for(i=0;i<d.order.length;i++)if(byId[d.order[i]])out.push(byId[d.order[i]]);
+  return out;
 }
 
-fetchGames();
-setInterval(fetchGames,60000);
+// Live diffs over SSE; poll /api/games while the stream is down
+var es=null,poll=null;
+function startPolling(){if(!poll){fetchGames();poll=setInterval(fetchGames,60000);}}
+function stopPolling(){if(poll){clearInterval(poll);poll=null;}}
+function connect(){
+  if(!window.EventSource){startPolling();return;}
+  es=new EventSource('/api/stream?channel=games${filterQuery(filter)}');
+  es.addEventListener('games',function(e){
+    stopPolling();
+    try{
+      var ng=applyDiff(games,JSON.parse(e.data));
+      if(ng.length>0)update(ng);
+    }catch(err){}
+  });
+  es.onerror=function(){
+    es.close();es=null;
+    startPolling();
+    setTimeout(connect,30000);
+  };
+}
+connect();
+fetchPlan();
+setInterval(fetchPlan,30000);
 })();
 </script>
 </body>
@@ -436,26 +1342,42 @@ setInterval(fetchGames,60000);
 });
 
 // ═══════════════════════════════════════════════════════════════════════
-//  WIDE-FORMAT TICKER — 3840x270 scrolling marquee (NBA + NHL + PGA)
+//  WIDE-FORMAT TICKER — scrolling marquee (all enabled sports), sized by
+//  ?profile= (default `wide`, 3840x270)
 //
-//  Loads ONCE, fetches /api/feed every 60s, CSS-animated scroll.
+//  Loads ONCE, live diffs via /api/stream (polls /api/feed every 60s
+//  while the stream is down), CSS-animated scroll.
 //  GPU-accelerated translate3d, hot-updates scores without restarting animation.
 // ═══════════════════════════════════════════════════════════════════════
-app.get('/wide.html', (_req, res) => {
+app.get('/wide.html', (req, res) => {
+  const display = requestWideDisplay(req, res);
+  if (!display) return;
+  const filter = requestFilter(req, res);
+  if (!filter) return;
+  const { profile, theme } = display;
+  const C = theme.colors;
+  const B = theme.border;
+  const weight = (role: keyof DisplayProfile['fonts'], fallback: string) => fontWeight(theme, role, fallback);
+  // Tiles are laid out on a 270px-tall stage, scaled to the profile height
+  const W = profile.width;
+  const H = profile.height;
+  const scale = H / 270;
+  const STAGE_W = Math.round(W / scale);
+
   const html = `<!DOCTYPE html>
 <html>
 <head>
 <meta charset="UTF-8"/>
-<meta name="viewport" content="width=3840,height=270,initial-scale=1,user-scalable=no"/>
-<link rel="preconnect" href="https://fonts.googleapis.com"/>
-<link href="https://fonts.googleapis.com/css2?family=Inter:wght@400;600;700;800;900&display=swap" rel="stylesheet"/>
+<meta name="viewport" content="width=${W},height=${H},initial-scale=1,user-scalable=no"/>
+${fontLinks(theme)}
 <style>
 *{margin:0;padding:0;box-sizing:border-box}
-html,body{width:3840px;height:270px;overflow:hidden;background:#0a0a0f;
-  font-family:'Inter',-apple-system,'Segoe UI',Roboto,Arial,sans-serif}
+html,body{width:${W}px;height:${H}px;overflow:hidden;background:${C.pageBackground};
+  font-family:${theme.fonts.family},-apple-system,'Segoe UI',Roboto,sans-serif}
 
 /* ── Marquee container ── */
-.marquee{width:3840px;height:270px;overflow:hidden;position:relative}
+.marquee{width:${STAGE_W}px;height:270px;overflow:hidden;position:relative;
+  transform:scale(${scale.toFixed(4)});transform-origin:0 0}
 .track{display:flex;align-items:center;height:270px;padding:0 16px;
   will-change:transform;animation:scroll var(--dur,60s) linear infinite}
 @keyframes scroll{
@@ -471,12 +1393,16 @@ html,body{width:3840px;height:270px;overflow:hidden;background:#0a0a0f;
   padding:12px 6px;border-radius:8px;color:#fff}
 .chip-nba{background:linear-gradient(180deg,#1d428a,#c8102e)}
 .chip-nhl{background:linear-gradient(180deg,#003087,#00847e)}
+.chip-nfl{background:linear-gradient(180deg,#013369,#d50a0a)}
+.chip-mlb{background:linear-gradient(180deg,#041e42,#bf0d3e)}
+.chip-ncaaf{background:linear-gradient(180deg,#1b365d,#7a0019)}
+.chip-ncaab{background:linear-gradient(180deg,#1b365d,#e87722)}
 .chip-pga{background:linear-gradient(180deg,#006747,#2d6b3f)}
 
 /* ── Game tile ── */
-.game-tile{width:380px;height:240px;background:#111118;border-radius:12px;
+.game-tile{width:380px;height:240px;background:${C.tileBg};border-radius:${B.radius}px;
   margin:0 10px;flex-shrink:0;overflow:hidden;display:flex;flex-direction:column;
-  border:1px solid rgba(255,255,255,0.06)}
+  border:${B.width}px solid ${B.color}}
 
 /* ── Team row ── */
 .team-row{display:flex;align-items:center;height:90px;padding:0 14px;
@@ -490,65 +1416,95 @@ html,body{width:3840px;height:270px;overflow:hidden;background:#0a0a0f;
   background:rgba(0,0,0,0.3);display:flex;align-items:center;justify-content:center;
   position:relative;z-index:1}
 .team-logo img{width:100%;height:100%;object-fit:cover;display:block}
-.team-logo .fb{font-size:18px;font-weight:900;color:#fff;display:none}
+.team-logo .fb{font-size:18px;font-weight:900;color:${C.teamText};display:none}
 .team-logo.no-img img{display:none}
 .team-logo.no-img .fb{display:block}
 .team-logo.no-img{border:2px solid rgba(255,255,255,0.2);background:rgba(0,0,0,0.4)}
 
 /* ── Team text ── */
 .team-info{flex:1;margin-left:10px;position:relative;z-index:1;overflow:hidden}
-.team-abbr{font-size:24px;font-weight:900;color:#fff;line-height:1.1;
+.team-abbr{font-size:24px;font-weight:${weight('teamAbbr', '900')};color:${C.teamText};line-height:1.1;
   text-shadow:0 1px 2px rgba(0,0,0,0.4)}
-.team-rec{font-size:11px;color:rgba(255,255,255,0.5);margin-top:1px}
+.team-rec{font-size:11px;font-weight:${weight('record', '400')};color:${C.recordText};margin-top:1px}
+.tile-poss{display:inline-block;width:7px;height:7px;border-radius:50%;background:${C.possession};
+  margin-left:6px;vertical-align:middle}
+.tile-poss.hidden{display:none}
 
 /* ── Score ── */
-.team-score{font-size:40px;font-weight:900;color:#fff;min-width:60px;
+.team-score{font-size:40px;font-weight:${weight('score', '900')};color:${C.teamText};min-width:60px;
   text-align:right;position:relative;z-index:1;
   text-shadow:1px 2px 4px rgba(0,0,0,0.6)}
-.team-score.dash{font-size:28px;color:#444}
+.team-score.dash{font-size:28px;color:${C.muted}}
 
 /* ── Tile divider ── */
 .tile-divider{height:1px;background:rgba(255,255,255,0.08);margin:0 14px}
 
 /* ── Status bar ── */
 .tile-status{flex:1;display:flex;align-items:center;padding:0 14px;
-  background:#0a0a10;border-top:1px solid rgba(255,255,255,0.06)}
-.tile-sport{font-size:11px;font-weight:700;color:#666;min-width:32px}
-.tile-clock{flex:1;text-align:center;font-size:15px;font-weight:700;color:#fff}
-.tile-clock.final{color:#888}
-.tile-clock.pre{color:#4499ff}
+  background:${C.statusBarBg};border-top:1px solid ${C.divider}}
+.tile-sport{font-size:11px;font-weight:${weight('league', '700')};color:${C.dimText};min-width:32px}
+.tile-clock{flex:1;text-align:center;font-size:15px;font-weight:${weight('status', '700')};color:${C.text}}
+.tile-clock.final{color:${C.final}}
+.tile-clock.pre{color:${C.pre}}
 .tile-live{display:flex;align-items:center;gap:5px;font-size:11px;
-  font-weight:700;color:#ff3333}
-.tile-live-dot{width:7px;height:7px;border-radius:50%;background:#ff3333;
+  font-weight:${weight('liveIndicator', '700')};color:${C.live}}
+.tile-live-dot{width:7px;height:7px;border-radius:50%;background:${C.live};
   animation:pulse 2s ease-in-out infinite}
 .tile-live.hidden{visibility:hidden}
 @keyframes pulse{0%,100%{opacity:1}50%{opacity:0.3}}
 
 /* ── PGA tile ── */
-.pga-tile{width:420px;height:240px;background:#111118;border-radius:12px;
+.pga-tile{width:420px;height:240px;background:${C.tileBg};border-radius:${B.radius}px;
   margin:0 10px;flex-shrink:0;overflow:hidden;display:flex;flex-direction:column;
-  border:1px solid rgba(255,255,255,0.06)}
+  border:${B.width}px solid ${B.color}}
 .pga-header{padding:10px 14px 6px;
   background:linear-gradient(135deg,#006747 0%,#1a5c35 100%)}
-.pga-tourney{font-size:16px;font-weight:900;color:#fff;
+.pga-tourney{font-size:16px;font-weight:900;color:${C.text};
   text-shadow:0 1px 2px rgba(0,0,0,0.4)}
 .pga-round{font-size:11px;color:rgba(255,255,255,0.7);margin-top:1px}
 .pga-board{flex:1;padding:4px 10px;overflow:hidden}
 .pga-row{display:flex;align-items:center;height:28px;font-size:12px;
   border-bottom:1px solid rgba(255,255,255,0.04)}
-.pga-rank{width:24px;font-weight:700;color:#888;text-align:center}
-.pga-name{flex:1;font-weight:600;color:#fff;padding-left:6px;
+.pga-rank{width:24px;font-weight:700;color:${C.dimText};text-align:center}
+.pga-name{flex:1;font-weight:600;color:${C.text};padding-left:6px;
   overflow:hidden;text-overflow:ellipsis;white-space:nowrap}
 .pga-score{width:42px;text-align:right;font-weight:800;color:#4caf50}
 .pga-today{width:36px;text-align:right;color:#aaa}
 .pga-thru{width:30px;text-align:right;color:#666;font-size:11px}
 .pga-status{height:34px;display:flex;align-items:center;padding:0 14px;
-  background:#0a0a10;border-top:1px solid rgba(255,255,255,0.06)}
-.pga-status-text{flex:1;text-align:center;font-size:12px;font-weight:700;color:#fff}
+  background:${C.statusBarBg};border-top:1px solid ${C.divider}}
+.pga-status-text{flex:1;text-align:center;font-size:12px;font-weight:${weight('status', '700')};color:${C.text}}
 .pga-live{display:flex;align-items:center;gap:5px;font-size:11px;
-  font-weight:700;color:#ff3333}
-.pga-live-dot{width:7px;height:7px;border-radius:50%;background:#ff3333;
+  font-weight:${weight('liveIndicator', '700')};color:${C.live}}
+.pga-live-dot{width:7px;height:7px;border-radius:50%;background:${C.live};
   animation:pulse 2s ease-in-out infinite}
+
+/* ── Sponsor tile ── */
+.sponsor-tile{width:380px;height:240px;border-radius:${B.radius}px;margin:0 10px;flex-shrink:0;
+  overflow:hidden;border:${B.width}px solid ${B.color};background:${C.tileBg}}
+.sponsor-tile img{width:100%;height:100%;display:block;object-fit:contain}
+
+/* ── Standings tile ── */
+.standings-tile{width:380px;height:240px;background:${C.tileBg};border-radius:${B.radius}px;
+  margin:0 10px;flex-shrink:0;overflow:hidden;display:flex;flex-direction:column;
+  border:${B.width}px solid ${B.color}}
+.st-header{height:44px;padding:6px 14px 0}
+.st-title{font-size:16px;font-weight:900;color:${C.teamText};text-transform:uppercase;
+  text-shadow:0 1px 2px rgba(0,0,0,0.4);white-space:nowrap;overflow:hidden;text-overflow:ellipsis}
+.st-sub{font-size:11px;color:rgba(255,255,255,0.7);margin-top:1px}
+.st-board{flex:1;padding:0 10px;overflow:hidden}
+.st-row{display:flex;align-items:center;height:28px;font-size:13px;
+  border-bottom:1px solid rgba(255,255,255,0.04)}
+.st-row.st-cols{height:18px;font-size:10px;font-weight:700;color:${C.dimText};border-bottom:none}
+.st-rank{width:20px;text-align:center;font-weight:700;color:${C.dimText}}
+.st-swatch{width:4px;height:16px;border-radius:1px;margin:0 8px 0 4px}
+.st-abbr{flex:1;font-weight:900;color:${C.text}}
+.st-rec{width:64px;text-align:right;font-weight:800;color:${C.text}}
+.st-gb{width:44px;text-align:right;color:#aaa}
+.st-strk{width:44px;text-align:right;font-weight:700;color:${C.final}}
+.st-strk.win{color:#4caf50}
+.st-row.st-cols span{color:${C.dimText};font-weight:700}
+.standings-tile .tile-status{flex:none;height:34px}
 </style>
 </head>
 <body>
@@ -560,10 +1516,12 @@ html,body{width:3840px;height:270px;overflow:hidden;background:#0a0a0f;
 var track=document.getElementById('track');
 var items=[];
 var lastIds='';
+var sponsorEvery=0,sponsorSlots=[],shownSponsors=[];
+var standings=[],standingsMode='off',standingsShown=false;
 
 function fetchFeed(){
   var x=new XMLHttpRequest();
-  x.open('GET','/api/feed',true);
+  x.open('GET','/api/feed${filterQuery(filter, '?')}',true);
   x.timeout=15000;
   x.onload=function(){
     if(x.status!==200)return;
@@ -577,14 +1535,16 @@ function fetchFeed(){
 
 function update(ni){
   var newIds=ni.map(function(i){return i.id}).join(',');
-  if(newIds!==lastIds){
-    items=ni;lastIds=newIds;rebuild();
+  items=ni;
+  if(newIds!==lastIds||showStandings()!==standingsShown){
+    lastIds=newIds;rebuild();
   }else{
-    items=ni;hotUpdate();
+    hotUpdate();
   }
 }
 
 function rebuild(){
+  standingsShown=showStandings();
   var html=buildTiles();
   track.innerHTML=html+html;
   requestAnimationFrame(function(){
@@ -596,9 +1556,11 @@ function rebuild(){
   });
 }
 
-function hotUpdate(){
-  for(var i=0;i<items.length;i++){
-    var item=items[i];
+function hotUpdate(){hotUpdateItems(items);}
+
+function hotUpdateItems(list){
+  for(var i=0;i<list.length;i++){
+    var item=list[i];
     var els=track.querySelectorAll('[data-item-id="'+item.id+'"]');
     for(var j=0;j<els.length;j++)updateTile(els[j],item);
   }
@@ -614,13 +1576,16 @@ function updateTile(el,item){
       if(scores[0]){scores[0].textContent=item.awayScore;scores[0].className='team-score';}
       if(scores[1]){scores[1].textContent=item.homeScore;scores[1].className='team-score';}
     }
+    var ps=el.querySelectorAll('.tile-poss');
+    if(ps[0])ps[0].className='tile-poss'+(item.possession==='away'?'':' hidden');
+    if(ps[1])ps[1].className='tile-poss'+(item.possession==='home'?'':' hidden');
     var clock=el.querySelector('.tile-clock');
     var lv=el.querySelector('.tile-live');
     if(item.state==='live'){
       clock.textContent=item.statusText;clock.className='tile-clock';
       lv.className='tile-live';
     }else if(item.state==='final'){
-      clock.textContent='FINAL';clock.className='tile-clock final';
+      clock.textContent=item.statusText;clock.className='tile-clock final';
       lv.className='tile-live hidden';
     }else{
       clock.textContent=item.statusText;clock.className='tile-clock pre';
@@ -647,20 +1612,122 @@ function updateTile(el,item){
 }
 
 function buildTiles(){
-  var html='';var curSport='';
+  var html='';var curSport='';var slot=0;
+  shownSponsors=[];
   for(var i=0;i<items.length;i++){
     var item=items[i];
-    if(item.sport!==curSport){
-      curSport=item.sport;
-      var cc='chip-'+curSport.toLowerCase();
-      html+='<div class="sport-chip"><span class="'+cc+'">'+esc(curSport)+'</span></div>';
+    var label=item.leagueLabel||item.sport;
+    if(label!==curSport){
+      curSport=label;
+      var cc='chip-'+item.sport.toLowerCase();
+      html+='<div class="sport-chip"><span class="'+cc+'">'+esc(label)+'</span></div>';
     }
     if(item.type==='game')html+=buildGameTile(item);
     else if(item.type==='pga')html+=buildPgaTile(item);
+    if(sponsorEvery>0&&sponsorSlots.length>0&&(i+1)%sponsorEvery===0){
+      var sp=sponsorSlots[slot++%sponsorSlots.length];
+      shownSponsors.push(sp.id);
+      html+='<div class="sponsor-tile"><img src="'+esc(sp.imageUrl)+'" alt="'+esc(sp.name)+'"/></div>';
+    }
+  }
+  if(standingsShown){
+    // Standings follow the games, each league under its own chip
+    curSport='';
+    for(var s=0;s<standings.length;s++){
+      var g=standings[s];
+      if(g.league!==curSport){
+        curSport=g.league;
+        html+='<div class="sport-chip"><span class="chip-'+g.league.toLowerCase()+'">'+esc(g.league)+'</span></div>';
+      }
+      html+=buildStandingsTile(g);
+    }
   }
   return html;
 }
 
+// Standings tiles: always, never, or ('idle') only while no game is live,
+// so off-nights still have something to scroll
+function showStandings(){
+  if(standings.length===0||standingsMode==='off')return false;
+  if(standingsMode==='always')return true;
+  for(var i=0;i<items.length;i++)if(items[i].state==='live')return false;
+  return true;
+}
+function fetchStandings(){
+  var x=new XMLHttpRequest();
+  x.open('GET','/api/standings${filterQuery(filter, '?')}',true);
+  x.timeout=15000;
+  x.onload=function(){
+    if(x.status!==200)return;
+    try{
+      var d=JSON.parse(x.responseText);
+      var had=JSON.stringify(standings)+standingsMode;
+      standings=d.groups||[];standingsMode=d.marquee||'off';
+      if(JSON.stringify(standings)+standingsMode!==had)rebuild();
+    }catch(e){}
+  };
+  x.send();
+}
+fetchStandings();
+setInterval(fetchStandings,300000);
+
+function buildStandingsTile(g){
+  var rows='<div class="st-row st-cols"><span class="st-rank"></span><span class="st-abbr"></span>'+
+    '<span class="st-rec">'+(g.rows.length&&g.rows[0].record.split('-').length>2?'W-L-T':'W-L')+'</span>'+
+    '<span class="st-gb">GB</span><span class="st-strk">STRK</span></div>';
+  for(var i=0;i<g.rows.length&&i<5;i++){
+    var r=g.rows[i];
+    rows+='<div class="st-row">'+
+      '<span class="st-rank">'+r.rank+'</span>'+
+      '<span class="st-swatch" style="background:'+esc(r.color)+'"></span>'+
+      '<span class="st-abbr">'+esc(r.abbr)+'</span>'+
+      '<span class="st-rec">'+esc(r.record)+'</span>'+
+      '<span class="st-gb">'+esc(r.gamesBack)+'</span>'+
+      '<span class="st-strk'+(r.streak.charAt(0)==='W'?' win':'')+'">'+esc(r.streak)+'</span>'+
+    '</div>';
+  }
+  return '<div class="standings-tile" data-item-id="'+esc(g.id)+'">'+
+    '<div class="st-header chip-'+g.league.toLowerCase()+'">'+
+      '<div class="st-title">'+esc(g.title)+'</div>'+
+      '<div class="st-sub">'+esc(g.division?g.conference:g.league+' Standings')+'</div>'+
+    '</div>'+
+    '<div class="st-board">'+rows+'</div>'+
+    '<div class="tile-status">'+
+      '<span class="tile-sport">'+esc(g.league)+'</span>'+
+      '<span class="tile-clock final">STANDINGS</span>'+
+    '</div>'+
+  '</div>';
+}
+
+// Sponsor tiles: slot sequence from the server, impressions reported once
+// per marquee loop (each loop scrolls one full set of tiles past)
+function fetchSponsors(){
+  var x=new XMLHttpRequest();
+  x.open('GET','/api/sponsors/marquee${themeQuery(theme, '?')}',true);
+  x.timeout=15000;
+  x.onload=function(){
+    if(x.status!==200)return;
+    try{
+      var d=JSON.parse(x.responseText);
+      var ids=(d.slots||[]).map(function(s){return s.id}).join(',');
+      var had=sponsorSlots.map(function(s){return s.id}).join(',');
+      sponsorEvery=d.every||0;sponsorSlots=d.slots||[];
+      if(ids!==had&&items.length>0)rebuild();
+    }catch(e){}
+  };
+  x.send();
+}
+function reportSponsors(){
+  if(shownSponsors.length===0)return;
+  var x=new XMLHttpRequest();
+  x.open('POST','/api/sponsors/impressions',true);
+  x.setRequestHeader('Content-Type','application/json');
+  x.send(JSON.stringify({ids:shownSponsors}));
+}
+track.addEventListener('animationiteration',reportSponsors);
+fetchSponsors();
+setInterval(fetchSponsors,300000);
+
 function buildGameTile(g){
   var isPre=g.state==='pre',isFinal=g.state==='final',isLive=g.state==='live';
   var as=isPre?'\\u2013':g.awayScore,hs=isPre?'\\u2013':g.homeScore;
@@ -670,22 +1737,22 @@ function buildGameTile(g){
   if(isFinal)clockCls='tile-clock final';
   else if(isPre)clockCls='tile-clock pre';
   return '<div class="game-tile" data-item-id="'+esc(g.id)+'">'+
-    tRow(g.away,as,sc1)+
+    tRow(g.away,as,sc1,g.possession==='away')+
     '<div class="tile-divider"></div>'+
-    tRow(g.home,hs,sc1)+
+    tRow(g.home,hs,sc1,g.possession==='home')+
     '<div class="tile-status">'+
-      '<span class="tile-sport">'+esc(g.sport)+'</span>'+
+      '<span class="tile-sport">'+esc(g.leagueLabel||g.sport)+'</span>'+
       '<span class="'+clockCls+'">'+esc(clockText)+'</span>'+
       '<span class="tile-live'+(isLive?'':' hidden')+'"><span class="tile-live-dot"></span>LIVE</span>'+
     '</div>'+
   '</div>';
 }
 
-function tRow(team,score,sc){
+function tRow(team,score,sc,hasBall){
   return '<div class="team-row" style="background:'+team.color+'">'+
     lHtml(team)+
     '<div class="team-info">'+
-      '<div class="team-abbr">'+esc(team.abbr)+'</div>'+
+      '<div class="team-abbr">'+esc(team.abbr)+'<span class="tile-poss'+(hasBall?'':' hidden')+'"></span></div>'+
       (team.record?'<div class="team-rec">'+esc(team.record)+'</div>':'')+
     '</div>'+
     '<span class="'+sc+'">'+esc(String(score))+'</span>'+
@@ -729,8 +1796,42 @@ function buildPgaTile(g){
 
 function esc(s){return String(s).replace(/&/g,'&amp;').replace(/</g,'&lt;').replace(/>/g,'&gt;').replace(/"/g,'&quot;');}
 
-fetchFeed();
-setInterval(fetchFeed,60000);
+function applyDiff(list,d){
+  var byId={},out=[],i;
+  for(i=0;i<list.length;i++)byId[list[i].id]=list[i];
+  for(i=0;i<d.upserted.length;i++)byId[d.upserted[i].id]=d.upserted[i];
+  for(i=0;i<d.order.length;i++)if(byId[d.order[i]])out.push(byId[d.order[i]]);
+  return out;
+}
+
+// Live diffs over SSE — only changed tiles are touched unless the id order
+// changes. Poll /api/feed while the stream is down.
+function applyFeedDiff(d){
+  var ni=applyDiff(items,d);
+  if(ni.length===0)return;
+  var newIds=ni.map(function(i){return i.id}).join(',');
+  items=ni;
+  if(newIds!==lastIds||showStandings()!==standingsShown){lastIds=newIds;rebuild();}
+  else hotUpdateItems(d.upserted);
+}
+
+var es=null,poll=null;
+function startPolling(){if(!poll){fetchFeed();poll=setInterval(fetchFeed,60000);}}
+function stopPolling(){if(poll){clearInterval(poll);poll=null;}}
+function connect(){
+  if(!window.EventSource){startPolling();return;}
+  es=new EventSource('/api/stream?channel=feed${filterQuery(filter)}');
+  es.addEventListener('feed',function(e){
+    stopPolling();
+    try{applyFeedDiff(JSON.parse(e.data));}catch(err){}
+  });
+  es.onerror=function(){
+    es.close();es=null;
+    startPolling();
+    setTimeout(connect,30000);
+  };
+}
+connect();
 })();
 </script>
 </body>
@@ -744,18 +1845,326 @@ setInterval(fetchFeed,60000);
 });
 
 // ═══════════════════════════════════════════════════════════════════════
-//  RSS FEED (kept for non-NovaStar consumers)
+//  WIDE STRIP PNG — the wide.html marquee rendered server-side for
+//  image-only players. /wide.png is the whole strip; ?page=N (1-based)
+//  is one screen-width frame and ?page=next rotates through frames.
+//  Same ?profile= (default `wide`), ?theme= and filters as wide.html.
 // ═══════════════════════════════════════════════════════════════════════
-app.get('/rss.xml', (req, res) => {
-  const protocol = req.headers['x-forwarded-proto'] || req.protocol || 'https';
-  const host = req.headers['x-forwarded-host'] || req.headers.host || '';
-  const requestBaseUrl = `${protocol}://${host}`;
-  const xml = generateRss(currentGames, requestBaseUrl);
+// ?page=next position per profile, theme and filter, so players on
+// different URLs each step through their own pages
+const MAX_PAGE_CURSORS = 100;
+const widePageCursors = new Map<string, number>();
+
+function nextWidePage(key: string, count: number): number {
+  const cursor = widePageCursors.get(key) ?? 0;
+  if (!widePageCursors.has(key) && widePageCursors.size >= MAX_PAGE_CURSORS) {
+    widePageCursors.delete(widePageCursors.keys().next().value!);
+  }
+  widePageCursors.set(key, cursor + 1);
+  return cursor % count;
+}
+
+// Changes when any tile or the theme file changes
+function wideHash(items: FeedItem[], theme: Theme): string {
+  const digest = crypto.createHash('sha1').update(JSON.stringify(items)).digest('hex');
+  return `${digest}|${theme.name}:${theme.version}`;
+}
+
+app.get('/wide.png', async (req, res) => {
+  const display = requestWideDisplay(req, res);
+  if (!display) return;
+  const filter = requestFilter(req, res);
+  if (!filter) return;
+  const entries = filterEntries(currentEntries, filter);
+  if (entries.length === 0) {
+    res.status(503).set('Content-Type', 'text/plain').send('No games available');
+    return;
+  }
+
+  const items = entries.map(entryToFeedItem);
+  const pageParam = req.query.page ? String(req.query.page) : '';
+  let page = -1; // whole strip
+  if (pageParam === 'next') {
+    page = nextWidePage(filteredImageKey('wide', display, filter), countWidePages(items, display.profile));
+  } else if (pageParam) {
+    page = parseInt(pageParam, 10) - 1;
+    if (Number.isNaN(page) || page < 0) {
+      res.status(400).set('Content-Type', 'text/plain').send('page must be a number from 1, or "next"');
+      return;
+    }
+  }
+
+  try {
+    const key = filteredImageKey(page < 0 ? 'wide' : `wide-p${page + 1}`, display, filter);
+    const hash = wideHash(items, display.theme);
+    let buffer = imageCache.lookup(key, hash);
+    if (!buffer) {
+      buffer = await renderSeconds.time({ kind: 'wide' }, () =>
+        page < 0 ? renderWideStrip(items, logoCache, display) : renderWidePage(items, page, logoCache, display)
+      );
+      if (!buffer) {
+        res.status(404).set('Content-Type', 'text/plain').send('Page not found');
+        return;
+      }
+      await imageCache.set(key, buffer, hash);
+    }
+    res.set({
+      'Content-Type': 'image/png',
+      'Cache-Control': pageParam === 'next'
+        ? 'public, max-age=5, s-maxage=5, stale-while-revalidate=30'
+        : 'public, max-age=30, s-maxage=30, stale-while-revalidate=60',
+    });
+    res.send(buffer);
+  } catch (err) {
+    renderLog.error('Render failed', { path: req.path, err });
+    res.status(500).set('Content-Type', 'text/plain').send('Render failed');
+  }
+});
+
+// Frame list for players that take a playlist of image URLs
+app.get('/wide-pages.json', (req, res) => {
+  const display = requestWideDisplay(req, res);
+  if (!display) return;
+  const filter = requestFilter(req, res);
+  if (!filter) return;
+  const base = requestBaseUrl(req);
+  const count = countWidePages(filterEntries(currentEntries, filter).map(entryToFeedItem), display.profile);
+  const q = `${displayQuery(display)}${filterQuery(filter)}`;
+
+  res.set({ 'Cache-Control': 'public, max-age=30, s-maxage=30' });
+  res.json({
+    width: display.profile.width,
+    height: display.profile.height,
+    count,
+    strip: `${base}/wide.png${q && `?${q.slice(1)}`}`,
+    pages: Array.from({ length: count }, (_, i) => `${base}/wide.png?page=${i + 1}${q}`),
+    updated: lastUpdate.toISOString(),
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════
+//  ANIMATED OUTPUTS — a single looping file for players that can only
+//  loop one media file. /ticker.gif|apng rotate every game image with
+//  ?dwell= and ?fade= (seconds); /wide.gif|apng scroll the wide strip
+//  with ?speed= (px/s on the 270px stage). ?fps= sets the frame rate.
+// ═══════════════════════════════════════════════════════════════════════
+interface AnimationParams {
+  dwellMs: number;
+  crossfadeMs: number;
+  fps: number;
+  speed: number;
+}
+
+const ANIMATION_PARAMS: [name: string, key: keyof AnimationParams, unit: number, min: number, max: number][] = [
+  ['dwell', 'dwellMs', 1000, 0.5, 60],
+  ['fade', 'crossfadeMs', 1000, 0, 5],
+  ['fps', 'fps', 1, 1, 30],
+  ['speed', 'speed', 1, 10, 1000],
+];
+
+function requestAnimation(req: Request, res: express.Response): AnimationParams | null {
+  const params: AnimationParams = {
+    dwellMs: config.animation.dwellMs,
+    crossfadeMs: config.animation.crossfadeMs,
+    fps: config.animation.fps,
+    speed: config.animation.scrollSpeed,
+  };
+  for (const [name, key, unit, min, max] of ANIMATION_PARAMS) {
+    const raw = req.query[name];
+    if (raw === undefined || raw === '') continue;
+    const value = Number(raw);
+    if (!Number.isFinite(value) || value < min || value > max) {
+      res.status(400).set('Content-Type', 'text/plain').send(`${name} must be a number from ${min} to ${max}`);
+      return null;
+    }
+    params[key] = value * unit;
+  }
+  return params;
+}
+
+// Rendered animations by URL; concurrent requests share one render. `bytes`
+// is 0 until the render settles.
+const animationCache = new Map<string, { hash: string; buffer: Promise<Buffer>; bytes: number }>();
+let animationBytes = 0;
+let animationRendering = false;
+
+function dropAnimation(key: string): void {
+  const entry = animationCache.get(key);
+  if (!entry) return;
+  animationBytes -= entry.bytes;
+  animationCache.delete(key);
+}
+
+/**
+ * Resolves to null when another animation is still rendering and there is
+ * nothing cached to fall back on — encoding is CPU-bound, so one at a time.
+ */
+function cachedAnimation(key: string, hash: string, render: () => Promise<Buffer>): Promise<Buffer | null> {
+  const hit = animationCache.get(key);
+  cacheLookups.inc({ cache: 'animation', result: hit && hit.hash === hash ? 'hit' : 'miss' });
+  if (hit && hit.hash === hash) return hit.buffer;
+  if (animationRendering) return hit && hit.bytes > 0 ? hit.buffer : Promise.resolve(null);
+
+  animationRendering = true;
+  const buffer = renderSeconds.time({ kind: 'animation' }, render);
+  dropAnimation(key);
+  const entry = { hash, buffer, bytes: 0 };
+  animationCache.set(key, entry);
+  buffer.then(
+    (result) => {
+      animationRendering = false;
+      if (animationCache.get(key) !== entry) return;
+      entry.bytes = result.length;
+      animationBytes += result.length;
+      // Oldest first — Map keeps insertion order
+      for (const old of animationCache.keys()) {
+        if (animationBytes <= config.animation.cacheBytes) break;
+        dropAnimation(old);
+      }
+    },
+    () => {
+      animationRendering = false;
+      if (animationCache.get(key) === entry) dropAnimation(key);
+    }
+  );
+  return buffer;
+}
+
+function sendAnimation(res: express.Response, format: AnimationFormat, buffer: Buffer | null): void {
+  if (!buffer) {
+    res.status(503).set({ 'Content-Type': 'text/plain', 'Retry-After': '10' }).send('Another animation is rendering, try again shortly');
+    return;
+  }
   res.set({
-    'Content-Type': 'application/rss+xml; charset=utf-8',
+    'Content-Type': format === 'gif' ? 'image/gif' : 'image/apng',
     'Cache-Control': 'public, max-age=30, s-maxage=30, stale-while-revalidate=60',
   });
-  res.send(xml);
+  res.send(buffer);
+}
+
+app.get(['/ticker.gif', '/ticker.apng'], async (req, res) => {
+  const format: AnimationFormat = req.path.endsWith('.gif') ? 'gif' : 'apng';
+  const display = requestDisplay(req, res);
+  if (!display) return;
+  const params = requestAnimation(req, res);
+  if (!params) return;
+  const filter = requestFilter(req, res);
+  if (!filter) return;
+  const entries = filterEntries(currentEntries, filter);
+  if (entries.length === 0) {
+    res.status(503).set('Content-Type', 'text/plain').send('No games available');
+    return;
+  }
+
+  const options = { dwellMs: params.dwellMs, crossfadeMs: params.crossfadeMs, fps: params.fps };
+  const key = `${imageKey('ticker', display)}.${format}|${options.dwellMs}/${options.crossfadeMs}/${options.fps}|${filter.key}`;
+  const hash = entries.map((e) => `${e.id}:${imageHash(e, display.theme)}`).join(',');
+
+  try {
+    const buffer = await cachedAnimation(key, hash, async () => {
+      const images: Buffer[] = [];
+      for (const entry of entries) images.push(await entryImage(entry, display));
+      return renderRotation(images, display.profile, format, options);
+    });
+    sendAnimation(res, format, buffer);
+  } catch (err) {
+    renderLog.error('Render failed', { path: req.path, err });
+    res.status(500).set('Content-Type', 'text/plain').send('Render failed');
+  }
+});
+
+app.get(['/wide.gif', '/wide.apng'], async (req, res) => {
+  const format: AnimationFormat = req.path.endsWith('.gif') ? 'gif' : 'apng';
+  const display = requestWideDisplay(req, res);
+  if (!display) return;
+  const params = requestAnimation(req, res);
+  if (!params) return;
+  const filter = requestFilter(req, res);
+  if (!filter) return;
+  const entries = filterEntries(currentEntries, filter);
+  if (entries.length === 0) {
+    res.status(503).set('Content-Type', 'text/plain').send('No games available');
+    return;
+  }
+
+  const items = entries.map(entryToFeedItem);
+  const options = { speed: params.speed, fps: params.fps, maxFrames: config.animation.maxFrames, maxPixels: config.animation.maxPixels };
+  const key = `${imageKey('wide', display)}.${format}|${options.speed}/${options.fps}|${filter.key}`;
+
+  try {
+    const buffer = await cachedAnimation(key, wideHash(items, display.theme), async () => {
+      const strip = await renderWideStrip(items, logoCache, display);
+      return renderMarquee(strip, display.profile, format, options);
+    });
+    sendAnimation(res, format, buffer);
+  } catch (err) {
+    renderLog.error('Render failed', { path: req.path, err });
+    res.status(500).set('Content-Type', 'text/plain').send('Render failed');
+  }
+});
+
+// ═══════════════════════════════════════════════════════════════════════
+//  RSS / ATOM / JSON FEED (kept for non-NovaStar consumers)
+// ═══════════════════════════════════════════════════════════════════════
+const FEED_CACHE_CONTROL = 'public, max-age=30, s-maxage=30, stale-while-revalidate=60';
+
+// Same items, filters and sponsor slots for every syndication format. The
+// enclosure images are rendered up front (cached) for their real byte length.
+async function syndicate(
+  req: Request,
+  res: express.Response,
+  contentType: string,
+  serialize: (feed: SyndicationFeed) => string | object,
+  league?: SportType
+): Promise<void> {
+  const display = requestDisplay(req, res);
+  if (!display) return;
+  const filter = requestFilter(req, res);
+  if (!filter) return;
+  let entries = filterEntries(currentEntries, filter);
+  if (league) entries = entries.filter((e) => (isGame(e) ? e.league : e.sport) === league);
+  const items = sponsors.interleave(entries, 'rss', refreshCount);
+
+  try {
+    const images = new Map<string, Buffer>();
+    for (const item of items) {
+      const buffer = isSponsorPlacement(item) ? await sponsorImage(item.sponsor, display) : await entryImage(item, display);
+      images.set(item.id, buffer);
+    }
+    const feed = buildSyndicationFeed(items, images, {
+      baseUrl: requestBaseUrl(req),
+      profile: display.profile,
+      theme: display.theme,
+      filter,
+      league,
+    });
+    const body = serialize(feed);
+    res.set({ 'Content-Type': contentType, 'Cache-Control': FEED_CACHE_CONTROL });
+    res.send(typeof body === 'string' ? body : JSON.stringify(body, null, 2));
+  } catch (err) {
+    renderLog.error('Failed to build feed', { path: req.path, err });
+    res.status(500).set('Content-Type', 'text/plain').send('Failed to build feed');
+  }
+}
+
+app.get('/rss.xml', (req, res) => syndicate(req, res, 'application/rss+xml; charset=utf-8', (feed) => generateRss(feed)));
+app.get('/atom.xml', (req, res) => syndicate(req, res, 'application/atom+xml; charset=utf-8', generateAtom));
+app.get('/feed.json', (req, res) => syndicate(req, res, 'application/feed+json; charset=utf-8', generateJsonFeed));
+
+// Per-league channels: /rss/nba.xml, /rss/nhl.xml, ...
+app.get('/rss/:league.xml', (req, res) => {
+  const league = req.params.league.toUpperCase() as SportType;
+  if (!('filter' in parseFilter({ league }))) {
+    res.status(404).set('Content-Type', 'text/plain').send('Unknown league channel');
+    return;
+  }
+  return syndicate(
+    req,
+    res,
+    'application/rss+xml; charset=utf-8',
+    (feed) => generateRss(feed, `/rss/${league.toLowerCase()}.xml`),
+    league
+  );
 });
 
 // ═══════════════════════════════════════════════════════════════════════
@@ -788,101 +2197,208 @@ app.get('/images/:id.png', async (req, res) => {
   res.status(404).json({ error: 'Image not found', id });
 });
 
-// Single rotating image — for NovaStar "Image URL" mode
-let rotationIndex = 0;
-app.get('/ticker.png', async (_req, res) => {
-  if (currentGames.length === 0) {
+// Single rotating image — for NovaStar "Image URL" mode (?profile=, ?theme=,
+// and filters). Each playlist item stays on air for its dwell time: players
+// polling faster get the same frame again, slower ones move on one item per
+// request. A sponsor frame follows every SPONSOR_EVERY items. Every filter
+// has its own rotation.
+interface OnAir {
+  entryId: string | null;
+  sponsor: Sponsor | null;
+  until: number;
+}
+interface Rotation {
+  onAir: OnAir | null;
+  sinceSponsor: number;
+}
+const MAX_ROTATIONS = 100;
+const rotations = new Map<string, Rotation>();
+
+function rotationFor(filter: EntryFilter): Rotation {
+  let rotation = rotations.get(filter.key);
+  if (!rotation) {
+    if (rotations.size >= MAX_ROTATIONS) rotations.delete(rotations.keys().next().value!);
+    rotation = { onAir: null, sinceSponsor: 0 };
+    rotations.set(filter.key, rotation);
+  }
+  return rotation;
+}
+
+function nextOnAir(rotation: Rotation, entries: FeedEntry[], now: number): OnAir | null {
+  const schedule = playlistEngine.build(entries, now, adminStore.pinnedIds());
+  if (schedule.items.length === 0) return null;
+
+  const every = sponsors.getEvery();
+  const sponsor = every > 0 && rotation.sinceSponsor >= every ? sponsors.next('ticker') : null;
+  if (sponsor) {
+    rotation.sinceSponsor = 0;
+    sponsors.recordImpression(sponsor.id, 'ticker');
+    return { entryId: rotation.onAir?.entryId ?? null, sponsor, until: now + schedule.sponsorDwellMs };
+  }
+  // Pick up after the last entry shown, wherever the schedule has moved it
+  const last = schedule.items.findIndex((i) => i.entry.id === rotation.onAir?.entryId);
+  const item = schedule.items[(last + 1) % schedule.items.length];
+  rotation.sinceSponsor++;
+  return { entryId: item.entry.id, sponsor: null, until: now + item.dwellMs };
+}
+
+app.get('/ticker.png', async (req, res) => {
+  const display = requestDisplay(req, res);
+  if (!display) return;
+  const filter = requestFilter(req, res);
+  if (!filter) return;
+  const entries = filterEntries(currentEntries, filter);
+  if (entries.length === 0) {
     res.status(503).set('Content-Type', 'text/plain').send('No games available');
     return;
   }
 
-  const game = currentGames[rotationIndex % currentGames.length];
-  rotationIndex++;
-
-  const cached = imageCache.get(game.id);
-  if (cached) {
-    res.set({
-      'Content-Type': 'image/png',
-      'Cache-Control': 'public, max-age=5, s-maxage=5, stale-while-revalidate=30',
-    });
-    res.send(cached);
+  const now = Date.now();
+  const rotation = rotationFor(filter);
+  const current = rotation.onAir;
+  // Move on when the dwell is up, or when the game on air has left the feed
+  const gone = current && !current.sponsor && !entries.some((e) => e.id === current.entryId);
+  if (!current || now >= current.until || gone) rotation.onAir = nextOnAir(rotation, entries, now);
+  const { sponsor, entryId, until } = rotation.onAir || { sponsor: null, entryId: null, until: now };
+  const entry = sponsor ? null : entries.find((e) => e.id === entryId);
+  if (!sponsor && !entry) {
+    res.status(503).set('Content-Type', 'text/plain').send('Nothing scheduled');
     return;
   }
 
   try {
-    const buffer = await renderTickerImage(game, logoCache);
-    await imageCache.set(game.id, buffer, game.updatedAt);
+    const buffer = sponsor ? await sponsorImage(sponsor, display) : await entryImage(entry!, display);
+    const maxAge = Math.max(1, Math.ceil((until - now) / 1000));
     res.set({
       'Content-Type': 'image/png',
-      'Cache-Control': 'public, max-age=5, s-maxage=5, stale-while-revalidate=30',
+      'Cache-Control': `public, max-age=${maxAge}, s-maxage=${maxAge}`,
     });
     res.send(buffer);
   } catch (err) {
-    console.error('[ticker.png] render error:', err);
+    renderLog.error('Render failed', { path: req.path, err });
     res.status(500).set('Content-Type', 'text/plain').send('Render failed');
   }
 });
 
 // JSON playlist
 app.get('/playlist.json', (req, res) => {
-  const protocol = req.headers['x-forwarded-proto'] || req.protocol || 'https';
-  const host = req.headers['x-forwarded-host'] || req.headers.host || '';
-  const base = `${protocol}://${host}`;
-
-  const playlist = currentGames.map((g) => ({
-    id: g.id,
-    title: `${g.away.abbr} vs ${g.home.abbr}`,
-    imageUrl: `${base}/api/image?id=${encodeURIComponent(g.id)}`,
-    state: g.status.state,
-  }));
+  const display = requestDisplay(req, res);
+  if (!display) return;
+  const filter = requestFilter(req, res);
+  if (!filter) return;
+  const base = requestBaseUrl(req);
+
+  const schedule = playlistEngine.build(filterEntries(currentEntries, filter), Date.now(), adminStore.pinnedIds());
+  const items = sponsors.interleave(schedule.items, 'playlist', refreshCount).map((item) => {
+    if (isSponsorPlacement(item)) {
+      return {
+        id: item.id,
+        type: 'sponsor',
+        title: `Presented by ${item.sponsor.name}`,
+        imageUrl: sponsorImageUrl(base, item.sponsor, 'playlist', display),
+        sponsor: item.sponsor.id,
+        dwellMs: schedule.sponsorDwellMs,
+      };
+    }
+    const e = item.entry;
+    return {
+      id: e.id,
+      type: isGame(e) ? 'game' : 'pga',
+      title: entryTitle(e),
+      imageUrl: `${base}/api/image?id=${encodeURIComponent(e.id)}${displayQuery(display)}`,
+      state: statusState(e),
+      kind: item.kind,
+      dwellMs: item.dwellMs,
+      priority: item.priority,
+      ...(item.pinned ? { pinned: true } : {}),
+    };
+  });
+  const totalMs = items.reduce((sum, i) => sum + i.dwellMs, 0);
 
   res.set({ 'Cache-Control': 'public, max-age=30, s-maxage=30' });
-  res.json({ games: playlist, count: playlist.length, updated: lastUpdate.toISOString() });
+  res.json({
+    games: items,
+    count: items.length,
+    daypart: schedule.daypart,
+    totalMs,
+    updated: lastUpdate.toISOString(),
+  });
 });
 
 // Health check
+// `degraded` while any provider is failing (its sport is served stale or missing)
 app.get('/health', (_req, res) => {
   res.json({
-    status: 'ok',
+    status: staleSports.length > 0 ? 'degraded' : 'ok',
     lastUpdate: lastUpdate.toISOString(),
     gamesCount: currentGames.length,
+    entriesCount: currentEntries.length,
     refreshCount,
+    providers: feedAggregator.getProviderStatus(),
     config: {
-      display: `${config.display.width}x${config.display.height}`,
-      scaleFactor: config.display.scaleFactor,
+      profile: defaultProfile().name,
+      theme: defaultTheme().name,
+      themes: listThemes(),
+      profiles: listProfiles().map((p) => `${p.name} (${p.width}x${p.height})`),
       provider: config.dataProvider,
+      sports: feedAggregator.getSports(),
       refreshIntervalMs: config.cache.refreshIntervalMs,
     },
   });
 });
 
-// Preview page
-app.get('/preview', (_req, res) => {
-  const { width, height, scaleFactor } = config.display;
-  const rssUrl = `${config.server.baseUrl}/rss.xml`;
+// Prometheus scrape endpoint. Alert on stale screens with e.g.
+// time() - ticker_feed_last_update_timestamp_seconds > 300, or ticker_provider_stale == 1
+app.get('/metrics', (_req, res) => {
+  res.set({ 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8', 'Cache-Control': 'no-cache' });
+  res.send(metrics.render());
+});
 
-  const gameCards = currentGames
+// Preview page
+app.get('/preview', (req, res) => {
+  const display = requestDisplay(req, res);
+  if (!display) return;
+  const { profile, theme } = display;
+  const { width, height, scaleFactor } = profile;
+  const pq = displayQuery(display, '?');
+  const iq = displayQuery(display);
+  const rssUrl = `${config.server.baseUrl}/rss.xml${pq}`;
+  // Zoomed column only helps small panels; big profiles are shown scaled down
+  const zoom = width <= 512 ? 2 : 0;
+  const fitWidth = Math.min(width, 1050);
+
+  const switchLink = (current: string, name: string, next: DisplayOptions) => name === current
+    ? `<strong>${name}</strong>`
+    : `<a href="/preview${displayQuery(next, '?')}">${name}</a>`;
+  const profileLinks = listProfiles()
+    .map((p) => switchLink(profile.name, p.name, { profile: p, theme }))
+    .join(' &middot; ');
+  const themeLinks = listThemes()
+    .map((name) => switchLink(theme.name, name, { profile, theme: resolveTheme(name) || theme }))
+    .join(' &middot; ');
+
+  const gameCards = currentEntries
     .map(
       (g) => `
       <div class="ticker-group">
         <div class="ticker-label">
           <span class="id">${g.id}</span>
-          <span class="badge ${g.status.state}">${g.status.state.replace('_', ' ').toUpperCase()}</span>
+          <span class="badge ${statusState(g)}">${statusState(g).replace('_', ' ').toUpperCase()}</span>
         </div>
         <div class="preview-row">
           <div class="preview-col">
-            <label>1&times; Actual LED size (${width}&times;${height})</label>
-            <img src="/api/image?id=${encodeURIComponent(g.id)}"
-                 width="${width}" height="${height}"
-                 alt="${g.away.abbr} vs ${g.home.abbr}" />
-          </div>
+            <label>${fitWidth === width ? '1&times; Actual LED size' : 'Scaled to fit'} (${width}&times;${height})</label>
+            <img src="/api/image?id=${encodeURIComponent(g.id)}${iq}"
+                 width="${fitWidth}" height="${Math.round((height * fitWidth) / width)}"
+                 alt="${entryTitle(g)}" />
+          </div>${zoom ? `
           <div class="preview-col">
-            <label>2&times; Zoom (inspect detail)</label>
-            <img src="/api/image?id=${encodeURIComponent(g.id)}"
-                 width="${width * 2}" height="${height * 2}"
-                 alt="${g.away.abbr} vs ${g.home.abbr}"
+            <label>${zoom}&times; Zoom (inspect detail)</label>
+            <img src="/api/image?id=${encodeURIComponent(g.id)}${iq}"
+                 width="${width * zoom}" height="${height * zoom}"
+                 alt="${entryTitle(g)}"
                  style="image-rendering: pixelated;" />
-          </div>
+          </div>` : ''}
         </div>
       </div>`
     )
@@ -896,9 +2412,11 @@ app.get('/preview', (_req, res) => {
   <title>Sports Ticker Preview</title>
   <style>
     *{box-sizing:border-box;margin:0;padding:0}
-    body{background:#0a0a0a;color:#eee;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Arial,sans-serif;padding:24px;max-width:1100px;margin:0 auto}
+    body{background:${theme.colors.pageBackground};color:#eee;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Arial,sans-serif;padding:24px;max-width:1100px;margin:0 auto}
     h1{font-size:20px;margin-bottom:4px}
     .subtitle{color:#666;font-size:12px;margin-bottom:20px}
+    .subtitle a{color:#4af;text-decoration:none}
+    .subtitle strong{color:#eee}
     .url-box{background:#1a1a1a;border:1px solid #333;border-radius:6px;padding:12px 16px;margin-bottom:12px;display:flex;align-items:center;gap:12px}
     .url-box label{color:#888;font-size:12px;white-space:nowrap;min-width:120px}
     .url-box input{flex:1;background:#111;border:1px solid #444;color:#4af;padding:8px 12px;border-radius:4px;font-size:13px;font-family:monospace}
@@ -908,30 +2426,37 @@ app.get('/preview', (_req, res) => {
     .ticker-label{display:flex;justify-content:space-between;align-items:center;margin-bottom:6px}
     .ticker-label .id{color:#555;font-size:11px;font-family:monospace}
     .badge{font-size:10px;padding:2px 8px;border-radius:3px;font-weight:bold;text-transform:uppercase;letter-spacing:.5px}
-    .badge.in_progress{background:#ff3333;color:#fff}
+    .badge.in_progress{background:${theme.colors.live};color:#fff}
     .badge.final{background:#333;color:#aaa}
-    .badge.pre{background:#1a3a5c;color:#4af}
+    .badge.pre{background:#1a3a5c;color:${theme.colors.pre}}
     .preview-row{display:flex;gap:16px;align-items:flex-start;flex-wrap:wrap}
     .preview-col label{display:block;color:#555;font-size:10px;margin-bottom:4px;text-transform:uppercase;letter-spacing:.5px}
-    .preview-col img{display:block;border:1px solid #333;background:#000}
+    .preview-col img{display:block;border:1px solid #333;background:${theme.colors.background}}
   </style>
 </head>
 <body>
   <h1>Sports Ticker Preview</h1>
   <p class="subtitle">
-    ${currentGames.length} games &middot; Last updated ${lastUpdate.toLocaleTimeString()} &middot;
+    ${currentEntries.length} items &middot; Last updated ${lastUpdate.toLocaleTimeString()} &middot;
     Auto-refreshes every 30s &middot;
     Output: ${width}&times;${height} (rendered at ${width * scaleFactor}&times;${height * scaleFactor} then downscaled)
   </p>
+  <p class="subtitle">Profile: ${profileLinks}</p>
+  <p class="subtitle">Theme: ${themeLinks}</p>
 
   <div class="url-box">
     <label>NovaStar URL:</label>
-    <input type="text" value="${config.server.baseUrl}/ticker.html" readonly onclick="this.select()" />
+    <input type="text" value="${config.server.baseUrl}/ticker.html${pq}" readonly onclick="this.select()" />
     <button onclick="copy(this)">Copy</button>
   </div>
   <div class="url-box">
-    <label>Wide Ticker (3840x270):</label>
-    <input type="text" value="${config.server.baseUrl}/wide.html" readonly onclick="this.select()" />
+    <label>Wide Ticker:</label>
+    <input type="text" value="${config.server.baseUrl}/wide.html${pq}" readonly onclick="this.select()" />
+    <button onclick="copy(this)">Copy</button>
+  </div>
+  <div class="url-box">
+    <label>Animated GIF:</label>
+    <input type="text" value="${config.server.baseUrl}/ticker.gif${pq}" readonly onclick="this.select()" />
     <button onclick="copy(this)">Copy</button>
   </div>
   <div class="url-box">
@@ -939,6 +2464,16 @@ app.get('/preview', (_req, res) => {
     <input type="text" value="${rssUrl}" readonly onclick="this.select()" />
     <button onclick="copy(this)">Copy</button>
   </div>
+  <div class="url-box">
+    <label>Atom Feed:</label>
+    <input type="text" value="${config.server.baseUrl}/atom.xml${pq}" readonly onclick="this.select()" />
+    <button onclick="copy(this)">Copy</button>
+  </div>
+  <div class="url-box">
+    <label>JSON Feed:</label>
+    <input type="text" value="${config.server.baseUrl}/feed.json${pq}" readonly onclick="this.select()" />
+    <button onclick="copy(this)">Copy</button>
+  </div>
 
   ${gameCards}
 
@@ -958,6 +2493,331 @@ app.get('/preview', (_req, res) => {
   res.send(html);
 });
 
+// ═══════════════════════════════════════════════════════════════════════
+//  OPERATOR CONSOLE — hide, pin and score entries, preview every profile
+//
+//  A static page: the operator enters ADMIN_TOKEN once (kept in the
+//  browser's localStorage) and every read and change goes through the
+//  admin API above, so the data files are never edited by hand. Entries
+//  reload every 10s; previews only re-fetch when an entry's image changes.
+// ═══════════════════════════════════════════════════════════════════════
+app.get('/console', (_req, res) => {
+  const theme = defaultTheme();
+  const profiles = listProfiles().map((p) => ({ name: p.name, label: p.label, width: p.width, height: p.height }));
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8" />
+  <meta name="robots" content="noindex" />
+  <title>Sports Ticker Console</title>
+  <style>
+    *{box-sizing:border-box;margin:0;padding:0}
+    body{background:${theme.colors.pageBackground};color:#eee;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Arial,sans-serif;padding:24px;max-width:1400px;margin:0 auto}
+    h1{font-size:20px;margin-bottom:4px}
+    .subtitle{color:#666;font-size:12px;margin-bottom:16px}
+    .subtitle a{color:#4af;text-decoration:none}
+    .bar{background:#1a1a1a;border:1px solid #333;border-radius:6px;padding:12px 16px;margin-bottom:12px;display:flex;align-items:center;gap:12px;flex-wrap:wrap}
+    .bar label{color:#888;font-size:12px}
+    input,select{background:#111;border:1px solid #444;color:#eee;padding:6px 10px;border-radius:4px;font-size:13px}
+    input.token{flex:1;min-width:200px;font-family:monospace;color:#4af}
+    input.num{width:56px;text-align:center}
+    input.clock{width:72px}
+    button{background:#4af;color:#000;border:none;padding:6px 14px;border-radius:4px;cursor:pointer;font-weight:bold;font-size:12px}
+    button:hover{background:#5bf}
+    button.quiet{background:#333;color:#ddd}
+    button.quiet:hover{background:#444}
+    button.on{background:${theme.colors.live};color:#fff}
+    #msg{font-size:12px;color:#888;margin-left:auto}
+    #msg.error{color:#f66}
+    .entry{background:#141414;border:1px solid #2a2a2a;border-radius:6px;padding:12px 16px;margin-bottom:10px}
+    .entry.hidden{opacity:.55}
+    .entry.pinned{border-color:#4af}
+    .head{display:flex;align-items:center;gap:8px;flex-wrap:wrap;margin-bottom:8px}
+    .title{font-weight:bold;font-size:15px}
+    .status{color:#aaa;font-size:13px}
+    .id{color:#555;font-size:11px;font-family:monospace;margin-left:auto}
+    .badge{font-size:10px;padding:2px 8px;border-radius:3px;font-weight:bold;text-transform:uppercase;letter-spacing:.5px;background:#333;color:#aaa}
+    .badge.in_progress{background:${theme.colors.live};color:#fff}
+    .badge.pre{background:#1a3a5c;color:${theme.colors.pre}}
+    .badge.manual{background:#4a3a10;color:#fc6}
+    .badge.override{background:#3a1a4a;color:#d9f}
+    .badge.pin{background:#4af;color:#000}
+    .actions{display:flex;gap:8px;align-items:center;flex-wrap:wrap;margin-bottom:8px}
+    .actions .sep{width:1px;height:20px;background:#333;margin:0 4px}
+    .previews{display:flex;gap:12px;flex-wrap:wrap;align-items:flex-end}
+    .previews figure{display:flex;flex-direction:column;gap:4px}
+    .previews figcaption{color:#555;font-size:10px;text-transform:uppercase;letter-spacing:.5px}
+    .previews img{display:block;border:1px solid #333;background:${theme.colors.background};max-width:100%}
+    .off-air{color:#666;font-size:12px;font-style:italic}
+  </style>
+</head>
+<body>
+  <h1>Sports Ticker Console</h1>
+  <p class="subtitle">
+    Provider and manual entries as of the last refresh &middot; Changes go live on every output right away &middot;
+    <a href="/preview">Preview</a>
+  </p>
+
+  <div class="bar">
+    <label for="token">Admin token</label>
+    <input id="token" class="token" type="password" autocomplete="off" placeholder="ADMIN_TOKEN" />
+    <button id="signin">Sign in</button>
+    <button id="signout" class="quiet">Sign out</button>
+  </div>
+  <div class="bar">
+    <label for="profile">Preview</label>
+    <select id="profile"></select>
+    <label for="theme">Theme</label>
+    <select id="theme"></select>
+    <button id="refresh">Refresh now</button>
+    <span id="msg"></span>
+  </div>
+
+  <div id="entries"></div>
+
+  <script>
+    var PROFILES=${JSON.stringify(profiles)};
+    var THEMES=${JSON.stringify(listThemes())};
+    var DEFAULT_THEME=${JSON.stringify(theme.name)};
+    var STATES=['pre','in_progress','final'];
+    var token=localStorage.getItem('consoleToken')||'';
+    var entries=[];
+    var drafts={};     // manual-game edits not saved yet, by id
+    var $=function(id){return document.getElementById(id)};
+
+    function el(tag,cls,text){
+      var e=document.createElement(tag);
+      if(cls)e.className=cls;
+      if(text!==undefined)e.textContent=text;
+      return e;
+    }
+
+    function say(text,isError){
+      var m=$('msg');
+      m.textContent=text;
+      m.className=isError?'error':'';
+    }
+
+    function api(method,path,body,done){
+      if(!token){say('Enter the admin token to load entries',true);return}
+      var xhr=new XMLHttpRequest();
+      xhr.open(method,path);
+      xhr.setRequestHeader('Authorization','Bearer '+token);
+      if(body)xhr.setRequestHeader('Content-Type','application/json');
+      xhr.onload=function(){
+        var data=null;
+        try{data=xhr.responseText?JSON.parse(xhr.responseText):null}catch(e){}
+        if(xhr.status>=400){
+          say((data&&data.error)||('Request failed ('+xhr.status+')'),true);
+          return;
+        }
+        done(data);
+      };
+      xhr.onerror=function(){say('Server unreachable',true)};
+      xhr.send(body?JSON.stringify(body):null);
+    }
+
+    function load(){
+      api('GET','/api/admin/entries',null,function(data){
+        entries=data.entries;
+        render();
+        say(entries.length+' entries \\u00B7 refresh #'+data.refreshCount+' at '+new Date(data.updated).toLocaleTimeString());
+      });
+    }
+
+    // A change answers with the saved object; reload to see it published
+    function change(method,path,body,done){
+      api(method,path,body,function(){
+        if(done)done();
+        load();
+      });
+    }
+
+    function imageUrl(entry,profile){
+      var q='/api/image?id='+encodeURIComponent(entry.id)+'&profile='+encodeURIComponent(profile.name);
+      var theme=$('theme').value;
+      if(theme!==DEFAULT_THEME)q+='&theme='+encodeURIComponent(theme);
+      return q+'&v='+entry.version;
+    }
+
+    function previews(entry){
+      var box=el('div','previews');
+      if(entry.hidden){
+        box.appendChild(el('span','off-air','Hidden \\u2013 not on any output'));
+        return box;
+      }
+      var chosen=$('profile').value;
+      PROFILES.forEach(function(p){
+        if(chosen!=='all'&&chosen!==p.name)return;
+        var fig=el('figure');
+        fig.appendChild(el('figcaption','',p.name+' '+p.width+'\\u00D7'+p.height));
+        var img=el('img');
+        img.src=imageUrl(entry,p);
+        img.alt=entry.title;
+        // All profiles side by side: same height; one profile: actual size up to the page width
+        if(chosen==='all')img.style.height=Math.min(p.height,120)+'px';
+        else img.width=p.width;
+        fig.appendChild(img);
+        box.appendChild(fig);
+      });
+      return box;
+    }
+
+    function input(entry,field,cls,value){
+      var i=el('input',cls);
+      i.value=value===undefined||value===null?'':value;
+      i.setAttribute('data-key',entry.id+':'+field);
+      i.oninput=function(){draftFor(entry)[field]=i.value};
+      return i;
+    }
+
+    function draftFor(entry){
+      if(!drafts[entry.id]){
+        drafts[entry.id]={
+          away:entry.score.away,home:entry.score.home,
+          state:entry.status.state,period:entry.status.period,clock:entry.status.clock
+        };
+      }
+      return drafts[entry.id];
+    }
+
+    function saveManual(entry){
+      var d=draftFor(entry);
+      var status={state:d.state,clock:d.clock?String(d.clock):null};
+      status.period=d.period!==''&&d.period!==undefined&&d.period!==null?parseInt(d.period,10):null;
+      var body={score:{away:parseInt(d.away,10),home:parseInt(d.home,10)},status:status};
+      change('PATCH','/api/admin/games/'+encodeURIComponent(entry.id),body,function(){delete drafts[entry.id]});
+    }
+
+    function scoreEditor(entry){
+      var d=drafts[entry.id]||{
+        away:entry.score.away,home:entry.score.home,
+        state:entry.status.state,period:entry.status.period,clock:entry.status.clock
+      };
+      var box=el('div','actions');
+      ['away','home'].forEach(function(side){
+        box.appendChild(el('label','',entry[side]));
+        box.appendChild(input(entry,side,'num',d[side]));
+        var plus=el('button','quiet','+1');
+        plus.onclick=function(){
+          var draft=draftFor(entry);
+          draft[side]=(parseInt(draft[side],10)||0)+1;
+          saveManual(entry);
+        };
+        box.appendChild(plus);
+      });
+      box.appendChild(el('span','sep'));
+      var state=el('select');
+      state.setAttribute('data-key',entry.id+':state');
+      STATES.forEach(function(s){
+        var o=el('option','',s.replace('_',' '));
+        o.value=s;
+        if(s===d.state)o.selected=true;
+        state.appendChild(o);
+      });
+      state.onchange=function(){draftFor(entry).state=state.value};
+      box.appendChild(state);
+      box.appendChild(el('label','','Period'));
+      box.appendChild(input(entry,'period','num',d.period));
+      box.appendChild(el('label','','Clock'));
+      box.appendChild(input(entry,'clock','clock',d.clock));
+      var save=el('button','','Save');
+      save.onclick=function(){saveManual(entry)};
+      box.appendChild(save);
+      if(drafts[entry.id]){
+        var discard=el('button','quiet','Discard');
+        discard.onclick=function(){delete drafts[entry.id];render()};
+        box.appendChild(discard);
+      }
+      return box;
+    }
+
+    function toggle(entry,flag,label,onLabel){
+      var b=el('button',entry[flag]?'on':'quiet',entry[flag]?onLabel:label);
+      b.onclick=function(){
+        var body={};
+        body[flag]=!entry[flag];
+        change('PATCH','/api/admin/entries/'+encodeURIComponent(entry.id),body);
+      };
+      return b;
+    }
+
+    function render(){
+      // Rebuilding the list would drop the field being typed in; put focus back after
+      var focused=document.activeElement&&document.activeElement.getAttribute('data-key');
+      var list=$('entries');
+      list.innerHTML='';
+      if(entries.length===0)list.appendChild(el('p','off-air','No entries in the last refresh'));
+      entries.forEach(function(entry){
+        var card=el('div','entry'+(entry.hidden?' hidden':'')+(entry.pinned?' pinned':''));
+        var head=el('div','head');
+        head.appendChild(el('span','badge '+entry.state,entry.state.replace('_',' ')));
+        head.appendChild(el('span','badge',entry.league));
+        head.appendChild(el('span','title',entry.title));
+        head.appendChild(el('span','status',entry.statusText));
+        if(entry.source==='manual')head.appendChild(el('span','badge manual','manual'));
+        if(entry.overridden)head.appendChild(el('span','badge override','override'));
+        if(entry.pinned)head.appendChild(el('span','badge pin','pinned'));
+        head.appendChild(el('span','id',entry.id));
+        card.appendChild(head);
+
+        var actions=el('div','actions');
+        actions.appendChild(toggle(entry,'pinned','Pin','Unpin'));
+        actions.appendChild(toggle(entry,'hidden','Hide','Show'));
+        card.appendChild(actions);
+        if(entry.source==='manual'&&entry.type==='game')card.appendChild(scoreEditor(entry));
+        card.appendChild(previews(entry));
+        list.appendChild(card);
+      });
+      if(focused){
+        var again=document.querySelector('[data-key="'+focused.replace(/"/g,'')+'"]');
+        if(again)again.focus();
+      }
+    }
+
+    function option(select,value,label,selected){
+      var o=el('option','',label);
+      o.value=value;
+      if(selected)o.selected=true;
+      select.appendChild(o);
+    }
+
+    option($('profile'),'all','All profiles',true);
+    PROFILES.forEach(function(p){option($('profile'),p.name,p.label+' ('+p.width+'\\u00D7'+p.height+')')});
+    THEMES.forEach(function(t){option($('theme'),t,t,t===DEFAULT_THEME)});
+    $('profile').onchange=render;
+    $('theme').onchange=render;
+
+    $('token').value=token;
+    $('signin').onclick=function(){
+      token=$('token').value.trim();
+      localStorage.setItem('consoleToken',token);
+      load();
+    };
+    $('signout').onclick=function(){
+      token='';
+      localStorage.removeItem('consoleToken');
+      $('token').value='';
+      entries=[];
+      render();
+      say('Signed out');
+    };
+    $('refresh').onclick=function(){
+      say('Refreshing\\u2026');
+      api('POST','/api/admin/refresh',null,load);
+    };
+
+    load();
+    setInterval(function(){if(token)load()},10000);
+  </script>
+</body>
+</html>`;
+
+  res.set({ 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' });
+  res.send(html);
+});
+
 // Root redirect
 app.get('/', (_req, res) => {
   res.redirect('/preview');
@@ -973,19 +2833,21 @@ if (!config.isVercel) {
     }, config.cache.refreshIntervalMs);
 
     app.listen(config.server.port, config.server.host, () => {
-      console.log('');
-      console.log(`Server running at ${config.server.baseUrl}`);
-      console.log(`  Ticker:    ${config.server.baseUrl}/ticker.html`);
-      console.log(`  Wide:      ${config.server.baseUrl}/wide.html`);
-      console.log(`  RSS Feed:  ${config.server.baseUrl}/rss.xml`);
-      console.log(`  Preview:   ${config.server.baseUrl}/preview`);
-      console.log(`  Games API: ${config.server.baseUrl}/api/games`);
-      console.log(`  Feed API:  ${config.server.baseUrl}/api/feed`);
-      console.log(`  Health:    ${config.server.baseUrl}/health`);
-      console.log('');
+      const base = config.server.baseUrl;
+      log.info('Server running', {
+        baseUrl: base,
+        ticker: `${base}/ticker.html`,
+        wide: `${base}/wide.html`,
+        feeds: [`${base}/rss.xml`, `${base}/atom.xml`, `${base}/feed.json`],
+        preview: `${base}/preview`,
+        console: `${base}/console`,
+        health: `${base}/health`,
+        metrics: `${base}/metrics`,
+        admin: config.admin.token ? `${base}/api/admin` : 'disabled (set ADMIN_TOKEN)',
+      });
     });
   })().catch((err) => {
-    console.error('Fatal startup error:', err);
+    log.error('Fatal startup error', { err });
     process.exit(1);
   });
 }
@@ -0,0 +1,213 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Sponsor, SponsorOutput, SponsorPlacement } from '../types';
+import { createLogger } from '../utils/logger';
+
+// ═══════════════════════════════════════════════════════════════════════
+//  Sponsor slots
+//
+//  Sponsors are read from a JSON file (SPONSORS_FILE). A sponsor slot goes
+//  after every `every` feed items; slots are shared between the eligible
+//  sponsors by weight (inside their flight dates, allowed on the output,
+//  under their hourly cap). Impressions are counted per sponsor, output
+//  and day, and saved to a JSON file so reports survive restarts.
+// ═══════════════════════════════════════════════════════════════════════
+
+const log = createLogger('Sponsors');
+
+export interface SponsorImpressions {
+  total: number;
+  byOutput: Partial<Record<SponsorOutput, number>>;
+  byDay: Record<string, number>;    // YYYY-MM-DD (UTC) → impressions
+}
+
+export interface SponsorReportRow extends SponsorImpressions {
+  id: string;
+  name: string;
+}
+
+export interface SponsorManagerOptions {
+  every?: number;                   // a sponsor slot after every N items; 0 = off
+  impressionsFile?: string;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export class SponsorManager {
+  private sponsors: Sponsor[] = [];
+  private version = 'none';
+  private every: number;
+  private impressionsFile?: string;
+  private impressions: Record<string, SponsorImpressions> = {};
+  private recent = new Map<string, number[]>();   // impression times within the last hour
+  private cursors = new Map<SponsorOutput, number>();
+  private saveTimer: NodeJS.Timeout | null = null;
+
+  constructor(options: SponsorManagerOptions = {}) {
+    this.every = options.every ?? 4;
+    this.impressionsFile = options.impressionsFile && path.resolve(process.cwd(), options.impressionsFile);
+  }
+
+  /** Load sponsors from a JSON array file; a missing file means none. */
+  loadFromFile(filePath: string): void {
+    const resolved = path.resolve(process.cwd(), filePath);
+    if (!fs.existsSync(resolved)) {
+      this.sponsors = [];
+      this.version = 'none';
+      return;
+    }
+    const dir = path.dirname(resolved);
+    const raw = JSON.parse(fs.readFileSync(resolved, 'utf-8')) as Sponsor[];
+    // Creative and logo files are relative to the sponsors file
+    const local = (f?: string) => (f ? path.resolve(dir, f) : undefined);
+    this.sponsors = raw
+      .filter((s) => s.id && s.name && s.enabled !== false)
+      .map((s) => ({
+        ...s,
+        image: local(s.image),
+        logo: local(s.logo),
+        images: s.images && Object.fromEntries(Object.entries(s.images).map(([k, f]) => [k, local(f)!])),
+      }));
+    this.version = String(Math.round(fs.statSync(resolved).mtimeMs));
+    log.info('Loaded sponsors', { count: this.sponsors.length, file: filePath });
+  }
+
+  /** Load saved impression counts; a missing file starts from zero. */
+  loadImpressions(): void {
+    if (!this.impressionsFile || !fs.existsSync(this.impressionsFile)) return;
+    this.impressions = JSON.parse(fs.readFileSync(this.impressionsFile, 'utf-8'));
+  }
+
+  /** Changes when the sponsors file changes; part of sponsor image hashes. */
+  getVersion(): string {
+    return this.version;
+  }
+
+  getEvery(): number {
+    return this.every;
+  }
+
+  list(): Sponsor[] {
+    return this.sponsors;
+  }
+
+  find(id: string): Sponsor | undefined {
+    return this.sponsors.find((s) => s.id === id);
+  }
+
+  /** Sponsors that may take a slot on `output` right now. */
+  eligible(output: SponsorOutput, now = Date.now()): Sponsor[] {
+    return this.sponsors.filter((s) => {
+      if (s.outputs && s.outputs.length > 0 && !s.outputs.includes(output)) return false;
+      if (s.start && now < Date.parse(s.start)) return false;
+      if (s.end && now > Date.parse(s.end)) return false;
+      if (s.maxPerHour !== undefined && this.recentCount(s.id, now) >= s.maxPerHour) return false;
+      return true;
+    });
+  }
+
+  /**
+   * Insert a sponsor placement after every `every` items. `offset` rotates
+   * which sponsor takes the first slot, so short lists still share slots
+   * over time (callers pass a counter that moves between refreshes).
+   */
+  interleave<T>(items: T[], output: SponsorOutput, offset = 0): (T | SponsorPlacement)[] {
+    const cycle = this.cycle(output, offset);
+    if (this.every <= 0 || cycle.length === 0) return items;
+
+    const out: (T | SponsorPlacement)[] = [];
+    let slot = 0;
+    items.forEach((item, i) => {
+      out.push(item);
+      if ((i + 1) % this.every === 0) {
+        const sponsor = cycle[slot % cycle.length];
+        out.push({ type: 'sponsor', id: `sponsor-${sponsor.id}-${slot + 1}`, sponsor });
+        slot++;
+      }
+    });
+    return out;
+  }
+
+  /** Next sponsor for a live rotation (/ticker.png); null when none is eligible. */
+  next(output: SponsorOutput): Sponsor | null {
+    const cycle = this.cycle(output);
+    if (cycle.length === 0) return null;
+    const cursor = this.cursors.get(output) ?? 0;
+    this.cursors.set(output, cursor + 1);
+    return cycle[cursor % cycle.length];
+  }
+
+  recordImpression(id: string, output: SponsorOutput, now = Date.now()): void {
+    if (!this.find(id)) return;
+    const day = new Date(now).toISOString().slice(0, 10);
+    const counts = this.impressions[id] || (this.impressions[id] = { total: 0, byOutput: {}, byDay: {} });
+    counts.total++;
+    counts.byOutput[output] = (counts.byOutput[output] || 0) + 1;
+    counts.byDay[day] = (counts.byDay[day] || 0) + 1;
+
+    const recent = this.recent.get(id) || [];
+    recent.push(now);
+    this.recent.set(id, recent.filter((t) => now - t < HOUR_MS));
+    this.scheduleSave();
+  }
+
+  /**
+   * Impressions per sponsor. With `from` / `to` (YYYY-MM-DD, inclusive) the
+   * total covers only those days; `byOutput` is always all-time.
+   */
+  report(from?: string, to?: string): SponsorReportRow[] {
+    const ids = new Set([...this.sponsors.map((s) => s.id), ...Object.keys(this.impressions)]);
+    return [...ids].map((id) => {
+      const counts = this.impressions[id] || { total: 0, byOutput: {}, byDay: {} };
+      const byDay = Object.fromEntries(
+        Object.entries(counts.byDay).filter(([day]) => (!from || day >= from) && (!to || day <= to))
+      );
+      const total = from || to ? Object.values(byDay).reduce((sum, n) => sum + n, 0) : counts.total;
+      return { id, name: this.find(id)?.name || id, total, byOutput: counts.byOutput, byDay };
+    });
+  }
+
+  /**
+   * One full weighted cycle of the eligible sponsors, spread out by smooth
+   * weighted round-robin and rotated to start at `offset`.
+   */
+  cycle(output: SponsorOutput, offset = 0): Sponsor[] {
+    const sponsors = this.eligible(output);
+    const weights = sponsors.map((s) => Math.max(1, Math.round(s.weight ?? 1)));
+    const total = weights.reduce((sum, w) => sum + w, 0);
+    const current = weights.map(() => 0);
+    const cycle: Sponsor[] = [];
+    for (let n = 0; n < total; n++) {
+      let best = 0;
+      for (let i = 0; i < sponsors.length; i++) {
+        current[i] += weights[i];
+        if (current[i] > current[best]) best = i;
+      }
+      current[best] -= total;
+      cycle.push(sponsors[best]);
+    }
+    const start = total > 0 ? offset % total : 0;
+    return [...cycle.slice(start), ...cycle.slice(0, start)];
+  }
+
+  private recentCount(id: string, now: number): number {
+    return (this.recent.get(id) || []).filter((t) => now - t < HOUR_MS).length;
+  }
+
+  // Impressions arrive in bursts (every player poll); write at most every 5s
+  private scheduleSave(): void {
+    if (!this.impressionsFile || this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      fs.promises
+        .mkdir(path.dirname(this.impressionsFile!), { recursive: true })
+        .then(() => fs.promises.writeFile(this.impressionsFile!, JSON.stringify(this.impressions, null, 2)))
+        .catch((err) => log.error('Could not save impressions', { err }));
+    }, 5_000);
+    this.saveTimer.unref();
+  }
+}
+
+export function isSponsorPlacement(item: unknown): item is SponsorPlacement {
+  return (item as SponsorPlacement).type === 'sponsor';
+}
@@ -16,30 +16,41 @@ export interface GameStatus {
   period?: number;
   clock?: string;
   detail?: string;
+  betweenPeriods?: boolean; // `period` has ended (halftime, intermission)
+  shootout?: boolean;
+  // Football situation
+  possession?: 'home' | 'away';
+  down?: number;
+  distance?: number;
+  yardLine?: string;        // e.g. "KC 35"
+  // Baseball situation (`period` is the inning)
+  inningHalf?: 'top' | 'middle' | 'bottom' | 'end';
+  outs?: number;
 }
 
+// Canonical game model — RSS, PNG, ticker.html and wide.html all render
+// from the same Game objects published by FeedAggregator
 export interface Game {
   id: string;
-  league: string;
+  league: SportType;
+  leagueLabel?: string;     // badge text instead of the league (manual games, e.g. "IHSA")
   home: Team;
   away: Team;
   score: GameScore;
   status: GameStatus;
+  startTime?: string;       // ISO scheduled start (pre-game playlist window)
   updatedAt: string;
 }
 
-export interface DataProvider {
-  fetchGames(): Promise<Game[]>;
-}
-
-// ── Wide-format feed types ────────────────────────────────────────────
+export type SportType = 'NBA' | 'NHL' | 'NFL' | 'MLB' | 'NCAAF' | 'NCAAB' | 'PGA';
 
-export type SportType = 'NBA' | 'NHL' | 'PGA';
+// ── Wide-format feed types (/api/feed wire format) ────────────────────
 
 export interface GameFeedItem {
   type: 'game';
   id: string;
   sport: SportType;
+  leagueLabel?: string;
   away: { abbr: string; name: string; color: string; logoUrl: string; record?: string };
   home: { abbr: string; name: string; color: string; logoUrl: string; record?: string };
   awayScore: number;
@@ -47,6 +58,7 @@ export interface GameFeedItem {
   state: 'pre' | 'live' | 'final';
   statusText: string;
   periodLabel?: string;
+  possession?: 'home' | 'away'; // team with the ball / at bat
 }
 
 export interface PgaPlayer {
@@ -74,9 +86,212 @@ export type FeedItem = GameFeedItem | PgaFeedItem;
 export interface FeedResponse {
   items: FeedItem[];
   updated: string;
+  stale?: SportType[];    // sports whose provider is failing (last good data shown)
+}
+
+// ── Provider pipeline ─────────────────────────────────────────────────
+
+/** Anything a provider can publish: a team game or a golf leaderboard. */
+export type FeedEntry = Game | PgaFeedItem;
+
+export interface FeedSnapshot {
+  entries: FeedEntry[];
+  // Sorted, before hide/pin: what actually happened, for event detection and history
+  all: FeedEntry[];
+  updatedAt: Date;
+  stale: SportType[];     // sports served from their provider's last good fetch
+}
+
+export interface FeedProvider {
+  getSport(): SportType;
+  fetchEntries(): Promise<FeedEntry[]>;
+}
+
+/**
+ * Applied to the merged provider entries before a snapshot is published
+ * (manual games and admin overrides). `arrange`, if present, runs after the
+ * entries are sorted and may drop or reorder them (hidden and pinned items).
+ */
+export interface FeedOverlay {
+  apply(entries: FeedEntry[], now: Date): FeedEntry[];
+  arrange?(entries: FeedEntry[]): FeedEntry[];
+}
+
+export interface FeedProviderOptions {
+  dataFile?: string;
+  endpoint?: string;
+}
+
+export interface FeedProviderConfig {
+  key: string;
+  options?: FeedProviderOptions;
+}
+
+export interface FontSpec {
+  size: number;
+  weight: 'bold' | 'normal';
+}
+
+/**
+ * Named output size with the layout geometry and font sizes tuned for it.
+ * Selected per request with `?profile=` (see config.profiles).
+ */
+export interface DisplayProfile {
+  name: string;
+  label: string;
+  width: number;
+  height: number;
+  scaleFactor: number;      // render at Nx then downscale for LED sharpness
+  ticker: {
+    teamRowHeight: number;  // px height of each team row (away / home)
+    scorePanelWidth: number;
+    logoSize: number;
+    logoPadding: number;
+  };
+  fonts: {
+    score: FontSpec;
+    teamAbbr: FontSpec;
+    record: FontSpec;
+    status: FontSpec;
+    league: FontSpec;
+    liveIndicator: FontSpec;
+  };
+}
+
+export interface ThemeColors {
+  background: string;       // image / ticker.html backdrop, row dividers
+  scorePanelBg: string;
+  statusBarBg: string;
+  divider: string;          // status bar top border
+  text: string;             // scores, live clock
+  teamText: string;         // team abbreviation over the team color
+  dimText: string;          // league badge
+  recordText: string;       // team record over the team color
+  muted: string;            // pre-game score dash
+  live: string;
+  final: string;
+  pre: string;
+  possession: string;       // ball / at-bat marker
+  pageBackground: string;   // behind the wide.html marquee and /preview
+  tileBg: string;           // wide.html game tiles
+}
+
+/**
+ * Colors, fonts and borders shared by the canvas renderer and the HTML
+ * pages. Theme files only list what they change; the rest comes from the
+ * base theme in config.
+ */
+export interface Theme {
+  name: string;
+  label: string;
+  version: string;          // changes when the file changes; part of image cache hashes
+  colors: ThemeColors;
+  fonts: {
+    family: string;
+    cssUrl?: string;        // stylesheet for the HTML pages (e.g. Google Fonts)
+    files?: string[];       // TTF/OTF files registered with the canvas under `family`'s first name
+    weights: Partial<Record<keyof DisplayProfile['fonts'], string>>;
+  };
+  border: {
+    color: string;
+    width: number;
+    radius: number;         // wide.html tiles
+  };
+}
+
+// ── Sponsors ──────────────────────────────────────────────────────────
+
+export type SponsorOutput = 'ticker' | 'playlist' | 'rss' | 'wide';
+
+/**
+ * A sponsor from the sponsors file. Without a creative image the slot is a
+ * generated "Presented by" frame from `name`, `tagline`, `logo` and colors.
+ */
+export interface Sponsor {
+  id: string;
+  name: string;
+  image?: string;                   // creative, relative to the sponsors file
+  images?: Record<string, string>;  // creatives per profile name, e.g. { "strip": "acme-960x240.png" }
+  logo?: string;                    // generated frame only
+  tagline?: string;
+  color?: string;                   // generated frame background
+  textColor?: string;
+  weight?: number;                  // share of sponsor slots (default 1)
+  start?: string;                   // ISO date-time the flight starts / ends
+  end?: string;
+  maxPerHour?: number;              // impression cap across all outputs
+  outputs?: SponsorOutput[];        // default: all
+  enabled?: boolean;
+}
+
+/** A sponsor slot inserted between feed entries. */
+export interface SponsorPlacement {
+  type: 'sponsor';
+  id: string;                       // unique within the list
+  sponsor: Sponsor;
+}
+
+// ── Playlist engine ───────────────────────────────────────────────────
+
+/** How an item plays in the rotation; sets its default dwell and priority. */
+export type PlaylistKind = 'close' | 'live' | 'pre' | 'final';
+
+/**
+ * A daypart from the playlist file: a time window with its own rules.
+ * The first daypart matching the current local time applies.
+ */
+export interface Daypart {
+  name: string;
+  days?: string[];                  // 'sun'..'sat'; default every day
+  start: string;                    // 'HH:MM' local time (config.playlist.timezone)
+  end: string;                      // exclusive; before `start` wraps past midnight
+  leagues?: SportType[];            // only these leagues
+  kinds?: PlaylistKind[];           // only these kinds of item
+  dwellMs?: Partial<Record<PlaylistKind | 'sponsor', number>>;
+  priority?: Partial<Record<PlaylistKind, number>>;
+  leagueBoost?: Partial<Record<SportType, number>>;  // added to priority
+  preGameHours?: number;
+  maxItems?: number;
+}
+
+// ── Filters ───────────────────────────────────────────────────────────
+
+/** One filter rule; an entry matches when it passes every field given. */
+export interface FilterRule {
+  leagues?: SportType[];
+  teams?: string[];                 // abbreviations, optionally league-scoped ("NBA:CHI")
+  states?: ('pre' | 'live' | 'final')[];
+}
+
+/** A named filter from the presets file (`?preset=`): entries matching any rule. */
+export interface FilterPreset {
+  name: string;
+  label?: string;
+  rules: FilterRule[];
+}
+
+// ── Standings ─────────────────────────────────────────────────────────
+
+/** One team's line in a standings table. */
+export interface StandingsRow {
+  team: Team;
+  wins: number;
+  losses: number;
+  ties?: number;                    // NFL ties, NHL overtime losses
+  gamesBack: number;                // 0 for the group leader
+  streak: string;                   // "W3", "L1"
+}
+
+/** A conference or division table, ordered by standing. */
+export interface StandingsGroup {
+  id: string;                       // e.g. "nba-east", "nhl-atlantic"
+  league: SportType;
+  conference: string;
+  division?: string;
+  rows: StandingsRow[];
 }
 
-export interface WideFeedProvider {
+export interface StandingsProvider {
   getSport(): SportType;
-  fetchItems(): Promise<FeedItem[]>;
+  fetchStandings(): Promise<StandingsGroup[]>;
 }
@@ -1,5 +1,6 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { cacheLookups } from './metrics';
 
 interface CacheEntry {
   buffer: Buffer;
@@ -27,6 +28,13 @@ export class ImageCache {
     return entry.buffer;
   }
 
+  /** The cached image if it is still fresh for `dataHash`; counts a hit or miss. */
+  lookup(id: string, dataHash: string): Buffer | null {
+    const fresh = this.isStale(id, dataHash) ? null : this.get(id);
+    cacheLookups.inc({ cache: 'image', result: fresh ? 'hit' : 'miss' });
+    return fresh;
+  }
+
   isStale(id: string, dataHash: string): boolean {
     const entry = this.cache.get(id);
     if (!entry) return true;
@@ -0,0 +1,135 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// ═══════════════════════════════════════════════════════════════════════
+//  Structured logging
+//
+//  Every record is one JSON line: time, level, scope (the module, e.g.
+//  "Refresh" or "LogoCache"), msg, and any fields. Context set with
+//  withLogContext() — the request id for an HTTP request, the refresh
+//  number for a refresh cycle — is carried through every await by
+//  AsyncLocalStorage, so a provider call or logo download logged deep
+//  inside a render still says which request it was for.
+//
+//  Records go to the configured sinks: stdout and/or a size-rotated file
+//  (<file>, <file>.1 … <file>.<maxFiles>).
+// ═══════════════════════════════════════════════════════════════════════
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+export interface LoggingOptions {
+  level: LogLevel;
+  sinks: ('stdout' | 'file')[];
+  file: string;
+  maxBytes: number;       // rotate once the file reaches this size
+  maxFiles: number;       // rotated files kept next to the live one
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+const context = new AsyncLocalStorage<LogFields>();
+
+interface Sink {
+  write(line: string): void;
+}
+
+const stdoutSink: Sink = {
+  write: (line) => process.stdout.write(line),
+};
+
+// Appends to `file`; past `maxBytes` the file is shifted to .1 (and .1 to
+// .2, …) and a fresh one started. Writes are synchronous so a crash never
+// loses the record that explains it.
+class RotatingFileSink implements Sink {
+  private file: string;
+  private maxBytes: number;
+  private maxFiles: number;
+  private size = -1;
+
+  constructor(file: string, maxBytes: number, maxFiles: number) {
+    this.file = path.resolve(process.cwd(), file);
+    this.maxBytes = maxBytes;
+    this.maxFiles = maxFiles;
+  }
+
+  write(line: string): void {
+    try {
+      if (this.size < 0) {
+        fs.mkdirSync(path.dirname(this.file), { recursive: true });
+        this.size = fs.existsSync(this.file) ? fs.statSync(this.file).size : 0;
+      }
+      if (this.size > 0 && this.size + Buffer.byteLength(line) > this.maxBytes) this.rotate();
+      fs.appendFileSync(this.file, line);
+      this.size += Buffer.byteLength(line);
+    } catch (err) {
+      process.stderr.write(`Log file ${this.file} not writable: ${(err as Error).message}\n`);
+    }
+  }
+
+  private rotate(): void {
+    for (let i = this.maxFiles - 1; i >= 1; i--) {
+      const from = `${this.file}.${i}`;
+      if (fs.existsSync(from)) fs.renameSync(from, `${this.file}.${i + 1}`);
+    }
+    if (this.maxFiles > 0) fs.renameSync(this.file, `${this.file}.1`);
+    else fs.unlinkSync(this.file);
+    this.size = 0;
+  }
+}
+
+let minLevel = LEVELS.info;
+let sinks: Sink[] = [stdoutSink];
+
+/** Apply the logging config; until then records go to stdout at info. */
+export function configureLogging(options: LoggingOptions): void {
+  minLevel = LEVELS[options.level] ?? LEVELS.info;
+  sinks = [];
+  if (options.sinks.includes('stdout')) sinks.push(stdoutSink);
+  if (options.sinks.includes('file')) sinks.push(new RotatingFileSink(options.file, options.maxBytes, options.maxFiles));
+}
+
+/** Run `fn` with `fields` added to every record logged inside it, across awaits. */
+export function withLogContext<T>(fields: LogFields, fn: () => T): T {
+  return context.run({ ...context.getStore(), ...fields }, fn);
+}
+
+// Errors don't survive JSON.stringify; keep their message and stack
+function serialize(value: unknown): unknown {
+  if (value instanceof Error) return { name: value.name, message: value.message, stack: value.stack };
+  return value;
+}
+
+function emit(level: LogLevel, scope: string, msg: string, fields?: LogFields): void {
+  if (LEVELS[level] < minLevel) return;
+  const record: LogFields = { time: new Date().toISOString(), level, scope, msg, ...context.getStore() };
+  for (const [key, value] of Object.entries(fields || {})) {
+    if (value !== undefined) record[key] = serialize(value);
+  }
+  let line: string;
+  try {
+    line = `${JSON.stringify(record)}\n`;
+  } catch {
+    line = `${JSON.stringify({ time: record.time, level, scope, msg, unserializable: true })}\n`;
+  }
+  for (const sink of sinks) sink.write(line);
+}
+
+export interface Logger {
+  debug(msg: string, fields?: LogFields): void;
+  info(msg: string, fields?: LogFields): void;
+  warn(msg: string, fields?: LogFields): void;
+  error(msg: string, fields?: LogFields): void;
+}
+
+/** A logger whose records carry `scope`, e.g. createLogger('Webhooks'). */
+export function createLogger(scope: string): Logger {
+  return {
+    debug: (msg, fields) => emit('debug', scope, msg, fields),
+    info: (msg, fields) => emit('info', scope, msg, fields),
+    warn: (msg, fields) => emit('warn', scope, msg, fields),
+    error: (msg, fields) => emit('error', scope, msg, fields),
+  };
+}
@@ -2,6 +2,12 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import https from 'https';
 import http from 'http';
+import { cacheLookups, metrics } from './metrics';
+import { createLogger } from './logger';
+
+const log = createLogger('LogoCache');
+
+const downloadFailures = metrics.counter('ticker_logo_download_failures_total', 'Team logos that could not be downloaded');
 
 export class LogoCache {
   private dir: string;
@@ -20,6 +26,7 @@ export class LogoCache {
 
     // Check memory cache
     if (this.memCache.has(url)) {
+      cacheLookups.inc({ cache: 'logo', result: 'hit' });
       return this.memCache.get(url)!;
     }
 
@@ -29,10 +36,12 @@ export class LogoCache {
     try {
       const buffer = await fs.readFile(filepath);
       this.memCache.set(url, buffer);
+      cacheLookups.inc({ cache: 'logo', result: 'hit' });
       return buffer;
     } catch {
       // Not cached on disk, continue to download
     }
+    cacheLookups.inc({ cache: 'logo', result: 'miss' });
 
     // Download
     try {
@@ -41,7 +50,8 @@ export class LogoCache {
       this.memCache.set(url, buffer);
       return buffer;
     } catch (err) {
-      console.warn(`[LogoCache] Failed to download logo: ${url}`, (err as Error).message);
+      downloadFailures.inc();
+      log.warn('Failed to download logo', { url, error: (err as Error).message });
       return null;
     }
   }
@@ -0,0 +1,200 @@
+// ═══════════════════════════════════════════════════════════════════════
+//  Prometheus metrics
+//
+//  A small in-process registry of counters, gauges and histograms, written
+//  out in the Prometheus text exposition format (version 0.0.4) by
+//  /metrics. Modules register their metrics on the shared `metrics`
+//  registry at load time; values that are cheaper to read than to track
+//  (feed age, provider state) are filled in by collect hooks at scrape time.
+// ═══════════════════════════════════════════════════════════════════════
+
+type Labels = Record<string, string>;
+
+// Default buckets (seconds): 5ms … 30s, wide enough for renders and provider calls
+export const DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+function labelKey(labels: Labels): string {
+  return Object.keys(labels)
+    .sort()
+    .map((k) => `${k}="${escapeLabel(labels[k])}"`)
+    .join(',');
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+function series(name: string, key: string, value: number): string {
+  return `${name}${key ? `{${key}}` : ''} ${formatValue(value)}`;
+}
+
+interface Metric {
+  name: string;
+  help: string;
+  type: 'counter' | 'gauge' | 'histogram';
+  lines(): string[];
+}
+
+export class Counter implements Metric {
+  readonly type = 'counter';
+  readonly name: string;
+  readonly help: string;
+  private values = new Map<string, number>();
+
+  constructor(name: string, help: string) {
+    this.name = name;
+    this.help = help;
+  }
+
+  inc(labels: Labels = {}, by = 1): void {
+    const key = labelKey(labels);
+    this.values.set(key, (this.values.get(key) || 0) + by);
+  }
+
+  lines(): string[] {
+    return [...this.values].map(([key, value]) => series(this.name, key, value));
+  }
+}
+
+export class Gauge implements Metric {
+  readonly type = 'gauge';
+  readonly name: string;
+  readonly help: string;
+  private values = new Map<string, number>();
+
+  constructor(name: string, help: string) {
+    this.name = name;
+    this.help = help;
+  }
+
+  set(labels: Labels, value: number): void {
+    this.values.set(labelKey(labels), value);
+  }
+
+  /** Drop every series (before a collect hook re-sets the current ones). */
+  reset(): void {
+    this.values.clear();
+  }
+
+  lines(): string[] {
+    return [...this.values].map(([key, value]) => series(this.name, key, value));
+  }
+}
+
+interface HistogramSeries {
+  labels: Labels;
+  counts: number[];     // per bucket, not cumulative
+  sum: number;
+  count: number;
+}
+
+export class Histogram implements Metric {
+  readonly type = 'histogram';
+  readonly name: string;
+  readonly help: string;
+  private buckets: number[];
+  private data = new Map<string, HistogramSeries>();
+
+  constructor(name: string, help: string, buckets: number[] = DURATION_BUCKETS) {
+    this.name = name;
+    this.help = help;
+    this.buckets = buckets;
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    let s = this.data.get(key);
+    if (!s) {
+      s = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.data.set(key, s);
+    }
+    const i = this.buckets.findIndex((b) => value <= b);
+    if (i >= 0) s.counts[i]++;
+    s.sum += value;
+    s.count++;
+  }
+
+  /** Observe how long `fn` takes, in seconds, whether it resolves or throws. */
+  async time<T>(labels: Labels, fn: () => Promise<T>): Promise<T> {
+    const start = process.hrtime.bigint();
+    try {
+      return await fn();
+    } finally {
+      this.observe(labels, Number(process.hrtime.bigint() - start) / 1e9);
+    }
+  }
+
+  lines(): string[] {
+    const out: string[] = [];
+    for (const s of this.data.values()) {
+      let cumulative = 0;
+      this.buckets.forEach((bound, i) => {
+        cumulative += s.counts[i];
+        out.push(series(`${this.name}_bucket`, labelKey({ ...s.labels, le: String(bound) }), cumulative));
+      });
+      out.push(series(`${this.name}_bucket`, labelKey({ ...s.labels, le: '+Inf' }), s.count));
+      out.push(series(`${this.name}_sum`, labelKey(s.labels), s.sum));
+      out.push(series(`${this.name}_count`, labelKey(s.labels), s.count));
+    }
+    return out;
+  }
+}
+
+export class MetricsRegistry {
+  private metrics = new Map<string, Metric>();
+  private collectors: (() => void)[] = [];
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.register(new Gauge(name, help));
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  /** Run before every scrape, to set gauges from current state. */
+  onCollect(collect: () => void): void {
+    this.collectors.push(collect);
+  }
+
+  /** Every metric in the Prometheus text format. */
+  render(): string {
+    for (const collect of this.collectors) collect();
+    const blocks = [...this.metrics.values()].map((m) =>
+      [`# HELP ${m.name} ${m.help}`, `# TYPE ${m.name} ${m.type}`, ...m.lines()].join('\n')
+    );
+    return `${blocks.join('\n')}\n`;
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    if (this.metrics.has(metric.name)) throw new Error(`Metric ${metric.name} is already registered`);
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
+
+export const metrics = new MetricsRegistry();
+
+// ── Shared across modules ──────────────────────────────────────────────
+
+/** Lookups against the image, logo and animation caches, by result. */
+export const cacheLookups = metrics.counter(
+  'ticker_cache_lookups_total',
+  'Cache lookups by cache (image, logo, animation) and result (hit, miss)'
+);
+
+export const renderSeconds = metrics.histogram(
+  'ticker_render_duration_seconds',
+  'Time to render an image or animation, by kind'
+);
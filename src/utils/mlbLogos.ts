@@ -0,0 +1,18 @@
+// MLB team abbreviation → ESPN CDN logo URL mapping
+// Source: https://a.espncdn.com/i/teamlogos/mlb/500/{code}.png
+
+const MLB_CODES: Record<string, string> = {
+  ARI: 'ari', ATL: 'atl', BAL: 'bal', BOS: 'bos', CHC: 'chc',
+  CHW: 'chw', CWS: 'chw', CIN: 'cin', CLE: 'cle', COL: 'col',
+  DET: 'det', HOU: 'hou', KC:  'kc',  LAA: 'laa', LAD: 'lad',
+  MIA: 'mia', MIL: 'mil', MIN: 'min', NYM: 'nym', NYY: 'nyy',
+  ATH: 'ath', OAK: 'oak', PHI: 'phi', PIT: 'pit', SD:  'sd',
+  SF:  'sf',  SEA: 'sea', STL: 'stl', TB:  'tb',  TEX: 'tex',
+  TOR: 'tor', WSH: 'wsh',
+};
+
+export function getMlbLogoUrl(abbr: string): string {
+  const code = MLB_CODES[abbr.toUpperCase()];
+  if (!code) return '';
+  return `https://a.espncdn.com/i/teamlogos/mlb/500/${code}.png`;
+}
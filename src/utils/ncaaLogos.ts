@@ -0,0 +1,22 @@
+// NCAA school abbreviation → ESPN CDN logo URL mapping (football and basketball)
+// Source: https://a.espncdn.com/i/teamlogos/ncaa/500/{espnTeamId}.png
+// College logos are keyed by ESPN team id, so only schools listed here resolve;
+// games from the scoreboard API carry their own logo URLs.
+
+const NCAA_IDS: Record<string, string> = {
+  ALA:  '333',  ARIZ: '12',   ARK:  '8',    AUB:  '2',    BAY:  '239',
+  CLEM: '228',  CONN: '41',   CREI: '156',  DUKE: '150',  FLA:  '57',
+  FSU:  '52',   GONZ: '2250', HOU:  '248',  ILL:  '356',  IND:  '84',
+  IOWA: '2294', KU:   '2305', UK:   '96',   LSU:  '99',   LOU:  '97',
+  MARQ: '269',  MIA:  '2390', MICH: '130',  MSU:  '127',  UNC:  '153',
+  ND:   '87',   NU:   '77',   OSU:  '194',  OKLA: '201',  ORE:  '2483',
+  PSU:  '213',  PUR:  '2509', SYR:  '183',  TENN: '2633', TEX:  '251',
+  TA_M: '245',  UCLA: '26',   UGA:  '61',   USC:  '30',   VILL: '222',
+  WIS:  '275',
+};
+
+export function getNcaaLogoUrl(abbr: string): string {
+  const id = NCAA_IDS[abbr.toUpperCase().replace('&', '_')];
+  if (!id) return '';
+  return `https://a.espncdn.com/i/teamlogos/ncaa/500/${id}.png`;
+}
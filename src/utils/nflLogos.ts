@@ -0,0 +1,18 @@
+// NFL team abbreviation → ESPN CDN logo URL mapping
+// Source: https://a.espncdn.com/i/teamlogos/nfl/500/{code}.png
+
+const NFL_CODES: Record<string, string> = {
+  ARI: 'ari', ATL: 'atl', BAL: 'bal', BUF: 'buf', CAR: 'car',
+  CHI: 'chi', CIN: 'cin', CLE: 'cle', DAL: 'dal', DEN: 'den',
+  DET: 'det', GB:  'gb',  HOU: 'hou', IND: 'ind', JAX: 'jax',
+  KC:  'kc',  LV:  'lv',  LAC: 'lac', LAR: 'lar', MIA: 'mia',
+  MIN: 'min', NE:  'ne',  NO:  'no',  NYG: 'nyg', NYJ: 'nyj',
+  PHI: 'phi', PIT: 'pit', SF:  'sf',  SEA: 'sea', TB:  'tb',
+  TEN: 'ten', WSH: 'wsh', WAS: 'wsh',
+};
+
+export function getNflLogoUrl(abbr: string): string {
+  const code = NFL_CODES[abbr.toUpperCase()];
+  if (!code) return '';
+  return `https://a.espncdn.com/i/teamlogos/nfl/500/${code}.png`;
+}
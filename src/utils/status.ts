@@ -0,0 +1,175 @@
+import { Game, SportType } from '../types';
+
+// ═══════════════════════════════════════════════════════════════════════
+//  Sport-aware game status formatting
+//
+//  Single source for period / clock / final labels and in-game
+//  situation (down & distance, inning half and outs). RSS, the canvas
+//  renderer, /api/feed tiles and ticker.html all go through here so a
+//  hockey game never reads "Q3" and overtime reads the same everywhere.
+// ═══════════════════════════════════════════════════════════════════════
+
+type PeriodUnit = 'quarter' | 'period' | 'half' | 'inning';
+
+interface PeriodScheme {
+  unit: PeriodUnit;
+  regulation: number;     // periods before overtime
+  halftimeAfter?: number; // break after this period is "Halftime"
+}
+
+const SCHEMES: Partial<Record<SportType, PeriodScheme>> = {
+  NBA:   { unit: 'quarter', regulation: 4, halftimeAfter: 2 },
+  NFL:   { unit: 'quarter', regulation: 4, halftimeAfter: 2 },
+  NCAAF: { unit: 'quarter', regulation: 4, halftimeAfter: 2 },
+  NCAAB: { unit: 'half',    regulation: 2, halftimeAfter: 1 },
+  NHL:   { unit: 'period',  regulation: 3 },
+  MLB:   { unit: 'inning',  regulation: 9 },
+};
+
+const INNING_HALVES = {
+  top:    { display: 'TOP', text: 'Top' },
+  middle: { display: 'MID', text: 'Middle' },
+  bottom: { display: 'BOT', text: 'Bottom' },
+  end:    { display: 'END', text: 'End' },
+};
+
+const DEFAULT_SCHEME: PeriodScheme = { unit: 'quarter', regulation: 4, halftimeAfter: 2 };
+
+/**
+ * `display` is for on-screen labels (upper case, compact: "FINAL/OT",
+ * "END Q1"); `text` is for prose such as RSS ("Final/OT", "End of Q1").
+ */
+export type StatusStyle = 'display' | 'text';
+
+export interface StatusFormatOptions {
+  style?: StatusStyle;
+  /** Between period label and clock, e.g. " · " on screen. */
+  separator?: string;
+}
+
+function schemeFor(sport: SportType): PeriodScheme {
+  return SCHEMES[sport] || DEFAULT_SCHEME;
+}
+
+export function ordinal(n: number): string {
+  const mod100 = n % 100;
+  if (mod100 >= 11 && mod100 <= 13) return `${n}th`;
+  switch (n % 10) {
+    case 1: return `${n}st`;
+    case 2: return `${n}nd`;
+    case 3: return `${n}rd`;
+    default: return `${n}th`;
+  }
+}
+
+/** Short period label: "Q3", "2nd", "1H", "OT", "2OT", "SO", "7th" (inning). */
+export function formatPeriod(sport: SportType, period: number, shootout = false): string {
+  const scheme = schemeFor(sport);
+  if (shootout) return 'SO';
+  // Extra innings are just more innings
+  if (scheme.unit === 'inning') return ordinal(period);
+  if (period > scheme.regulation) {
+    const ot = period - scheme.regulation;
+    return ot === 1 ? 'OT' : `${ot}OT`;
+  }
+  switch (scheme.unit) {
+    case 'quarter': return `Q${period}`;
+    case 'half':    return `${period}H`;
+    case 'period':  return ordinal(period);
+  }
+}
+
+/** Label for the break after `period`: halftime, intermission or end of period. */
+function formatBreak(sport: SportType, period: number, style: StatusStyle): string {
+  const scheme = schemeFor(sport);
+  if (scheme.halftimeAfter === period) {
+    return style === 'display' ? 'HALFTIME' : 'Halftime';
+  }
+  if (scheme.unit === 'period' && period < scheme.regulation) {
+    return style === 'display'
+      ? `${ordinal(period).toUpperCase()} INT`
+      : `${ordinal(period)} Intermission`;
+  }
+  const label = formatPeriod(sport, period);
+  return style === 'display' ? `END ${label}`.toUpperCase() : `End of ${label}`;
+}
+
+/** "FINAL", "FINAL/OT", "FINAL/2OT", "FINAL/SO" (or title case for `text`). */
+function formatFinal(game: Game, style: StatusStyle): string {
+  const word = style === 'display' ? 'FINAL' : 'Final';
+  const scheme = schemeFor(game.league);
+  const period = game.status.period || 0;
+  if (game.status.shootout) return `${word}/SO`;
+  if (period > scheme.regulation) {
+    // Baseball convention is the inning count ("F/10"), not an OT label
+    const suffix = scheme.unit === 'inning' ? String(period) : formatPeriod(game.league, period);
+    return `${word}/${suffix}`;
+  }
+  return word;
+}
+
+/** Team with the ball (football) or at bat (baseball), while live. */
+export function possessionSide(game: Game): 'home' | 'away' | undefined {
+  const s = game.status;
+  if (s.state !== 'in_progress' || s.betweenPeriods) return undefined;
+  if (schemeFor(game.league).unit === 'inning') {
+    if (s.inningHalf === 'top') return 'away';
+    if (s.inningHalf === 'bottom') return 'home';
+    return undefined;
+  }
+  return s.possession;
+}
+
+/**
+ * Game situation beyond the clock: down and distance ("3rd & 7 at KC 35")
+ * for football, outs for baseball. Empty when there is nothing to add.
+ */
+export function formatSituation(game: Game, style: StatusStyle = 'display'): string {
+  const s = game.status;
+  if (s.state !== 'in_progress' || s.betweenPeriods) return '';
+
+  if (schemeFor(game.league).unit === 'inning') {
+    if (s.outs === undefined || s.inningHalf === 'middle' || s.inningHalf === 'end') return '';
+    const outs = `${s.outs} ${s.outs === 1 ? 'Out' : 'Outs'}`;
+    return style === 'display' ? outs.toUpperCase() : outs;
+  }
+
+  if (s.down) {
+    const distance = s.distance === 0 ? 'Goal' : String(s.distance ?? '');
+    const downText = `${ordinal(s.down)} & ${distance}`;
+    if (style === 'display') return downText.toUpperCase();
+    return s.yardLine ? `${downText} at ${s.yardLine}` : downText;
+  }
+  return '';
+}
+
+/** Full status line for a game in any state. */
+export function formatStatus(game: Game, options: StatusFormatOptions = {}): string {
+  const style = options.style || 'display';
+  const separator = options.separator ?? ' ';
+  const s = game.status;
+
+  if (s.state === 'final') return formatFinal(game, style);
+  if (s.state === 'pre') return s.detail || (style === 'display' ? 'UPCOMING' : 'Upcoming');
+
+  const period = s.period || 1;
+  const situation = formatSituation(game, style);
+
+  // Prose reads "Q3 8:42, 3rd & 7 at BUF 35"; on screen it's one separated line
+  const situationSep = style === 'text' ? ', ' : separator;
+
+  if (schemeFor(game.league).unit === 'inning') {
+    // A missing or unknown half (stored data may predate validation) is left
+    // out rather than guessed
+    const known = s.inningHalf && Object.hasOwn(INNING_HALVES, s.inningHalf) ? INNING_HALVES[s.inningHalf] : null;
+    const number = style === 'display' ? ordinal(period).toUpperCase() : ordinal(period);
+    const inning = known ? `${known[style]} ${number}` : number;
+    return situation ? `${inning}${situationSep}${situation}` : inning;
+  }
+
+  if (s.betweenPeriods) return formatBreak(game.league, period, style);
+
+  const label = formatPeriod(game.league, period, s.shootout);
+  const clock = s.clock ? `${label}${separator}${s.clock}` : label;
+  return situation ? `${clock}${situationSep}${situation}` : clock;
+}
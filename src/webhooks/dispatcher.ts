@@ -0,0 +1,198 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { GameEvent, GameEventType } from '../feed/events';
+import { createLogger } from '../utils/logger';
+
+// ═══════════════════════════════════════════════════════════════════════
+//  Outbound webhooks for game events
+//
+//  Subscriptions are read from a JSON file (WEBHOOKS_FILE). Each matching
+//  event is POSTed as JSON, signed with HMAC-SHA256 over
+//  "<timestamp>.<body>" using the subscription's secret, and retried with
+//  exponential backoff. Recent deliveries are kept for /api/webhooks/deliveries.
+// ═══════════════════════════════════════════════════════════════════════
+
+const log = createLogger('Webhooks');
+
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  secret?: string;
+  /** `slack` posts `{ text }` for Slack-style incoming webhooks. */
+  format?: 'json' | 'slack';
+  leagues?: string[];
+  teams?: string[];
+  events?: GameEventType[];
+  enabled?: boolean;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  subscriptionId: string;
+  url: string;
+  eventSeq: number;
+  eventType: GameEventType;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  responseStatus?: number;
+  error?: string;
+  createdAt: string;
+  lastAttemptAt?: string;
+}
+
+export interface WebhookDispatcherOptions {
+  maxAttempts?: number;
+  baseDelayMs?: number;   // first retry delay; doubles per attempt
+  timeoutMs?: number;
+  logSize?: number;
+}
+
+export class WebhookDispatcher {
+  private subscriptions: WebhookSubscription[] = [];
+  private deliveries: WebhookDelivery[] = [];
+  private maxAttempts: number;
+  private baseDelayMs: number;
+  private timeoutMs: number;
+  private logSize: number;
+
+  constructor(options: WebhookDispatcherOptions = {}) {
+    this.maxAttempts = options.maxAttempts ?? 5;
+    this.baseDelayMs = options.baseDelayMs ?? 2_000;
+    this.timeoutMs = options.timeoutMs ?? 10_000;
+    this.logSize = options.logSize ?? 200;
+  }
+
+  /** Load subscriptions from a JSON array file; a missing file means none. */
+  loadFromFile(filePath: string): void {
+    const resolved = path.resolve(process.cwd(), filePath);
+    if (!fs.existsSync(resolved)) {
+      this.subscriptions = [];
+      return;
+    }
+    const raw = JSON.parse(fs.readFileSync(resolved, 'utf-8')) as WebhookSubscription[];
+    this.subscriptions = raw.filter((s) => s.url && s.enabled !== false);
+    log.info('Loaded subscriptions', { count: this.subscriptions.length, file: filePath });
+  }
+
+  setSubscriptions(subscriptions: WebhookSubscription[]): void {
+    this.subscriptions = subscriptions.filter((s) => s.url && s.enabled !== false);
+  }
+
+  /** Subscriptions without their secrets, for the API. */
+  listSubscriptions(): (Omit<WebhookSubscription, 'secret'> & { signed: boolean })[] {
+    return this.subscriptions.map(({ secret, ...rest }) => ({ ...rest, signed: !!secret }));
+  }
+
+  listDeliveries(subscriptionId?: string): WebhookDelivery[] {
+    return subscriptionId
+      ? this.deliveries.filter((d) => d.subscriptionId === subscriptionId)
+      : this.deliveries;
+  }
+
+  /** Queue deliveries for every subscription matching each event. Never throws. */
+  dispatch(events: GameEvent[]): void {
+    for (const event of events) {
+      for (const sub of this.subscriptions) {
+        if (!matches(sub, event)) continue;
+        const delivery = this.record({
+          id: crypto.randomUUID(),
+          subscriptionId: sub.id,
+          url: sub.url,
+          eventSeq: event.seq,
+          eventType: event.type,
+          status: 'pending',
+          attempts: 0,
+          createdAt: new Date().toISOString(),
+        });
+        void this.attempt(sub, event, delivery);
+      }
+    }
+  }
+
+  private async attempt(sub: WebhookSubscription, event: GameEvent, delivery: WebhookDelivery): Promise<void> {
+    delivery.attempts++;
+    delivery.lastAttemptAt = new Date().toISOString();
+
+    const body = JSON.stringify(
+      sub.format === 'slack'
+        ? { text: event.message }
+        : { subscription: sub.id, delivery: delivery.id, event }
+    );
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'User-Agent': 'rss-sports-feed-webhooks',
+      'X-Ticker-Event': event.type,
+      'X-Ticker-Delivery': delivery.id,
+      'X-Ticker-Timestamp': timestamp,
+    };
+    if (sub.secret) {
+      headers['X-Ticker-Signature'] = `sha256=${sign(sub.secret, timestamp, body)}`;
+    }
+
+    try {
+      const res = await fetch(sub.url, {
+        method: 'POST',
+        headers,
+        body,
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+      delivery.responseStatus = res.status;
+      if (res.ok) {
+        delivery.status = 'delivered';
+        delivery.error = undefined;
+        return;
+      }
+      delivery.error = `HTTP ${res.status}`;
+      // Client errors other than rate limiting won't succeed on retry
+      if (res.status < 500 && res.status !== 429) {
+        delivery.status = 'failed';
+        return;
+      }
+    } catch (err) {
+      delivery.error = (err as Error).message;
+    }
+
+    if (delivery.attempts >= this.maxAttempts) {
+      delivery.status = 'failed';
+      log.warn('Giving up on delivery', {
+        subscription: sub.id, event: delivery.eventSeq, attempts: delivery.attempts, error: delivery.error,
+      });
+      return;
+    }
+
+    const delay = this.baseDelayMs * 2 ** (delivery.attempts - 1);
+    setTimeout(() => void this.attempt(sub, event, delivery), delay).unref();
+  }
+
+  private record(delivery: WebhookDelivery): WebhookDelivery {
+    this.deliveries.push(delivery);
+    if (this.deliveries.length > this.logSize) {
+      this.deliveries.splice(0, this.deliveries.length - this.logSize);
+    }
+    return delivery;
+  }
+}
+
+/**
+ * Hex HMAC-SHA256 of "<timestamp>.<body>". Receivers recompute it with the
+ * shared secret and compare against the X-Ticker-Signature header.
+ */
+export function sign(secret: string, timestamp: string, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+function matches(sub: WebhookSubscription, event: GameEvent): boolean {
+  if (sub.events && sub.events.length > 0 && !sub.events.includes(event.type)) return false;
+  if (sub.leagues && sub.leagues.length > 0 &&
+      !sub.leagues.map((l) => l.toUpperCase()).includes(event.league)) return false;
+  if (sub.teams && sub.teams.length > 0) {
+    const teams = sub.teams.map((t) => t.toUpperCase());
+    // "Favorite team scores": when a team filter is set, scoring events must
+    // be by that team; other event types match either side of the game
+    if (event.type === 'scored') return !!event.team && teams.includes(event.team);
+    if (!teams.includes(event.home) && !teams.includes(event.away)) return false;
+  }
+  return true;
+}
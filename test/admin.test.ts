@@ -0,0 +1,155 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AdminStore } from '../src/admin/adminStore';
+import { Game } from '../src/types';
+
+// Validation of manual games and overrides, and override expiry
+
+const HOUR = 60 * 60_000;
+const now = new Date('2026-02-24T20:00:00.000Z');
+
+function withStore(run: (store: AdminStore, file: string) => Promise<void>) {
+  return async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ticker-test-'));
+    const file = path.join(dir, 'admin.json');
+    try {
+      await run(new AdminStore({ file, overrideTtlMs: 4 * HOUR, maxOverrideTtlMs: 7 * 24 * HOUR }), file);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  };
+}
+
+const game = {
+  league: 'MLB',
+  home: { abbr: 'NYY', name: 'Yankees' },
+  away: { abbr: 'BOS', name: 'Red Sox' },
+  startTime: '2026-02-24T23:05:00.000Z',
+};
+
+const provider: Game = {
+  id: 'nba-phi-chi-20260224',
+  league: 'NBA',
+  home: { abbr: 'CHI', name: 'Bulls', color: '#CE1141' },
+  away: { abbr: 'PHI', name: '76ers', color: '#006BB6' },
+  score: { home: 113, away: 111 },
+  status: { state: 'in_progress', period: 4, clock: '3:52' },
+  updatedAt: '2026-02-24T19:59:00.000Z',
+};
+
+test('a manual game gets defaults and a manual- id', withStore(async (store) => {
+  const created = await store.createGame(game, now);
+  assert.ok(!('error' in created));
+  assert.equal(created.id, 'manual-bos-nyy-20260224');
+  assert.deepEqual(created.score, { home: 0, away: 0 });
+  assert.deepEqual(created.status, { state: 'pre' });
+
+  // Same matchup again gets a suffix rather than clobbering the first
+  const again = await store.createGame(game, now);
+  assert.ok(!('error' in again));
+  assert.notEqual(again.id, created.id);
+
+  const aggies = await store.createGame({ ...game, away: { abbr: 'ta&m', name: 'Texas A&M' } }, now);
+  assert.ok(!('error' in aggies));
+  assert.equal(aggies.away.abbr, 'TA&M');
+}));
+
+test('bad manual games are refused with a message', withStore(async (store) => {
+  const cases: [Record<string, any>, RegExp][] = [
+    [{ league: 'XFL' }, /^league must be one of/],
+    [{ home: { abbr: 'NY-Y', name: 'Yankees' } }, /^home\.abbr must be 1-6 letters, digits, & or \.$/],
+    [{ away: { abbr: 'BOS', name: '' } }, /^away\.name is required/],
+    [{ home: { abbr: 'NYY', name: 'Yankees', color: 'navy' } }, /^home\.color must be a hex color/],
+    [{ home: { abbr: 'NYY', name: 'Yankees', logoUrl: 'ftp://x' } }, /^home\.logoUrl/],
+    [{ score: { home: -1, away: 0 } }, /^score\.home must be a whole number/],
+    [{ status: { state: 'halftime' } }, /^status\.state must be one of/],
+    [{ status: { state: 'in_progress', period: 0 } }, /^status\.period/],
+    [{ status: { state: 'in_progress', inningHalf: 'sideways' } }, /^status\.inningHalf must be one of top, middle, bottom, end/],
+    [{ status: { state: 'in_progress', possession: 'left' } }, /^status\.possession must be one of home, away/],
+    [{ status: { state: 'in_progress', outs: -1 } }, /^status\.outs must be a whole number/],
+    [{ status: { state: 'in_progress', down: 1.5 } }, /^status\.down must be a whole number/],
+    [{ status: { state: 'in_progress', shootout: 'yes' } }, /^status\.shootout must be true or false/],
+    [{ status: { state: 'in_progress', yardLine: 35 } }, /^status\.yardLine must be text/],
+    [{ leagueLabel: 'TOOLONGLABEL' }, /^leagueLabel is at most 8 characters/],
+    [{ startTime: 'tonight' }, /^startTime must be an ISO date-time/],
+    [{ id: 'Bad Id!' }, /^id may only contain/],
+  ];
+  for (const [patch, message] of cases) {
+    const result = await store.createGame({ ...game, ...patch }, now);
+    assert.ok('error' in result, JSON.stringify(patch));
+    assert.match(result.error, message);
+  }
+  assert.deepEqual(store.listGames(), []);
+}));
+
+test('updates merge into a manual game; null clears a status field', withStore(async (store) => {
+  const created = await store.createGame({ ...game, status: { state: 'in_progress', period: 3, inningHalf: 'top', outs: 1 } }, now);
+  assert.ok(!('error' in created));
+
+  const updated = await store.updateGame(created.id, { score: { home: 2 }, status: { inningHalf: 'bottom', outs: null } }, now);
+  assert.ok(updated && !('error' in updated));
+  assert.deepEqual(updated.score, { home: 2, away: 0 });
+  assert.deepEqual(updated.status, { state: 'in_progress', period: 3, inningHalf: 'bottom' });
+
+  const refused = await store.updateGame(created.id, { status: { inningHalf: 'sideways' } }, now);
+  assert.ok(refused && 'error' in refused);
+  assert.equal(store.getGame(created.id)!.status.inningHalf, 'bottom');
+  assert.equal(await store.updateGame('manual-nope', {}, now), null);
+}));
+
+test('overrides are validated like manual games', withStore(async (store) => {
+  const cases: [Record<string, any>, RegExp][] = [
+    [{}, /^An override needs at least one of/],
+    [{ status: { possession: 'left' } }, /^status\.possession/],
+    [{ status: { inningHalf: 'sideways' } }, /^status\.inningHalf/],
+    [{ score: { away: 'lots' } }, /^score\.away/],
+    [{ home: { abbr: 'CHICAGO' } }, /^home\.abbr must be 1-6 letters, digits, & or \.$/],
+  ];
+  for (const [body, message] of cases) {
+    const result = await store.setOverride(provider.id, body, now);
+    assert.ok('error' in result, JSON.stringify(body));
+    assert.match(result.error, message);
+  }
+  const manual = await store.setOverride('manual-bos-nyy-20260224', { score: { home: 1 } }, now);
+  assert.ok('error' in manual);
+}));
+
+test('override expiry: default, ttlMinutes, expiresAt and the cap', withStore(async (store) => {
+  const at = (ms: number) => new Date(now.getTime() + ms).toISOString();
+  const expiry = async (body: Record<string, any>) => {
+    const result = await store.setOverride(provider.id, { score: { home: 115 }, ...body }, now);
+    return 'error' in result ? result.error : result.expiresAt;
+  };
+
+  assert.equal(await expiry({}), at(4 * HOUR));
+  assert.equal(await expiry({ ttlMinutes: 30 }), at(30 * 60_000));
+  assert.equal(await expiry({ expiresAt: at(2 * HOUR) }), at(2 * HOUR));
+  assert.equal(await expiry({ ttlMinutes: 0 }), 'ttlMinutes must be positive');
+  assert.equal(await expiry({ expiresAt: 'soon' }), 'expiresAt must be an ISO date-time');
+  assert.equal(await expiry({ expiresAt: at(-60_000) }), 'expiresAt must be in the future');
+  assert.equal(await expiry({ ttlMinutes: 8 * 24 * 60 }), 'Overrides can last at most 168 hours');
+}));
+
+test('an override patches the provider game until it expires', withStore(async (store, file) => {
+  const set = await store.setOverride(provider.id, { score: { home: 115 }, status: { clock: '3:30' }, ttlMinutes: 10 }, now);
+  assert.ok(!('error' in set));
+
+  const [patched] = store.apply([provider], now) as Game[];
+  assert.deepEqual(patched.score, { home: 115, away: 111 });
+  assert.deepEqual(patched.status, { state: 'in_progress', period: 4, clock: '3:30' });
+  // Newer updatedAt, so the cached image re-renders
+  assert.equal(patched.updatedAt, now.toISOString());
+
+  // Saved, and back after a restart
+  const reloaded = new AdminStore({ file, overrideTtlMs: 4 * HOUR, maxOverrideTtlMs: 7 * 24 * HOUR });
+  reloaded.load();
+  assert.equal(reloaded.listOverrides(now).length, 1);
+
+  const later = new Date(now.getTime() + 11 * 60_000);
+  const [lapsed] = store.apply([provider], later) as Game[];
+  assert.deepEqual(lapsed, provider);
+  assert.deepEqual(store.listOverrides(later), []);
+}));
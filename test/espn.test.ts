@@ -0,0 +1,116 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { EspnScoreboard, mapScoreboardToGames } from '../src/dataProviders/espn';
+import { Game, SportType } from '../src/types';
+
+// Recorded payloads in data/fixtures/espn/, mapped the way ApiProvider maps a live response
+
+function fixture(league: string): EspnScoreboard {
+  const file = path.join(__dirname, '..', 'data', 'fixtures', 'espn', `${league}-scoreboard.json`);
+  return JSON.parse(fs.readFileSync(file, 'utf-8'));
+}
+
+// Through JSON, as the API serves them, so unset optional fields drop out
+function games(league: SportType): Game[] {
+  return JSON.parse(JSON.stringify(mapScoreboardToGames(fixture(league.toLowerCase()), league)));
+}
+
+test('NBA: live, final and scheduled games', () => {
+  const [live, final, pre] = games('NBA');
+  assert.equal(live.id, 'nba-phi-chi-20260224');
+  assert.deepEqual(live.score, { away: 111, home: 113 });
+  assert.deepEqual(live.status, { state: 'in_progress', period: 4, clock: '3:52', detail: '3:52 - 4th' });
+  assert.equal(live.away.abbr, 'PHI');
+  assert.equal(live.away.record, '6-2');
+  assert.equal(live.away.color, '#1d428a');
+  assert.equal(live.home.logoUrl, 'https://a.espncdn.com/i/teamlogos/nba/500/scoreboard/chi.png');
+
+  assert.equal(final.id, 'nba-lal-bos-20260224');
+  assert.deepEqual(final.score, { away: 102, home: 98 });
+  assert.equal(final.status.state, 'final');
+  assert.equal(final.home.record, '7-1');
+
+  // A 10:30 PM Eastern tip is already the next day in UTC; the id keeps the Eastern date
+  assert.equal(pre.id, 'nba-gs-mia-20260224');
+  assert.deepEqual(pre.score, { away: 0, home: 0 });
+  assert.deepEqual(pre.status, { state: 'pre', detail: '2/24 - 10:30 PM EST' });
+});
+
+test('NHL: overtime final and points records', () => {
+  const [live, final] = games('NHL');
+  assert.equal(live.id, 'nhl-bos-tor-20260226');
+  assert.deepEqual(live.score, { away: 2, home: 3 });
+  assert.equal(live.status.period, 2);
+  assert.equal(live.status.clock, '14:22');
+  assert.equal(live.away.record, '30-22-6');
+
+  assert.equal(final.id, 'nhl-col-nyr-20260226');
+  assert.deepEqual(final.score, { away: 4, home: 3 });
+  assert.deepEqual(final.status, { state: 'final', period: 4, detail: 'Final/OT' });
+  assert.equal(final.away.logoUrl, 'https://a.espncdn.com/i/teamlogos/nhl/500/scoreboard/col.png');
+});
+
+test('NFL: down, distance and possession; halftime', () => {
+  const [drive, half, final] = games('NFL');
+  assert.equal(drive.id, 'nfl-kc-buf-20261018');
+  assert.deepEqual(drive.score, { away: 20, home: 17 });
+  assert.equal(drive.status.period, 3);
+  assert.equal(drive.status.clock, '8:42');
+  assert.equal(drive.status.down, 3);
+  assert.equal(drive.status.distance, 7);
+  assert.equal(drive.status.yardLine, 'BUF 35');
+  assert.equal(drive.status.possession, 'away');
+  assert.equal(drive.away.record, '5-0');
+
+  assert.equal(half.id, 'nfl-dal-phi-20261018');
+  assert.equal(half.status.betweenPeriods, true);
+  assert.equal(half.status.down, undefined);
+
+  assert.equal(final.id, 'nfl-gb-chi-20261018');
+  assert.deepEqual(final.score, { away: 26, home: 23 });
+  assert.deepEqual(final.status, { state: 'final', period: 5, detail: 'Final/OT' });
+});
+
+test('MLB: inning half and outs; extra-inning final', () => {
+  const [live, final] = games('MLB');
+  assert.equal(live.id, 'mlb-lad-nym-20261018');
+  assert.deepEqual(live.score, { away: 4, home: 3 });
+  assert.equal(live.status.period, 7);
+  assert.equal(live.status.inningHalf, 'top');
+  assert.equal(live.status.outs, 2);
+  assert.equal(live.home.logoUrl, 'https://a.espncdn.com/i/teamlogos/mlb/500/scoreboard/nym.png');
+
+  assert.equal(final.id, 'mlb-hou-nyy-20261018');
+  assert.deepEqual(final.score, { away: 4, home: 5 });
+  assert.deepEqual(final.status, { state: 'final', period: 10, detail: 'Final/10' });
+  assert.equal(final.home.record, '3-1');
+});
+
+test('ids use the Eastern calendar day across daylight saving time', () => {
+  const at = (date: string) => {
+    const payload = fixture('nba');
+    const event = payload.events![0];
+    event.date = date;
+    event.competitions[0].date = date;
+    payload.events = [event];
+    return mapScoreboardToGames(payload, 'NBA')[0].id;
+  };
+  // 11:30 PM EST on Feb 24
+  assert.equal(at('2026-02-25T04:30Z'), 'nba-phi-chi-20260224');
+  // 8:30 PM EDT on Mar 8, the day clocks go forward
+  assert.equal(at('2026-03-09T00:30Z'), 'nba-phi-chi-20260308');
+  // 12:30 AM EDT on Oct 18: a fixed UTC-5 offset would say Oct 17
+  assert.equal(at('2026-10-18T04:30Z'), 'nba-phi-chi-20261018');
+  // 12:30 AM EST on Nov 2, the day after clocks go back
+  assert.equal(at('2026-11-02T05:30Z'), 'nba-phi-chi-20261102');
+});
+
+test('a competitor without a logo falls back to the league lookup', () => {
+  const payload = fixture('nba');
+  const competitor = payload.events![0].competitions[0].competitors.find((c) => c.homeAway === 'away')!;
+  delete competitor.team.logo;
+  const [game] = mapScoreboardToGames(payload, 'NBA');
+  assert.equal(game.away.logoUrl, 'https://a.espncdn.com/i/teamlogos/nba/500/phi.png');
+});
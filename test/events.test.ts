@@ -0,0 +1,98 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Game, GameStatus } from '../src/types';
+import { EventLog, GameEventDetector } from '../src/feed/events';
+
+const AT = new Date('2026-01-20T01:30:00Z');
+
+function nba(score: Game['score'], status: Partial<GameStatus> = {}, records = { home: '30-12', away: '22-20' }): Game {
+  return {
+    id: 'nba-lal-bos-20260119',
+    league: 'NBA',
+    home: { abbr: 'BOS', name: 'Celtics', color: '#007A33', record: records.home },
+    away: { abbr: 'LAL', name: 'Lakers', color: '#552583', record: records.away },
+    score,
+    status: { state: 'in_progress', period: 1, clock: '8:00', ...status },
+    updatedAt: AT.toISOString(),
+  };
+}
+
+function seeded(game: Game): GameEventDetector {
+  const detector = new GameEventDetector();
+  detector.update([game], AT);
+  return detector;
+}
+
+test('the first snapshot only seeds state', () => {
+  const detector = new GameEventDetector();
+  assert.deepEqual(detector.update([nba({ home: 10, away: 12 })], AT), []);
+});
+
+test('a game leaving pre is a start', () => {
+  const detector = seeded(nba({ home: 0, away: 0 }, { state: 'pre', period: undefined, clock: undefined }));
+  const events = detector.update([nba({ home: 0, away: 0 })], AT);
+  assert.deepEqual(events.map((e) => e.type), ['game_started']);
+  assert.equal(events[0].at, AT.toISOString());
+  assert.equal(events[0].message, 'LAL at BOS has started');
+});
+
+test('a score change between snapshots is a score, and a new leader a lead change', () => {
+  const detector = seeded(nba({ home: 20, away: 19 }));
+  const events = detector.update([nba({ home: 20, away: 22 })], AT);
+  assert.deepEqual(events.map((e) => [e.type, e.team, e.points]), [
+    ['scored', 'LAL', 3],
+    ['lead_change', 'LAL', undefined],
+  ]);
+  assert.deepEqual(events[0].score, { home: 20, away: 22 });
+  assert.equal(events[0].message, 'LAL scores (LAL 22, BOS 20)');
+});
+
+test('a lead change is caught across a tie', () => {
+  const detector = seeded(nba({ home: 20, away: 18 }));
+  const tied = detector.update([nba({ home: 20, away: 20 })], AT);
+  assert.deepEqual(tied.map((e) => e.type), ['scored']);
+  const ahead = detector.update([nba({ home: 20, away: 21 })], AT);
+  assert.deepEqual(ahead.map((e) => e.type), ['scored', 'lead_change']);
+});
+
+test('an unchanged snapshot yields nothing', () => {
+  const detector = seeded(nba({ home: 20, away: 18 }));
+  assert.deepEqual(detector.update([nba({ home: 20, away: 18 })], AT), []);
+});
+
+test('a break or a new period number ends the period', () => {
+  const detector = seeded(nba({ home: 30, away: 28 }));
+  const events = detector.update([nba({ home: 30, away: 28 }, { betweenPeriods: true, clock: '0:00' })], AT);
+  assert.deepEqual(events.map((e) => [e.type, e.period]), [['period_ended', 'Q1']]);
+
+  const skipped = seeded(nba({ home: 30, away: 28 }, { period: 2 }));
+  const missed = skipped.update([nba({ home: 30, away: 28 }, { period: 3 })], AT);
+  assert.deepEqual(missed.map((e) => [e.type, e.period]), [['period_ended', 'Q2']]);
+});
+
+test('a final names the winner, and an upset when the record gap is wide enough', () => {
+  const detector = seeded(nba({ home: 98, away: 99 }, { period: 4 }));
+  const events = detector.update([nba({ home: 98, away: 101 }, { state: 'final', period: 4 })], AT);
+  assert.deepEqual(events.map((e) => [e.type, e.team]), [
+    ['scored', 'LAL'],
+    ['went_final', 'LAL'],
+    ['upset', 'LAL'],
+  ]);
+  assert.equal(events[2].message, 'Upset: LAL beats BOS (LAL 101, BOS 98)');
+
+  const close = seeded(nba({ home: 98, away: 99 }, { period: 4 }, { home: '24-18', away: '22-20' }));
+  const finals = close.update([nba({ home: 98, away: 99 }, { state: 'final', period: 4 }, { home: '24-18', away: '22-20' })], AT);
+  assert.deepEqual(finals.map((e) => e.type), ['went_final']);
+});
+
+test('the event log numbers events and filters by since, type and team', () => {
+  const log = new EventLog(3);
+  const detector = seeded(nba({ home: 20, away: 19 }));
+  log.append(detector.update([nba({ home: 20, away: 22 })], AT));
+  log.append(detector.update([nba({ home: 23, away: 22 })], AT));
+  assert.equal(log.lastSeq, 4);
+  assert.deepEqual(log.query().map((e) => e.seq), [2, 3, 4]);
+  assert.deepEqual(log.query({ since: 2, types: ['scored'] }).map((e) => e.team), ['BOS']);
+  assert.deepEqual(log.query({ teams: ['lal'], limit: 1 }).map((e) => e.seq), [4]);
+  assert.deepEqual(log.query({ teams: ['NYK'] }), []);
+});
@@ -0,0 +1,109 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FeedEntry, FilterPreset, Game, GameStatus, PgaFeedItem } from '../src/types';
+import { EntryFilter, filterEntries, listPresets, loadPresets, matchesFilter, parseFilter } from '../src/feed/filters';
+
+function game(league: Game['league'], away: string, home: string, state: GameStatus['state']): Game {
+  return {
+    id: `${league.toLowerCase()}-${away.toLowerCase()}-${home.toLowerCase()}`,
+    league,
+    home: { abbr: home, name: home, color: '#111111' },
+    away: { abbr: away, name: away, color: '#222222' },
+    score: { home: 0, away: 0 },
+    status: { state },
+    updatedAt: '2026-10-18T00:00:00.000Z',
+  };
+}
+
+const golf: PgaFeedItem = {
+  type: 'pga',
+  id: 'pga-open',
+  sport: 'PGA',
+  tournament: 'The Open',
+  course: 'Links',
+  round: 'Round 2',
+  players: [],
+  state: 'live',
+  statusText: 'Round 2',
+};
+
+const ENTRIES: FeedEntry[] = [
+  game('NBA', 'CHI', 'BOS', 'in_progress'),
+  game('NHL', 'CHI', 'DET', 'pre'),
+  game('NFL', 'GB', 'CHI', 'final'),
+  game('NBA', 'LAL', 'NYK', 'final'),
+  golf,
+];
+
+function parsed(query: Record<string, unknown>): EntryFilter {
+  const result = parseFilter(query);
+  if ('error' in result) throw new Error(result.error);
+  return result.filter;
+}
+
+function ids(query: Record<string, unknown>): string[] {
+  return filterEntries(ENTRIES, parsed(query)).map((e) => e.id);
+}
+
+function withPresets(presets: FilterPreset[]): void {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ticker-test-'));
+  const file = path.join(dir, 'presets.json');
+  fs.writeFileSync(file, JSON.stringify(presets));
+  loadPresets(file);
+}
+
+test('no query passes everything under an empty key', () => {
+  const filter = parsed({});
+  assert.equal(filter.key, '');
+  assert.equal(filterEntries(ENTRIES, filter), ENTRIES);
+});
+
+test('a team matches either side, in any league unless scoped', () => {
+  assert.deepEqual(ids({ team: 'chi' }), ['nba-chi-bos', 'nhl-chi-det', 'nfl-gb-chi']);
+  assert.deepEqual(ids({ team: 'NHL:CHI' }), ['nhl-chi-det']);
+  assert.deepEqual(ids({ team: 'CHI,NYK', league: 'NBA' }), ['nba-chi-bos', 'nba-lal-nyk']);
+});
+
+test('states map in-progress games to live and include leaderboards', () => {
+  assert.deepEqual(ids({ state: 'live' }), ['nba-chi-bos', 'pga-open']);
+  assert.deepEqual(ids({ state: 'pre,final', league: 'nfl,nhl' }), ['nhl-chi-det', 'nfl-gb-chi']);
+});
+
+test('a team rule never matches a leaderboard', () => {
+  assert.equal(matchesFilter(golf, parsed({ league: 'PGA' })), true);
+  assert.equal(matchesFilter(golf, parsed({ team: 'CHI' })), false);
+});
+
+test('the key is canonical so it can key caches', () => {
+  assert.equal(parsed({ state: 'LIVE', team: ' chi ', league: 'nba' }).key, 'league=NBA&team=CHI&state=live');
+  assert.equal(parsed({ team: 'NBA:CHI' }).key, 'team=NBA%3ACHI');
+});
+
+test('unknown leagues and states and malformed teams are errors', () => {
+  assert.deepEqual(parseFilter({ league: 'XFL' }), { error: 'Unknown league XFL (available: NBA, NHL, NFL, MLB, NCAAF, NCAAB, PGA)' });
+  assert.deepEqual(parseFilter({ state: 'halftime' }), { error: 'Unknown state halftime (available: pre, live, final)' });
+  assert.deepEqual(parseFilter({ team: '<script>' }), { error: 'Invalid team <SCRIPT>' });
+});
+
+test('a preset matches any of its rules and combines with query fields', () => {
+  withPresets([
+    { name: 'Chicago', label: 'Chicago + live', rules: [{ teams: ['chi'] }, { states: ['live'] }] },
+    { name: 'bad name!', rules: [] },
+  ]);
+  assert.deepEqual(listPresets().map((p) => p.name), ['Chicago']);
+
+  assert.deepEqual(ids({ preset: 'chicago' }), ['nba-chi-bos', 'nhl-chi-det', 'nfl-gb-chi', 'pga-open']);
+  assert.deepEqual(ids({ preset: 'CHICAGO', league: 'NFL' }), ['nfl-gb-chi']);
+  assert.equal(parsed({ preset: 'Chicago', state: 'final' }).key, 'preset=chicago&state=final');
+  assert.deepEqual(parseFilter({ preset: 'boston' }), { error: 'Unknown preset (available: Chicago)' });
+});
+
+test('a missing presets file clears them', () => {
+  withPresets([{ name: 'nba', rules: [{ leagues: ['NBA'] }] }]);
+  loadPresets(path.join(os.tmpdir(), 'ticker-test-missing', 'presets.json'));
+  assert.deepEqual(listPresets(), []);
+  assert.deepEqual(parseFilter({ preset: 'nba' }), { error: 'Unknown preset (available: none)' });
+});
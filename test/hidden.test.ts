@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AdminStore } from '../src/admin/adminStore';
+import { GameEventDetector } from '../src/feed/events';
+import { FeedAggregator } from '../src/feed/feedAggregator';
+import { isGame } from '../src/feed/feedItems';
+import { FeedEntry, FeedProvider, Game } from '../src/types';
+
+// The refresh loop as server.ts runs it: events come from the snapshot before hide/pin
+
+const games: Game[] = JSON.parse(fs.readFileSync(path.join(__dirname, '..', 'data', 'mockGames.json'), 'utf-8'));
+
+const provider: FeedProvider = {
+  getSport: () => 'NBA',
+  fetchEntries: async (): Promise<FeedEntry[]> => games.filter((g) => g.league === 'NBA'),
+};
+
+test('hiding and un-hiding a game produces no events', async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ticker-test-'));
+  try {
+    const admin = new AdminStore({ file: path.join(dir, 'admin.json'), overrideTtlMs: 60_000, maxOverrideTtlMs: 3_600_000 });
+    const feed = new FeedAggregator([provider], admin);
+    const detector = new GameEventDetector();
+    const refresh = async () => {
+      const snapshot = await feed.refresh();
+      return { snapshot, events: detector.update(snapshot.all.filter(isGame)) };
+    };
+
+    await refresh();
+    const id = 'nba-lal-bos-20260224';
+    assert.ok(await admin.setFlags(id, { hidden: true }));
+    const hidden = await refresh();
+    assert.ok(!hidden.snapshot.entries.some((e) => e.id === id));
+    assert.deepEqual(hidden.events, []);
+
+    assert.ok(await admin.setFlags(id, { hidden: false }));
+    const shown = await refresh();
+    assert.ok(shown.snapshot.entries.some((e) => e.id === id));
+    assert.deepEqual(shown.events, []);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
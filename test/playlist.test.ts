@@ -0,0 +1,138 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Daypart, Game, GameStatus } from '../src/types';
+import { PlaylistEngine, PlaylistOptions } from '../src/playlist/playlist';
+
+const OPTIONS: PlaylistOptions = {
+  timezone: 'America/New_York',
+  preGameHours: 6,
+  dwellMs: { close: 15_000, live: 10_000, pre: 6_000, final: 5_000, sponsor: 6_000 },
+  priority: { close: 100, live: 80, pre: 40, final: 20 },
+  close: { NBA: { period: 4, margin: 6 } },
+};
+
+// Friday 16 October 2026 is EDT (UTC-4)
+const FRI_2330 = Date.parse('2026-10-17T03:30:00Z');
+const SAT_0030 = Date.parse('2026-10-17T04:30:00Z');
+const SAT_0130 = Date.parse('2026-10-17T05:30:00Z');
+const SAT_2330 = Date.parse('2026-10-18T03:30:00Z');
+const SUN_0030 = Date.parse('2026-10-18T04:30:00Z');
+const MON_0030 = Date.parse('2026-10-19T04:30:00Z');
+
+function engine(dayparts: Daypart[]): PlaylistEngine {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ticker-test-'));
+  const file = path.join(dir, 'playlist.json');
+  fs.writeFileSync(file, JSON.stringify(dayparts));
+  const playlist = new PlaylistEngine(OPTIONS);
+  playlist.loadFromFile(file);
+  return playlist;
+}
+
+function game(id: string, league: Game['league'], status: Partial<GameStatus>, score = { home: 50, away: 40 }): Game {
+  return {
+    id,
+    league,
+    home: { abbr: 'HOM', name: 'Home', color: '#111111' },
+    away: { abbr: 'AWY', name: 'Away', color: '#222222' },
+    score,
+    status: { state: 'in_progress', period: 2, ...status },
+    updatedAt: '2026-10-17T03:00:00.000Z',
+  };
+}
+
+test('a daypart ending before it starts runs past midnight', () => {
+  const playlist = engine([{ name: 'late', start: '22:00', end: '01:00' }]);
+  assert.equal(playlist.daypartAt(FRI_2330)?.name, 'late');
+  assert.equal(playlist.daypartAt(SAT_0030)?.name, 'late');
+  assert.equal(playlist.daypartAt(SAT_0130), null);
+});
+
+test('past midnight a daypart counts as the day it started', () => {
+  const playlist = engine([{ name: 'friday-late', days: ['Friday'], start: '22:00', end: '01:00' }]);
+  assert.equal(playlist.daypartAt(FRI_2330)?.name, 'friday-late');
+  assert.equal(playlist.daypartAt(SAT_0030)?.name, 'friday-late');
+  assert.equal(playlist.daypartAt(SAT_2330), null);
+  assert.equal(playlist.daypartAt(SUN_0030), null);
+
+  const weeknights = engine([{ name: 'weeknights', days: ['mon', 'tue', 'wed', 'thu', 'fri'], start: '19:00', end: '01:00' }]);
+  assert.equal(weeknights.daypartAt(SAT_0030)?.name, 'weeknights');
+  assert.equal(weeknights.daypartAt(MON_0030), null);
+});
+
+test('the first matching daypart wins and malformed ones are skipped', () => {
+  const playlist = engine([
+    { name: 'broken', start: '25:99', end: '02:00' },
+    { name: 'night', start: '20:00', end: '02:00' },
+    { name: 'any', start: '00:00', end: '24:00' },
+  ]);
+  assert.deepEqual(playlist.listDayparts().map((d) => d.name), ['night', 'any']);
+  assert.equal(playlist.daypartAt(SAT_0030)?.name, 'night');
+  assert.equal(playlist.daypartAt(Date.parse('2026-10-17T16:00:00Z'))?.name, 'any');
+});
+
+test('items get the dwell and priority of their kind, in priority order', () => {
+  const playlist = engine([]);
+  const schedule = playlist.build(
+    [
+      game('final', 'NBA', { state: 'final', period: 4 }),
+      game('live', 'NBA', {}),
+      game('close', 'NBA', { period: 4 }, { home: 88, away: 85 }),
+    ],
+    FRI_2330
+  );
+  assert.equal(schedule.daypart, null);
+  assert.deepEqual(schedule.items.map((i) => [i.entry.id, i.kind, i.dwellMs, i.priority]), [
+    ['close', 'close', 15_000, 100],
+    ['live', 'live', 10_000, 80],
+    ['final', 'final', 5_000, 20],
+  ]);
+  assert.equal(schedule.totalMs, 30_000);
+  assert.equal(schedule.sponsorDwellMs, 6_000);
+});
+
+test('a daypart overrides dwell, narrows kinds and boosts leagues', () => {
+  const playlist = engine([{
+    name: 'late',
+    start: '22:00',
+    end: '01:00',
+    kinds: ['live', 'final'],
+    dwellMs: { live: 20_000, sponsor: 3_000 },
+    leagueBoost: { NHL: 100 },
+  }]);
+  const entries = [
+    game('nba-live', 'NBA', {}),
+    game('nba-close', 'NBA', { period: 4 }, { home: 88, away: 85 }),
+    game('nhl-final', 'NHL', { state: 'final', period: 3 }),
+  ];
+
+  const late = playlist.build(entries, SAT_0030);
+  assert.equal(late.daypart, 'late');
+  assert.deepEqual(late.items.map((i) => [i.entry.id, i.dwellMs, i.priority]), [
+    ['nhl-final', 5_000, 120],
+    ['nba-live', 20_000, 80],
+  ]);
+  assert.equal(late.sponsorDwellMs, 3_000);
+
+  const morning = playlist.build(entries, SAT_0130);
+  assert.equal(morning.daypart, null);
+  assert.equal(morning.items.length, 3);
+});
+
+test('pre-game entries wait for their window, pinned entries play first regardless', () => {
+  const playlist = engine([{ name: 'late', start: '22:00', end: '01:00', kinds: ['live'] }]);
+  const soon = { ...game('soon', 'NBA', { state: 'pre' }), startTime: '2026-10-17T06:00:00Z' };
+  const later = { ...game('later', 'NBA', { state: 'pre' }), startTime: '2026-10-18T00:00:00Z' };
+  const final = game('final', 'NBA', { state: 'final', period: 4 });
+
+  const open = engine([]).build([later, soon], SAT_0030);
+  assert.deepEqual(open.items.map((i) => i.entry.id), ['soon']);
+
+  const pinned = playlist.build([soon, final, game('live', 'NBA', {})], SAT_0030, new Set(['final']));
+  assert.deepEqual(pinned.items.map((i) => [i.entry.id, i.pinned]), [
+    ['final', true],
+    ['live', false],
+  ]);
+});
@@ -0,0 +1,100 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { FeedEntry, FeedProvider, Game } from '../src/types';
+import { ProviderGuard } from '../src/feed/providerGuard';
+
+const GAME: Game = {
+  id: 'nhl-chi-det-20261018',
+  league: 'NHL',
+  home: { abbr: 'DET', name: 'Red Wings', color: '#CE1126' },
+  away: { abbr: 'CHI', name: 'Blackhawks', color: '#CF0A2C' },
+  score: { home: 1, away: 2 },
+  status: { state: 'in_progress', period: 2 },
+  updatedAt: '2026-10-18T23:40:00.000Z',
+};
+
+/** Answers from a script of results: entries, an error, or 'hang'. */
+class ScriptedProvider implements FeedProvider {
+  calls = 0;
+  private script: (FeedEntry[] | Error | 'hang')[];
+
+  constructor(script: (FeedEntry[] | Error | 'hang')[]) {
+    this.script = script;
+  }
+
+  getSport() {
+    return 'NHL' as const;
+  }
+
+  fetchEntries(): Promise<FeedEntry[]> {
+    const next = this.script[Math.min(this.calls++, this.script.length - 1)];
+    if (next === 'hang') return new Promise(() => {});
+    return next instanceof Error ? Promise.reject(next) : Promise.resolve(next);
+  }
+}
+
+const DOWN = new Error('503 from upstream');
+const T0 = new Date('2026-10-18T23:40:00Z');
+const at = (ms: number) => new Date(T0.getTime() + ms);
+
+test('a failed call is retried with backoff before the refresh fails', async () => {
+  const provider = new ScriptedProvider([DOWN, DOWN, [GAME]]);
+  const guard = new ProviderGuard(provider, { retries: 2, backoffMs: 5 });
+  assert.deepEqual(await guard.fetch(T0), { entries: [GAME], stale: false });
+  assert.equal(provider.calls, 3);
+  assert.equal(guard.status(T0).status, 'ok');
+});
+
+test('a hung call times out and counts as a failure', async () => {
+  const guard = new ProviderGuard(new ScriptedProvider(['hang']), { timeoutMs: 20, retries: 0 });
+  assert.deepEqual(await guard.fetch(T0), { entries: [], stale: true });
+  const status = guard.status(T0);
+  assert.equal(status.status, 'down');
+  assert.equal(status.lastError, 'Timed out after 20ms');
+});
+
+test('failing refreshes serve the last good entries flagged stale, then open the circuit', async () => {
+  const provider = new ScriptedProvider([[GAME], DOWN]);
+  const guard = new ProviderGuard(provider, { retries: 1, backoffMs: 1, failureThreshold: 2, cooldownMs: 60_000 });
+
+  await guard.fetch(T0);
+  assert.deepEqual(await guard.fetch(at(1_000)), { entries: [GAME], stale: true });
+  assert.equal(provider.calls, 3);
+  assert.equal(guard.status(at(1_000)).circuit, 'closed');
+
+  assert.deepEqual(await guard.fetch(at(2_000)), { entries: [GAME], stale: true });
+  const status = guard.status(at(2_000));
+  assert.equal(status.status, 'stale');
+  assert.equal(status.circuit, 'open');
+  assert.equal(status.consecutiveFailures, 2);
+  assert.equal(status.entries, 1);
+  assert.equal(status.lastError, DOWN.message);
+  assert.equal(status.retryAt, at(62_000).toISOString());
+
+  // Open: the provider is left alone until the cooldown ends
+  assert.deepEqual(await guard.fetch(at(30_000)), { entries: [GAME], stale: true });
+  assert.equal(provider.calls, 5);
+});
+
+test('a half-open circuit makes one trial call: failure reopens it, success closes it', async () => {
+  const provider = new ScriptedProvider([DOWN, DOWN, DOWN, [GAME]]);
+  const guard = new ProviderGuard(provider, { retries: 1, backoffMs: 1, failureThreshold: 1, cooldownMs: 60_000 });
+
+  await guard.fetch(T0);
+  assert.equal(provider.calls, 2);
+  assert.equal(guard.status(at(60_000)).circuit, 'half-open');
+
+  assert.deepEqual(await guard.fetch(at(60_000)), { entries: [], stale: true });
+  assert.equal(provider.calls, 3);
+  const reopened = guard.status(at(60_000));
+  assert.equal(reopened.circuit, 'open');
+  assert.equal(reopened.status, 'down');
+  assert.equal(reopened.retryAt, at(120_000).toISOString());
+
+  assert.deepEqual(await guard.fetch(at(120_000)), { entries: [GAME], stale: false });
+  assert.equal(provider.calls, 4);
+  const closed = guard.status(at(120_000));
+  assert.equal(closed.circuit, 'closed');
+  assert.equal(closed.status, 'ok');
+  assert.equal(closed.consecutiveFailures, 0);
+});
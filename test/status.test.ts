@@ -0,0 +1,27 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Game, GameStatus } from '../src/types';
+import { formatStatus } from '../src/utils/status';
+
+function mlb(status: Partial<GameStatus>): Game {
+  return {
+    id: 'mlb-bos-nyy-20260601',
+    league: 'MLB',
+    home: { abbr: 'NYY', name: 'Yankees', color: '#0C2340' },
+    away: { abbr: 'BOS', name: 'Red Sox', color: '#BD3039' },
+    score: { home: 2, away: 1 },
+    status: { state: 'in_progress', period: 3, ...status },
+    updatedAt: '2026-06-01T23:40:00.000Z',
+  };
+}
+
+test('an inning shows its half when known', () => {
+  assert.equal(formatStatus(mlb({ inningHalf: 'bottom', outs: 2 })), 'BOT 3RD 2 OUTS');
+  assert.equal(formatStatus(mlb({ inningHalf: 'middle' }), { style: 'text' }), 'Middle 3rd');
+});
+
+test('a missing or unknown half is left out, not guessed', () => {
+  assert.equal(formatStatus(mlb({})), '3RD');
+  assert.equal(formatStatus(mlb({ inningHalf: 'sideways' as GameStatus['inningHalf'] }), { style: 'text' }), '3rd');
+  assert.equal(formatStatus(mlb({ inningHalf: 'constructor' as GameStatus['inningHalf'] })), '3RD');
+});
@@ -0,0 +1,136 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as crypto from 'crypto';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { GameEvent } from '../src/feed/events';
+import { WebhookDelivery, WebhookDispatcher } from '../src/webhooks/dispatcher';
+
+// The dispatcher against a local receiver that answers with scripted statuses
+
+interface Received {
+  at: number;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+async function receiver(statuses: number[]) {
+  const received: Received[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      received.push({ at: Date.now(), headers: req.headers, body });
+      res.writeHead(statuses[Math.min(received.length, statuses.length) - 1]).end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+  return { url, received, close: () => new Promise<void>((resolve) => server.close(() => resolve())) };
+}
+
+const event: GameEvent = {
+  seq: 7,
+  type: 'scored',
+  at: '2026-02-24T20:31:00.000Z',
+  gameId: 'nba-phi-chi-20260224',
+  league: 'NBA',
+  team: 'CHI',
+  points: 3,
+  score: { away: 111, home: 116 },
+  away: 'PHI',
+  home: 'CHI',
+  statusText: 'Q4 3:30',
+  message: 'CHI scores 3 (PHI 111 - CHI 116)',
+};
+
+async function settled(dispatcher: WebhookDispatcher): Promise<WebhookDelivery> {
+  for (let i = 0; i < 200; i++) {
+    const [delivery] = dispatcher.listDeliveries();
+    if (delivery && delivery.status !== 'pending') return delivery;
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  throw new Error('Delivery never settled');
+}
+
+test('signs the body with HMAC-SHA256 over "<timestamp>.<body>"', async () => {
+  const hook = await receiver([200]);
+  try {
+    const dispatcher = new WebhookDispatcher();
+    dispatcher.setSubscriptions([{ id: 'bulls', url: hook.url, secret: 'change-me', teams: ['CHI'] }]);
+    dispatcher.dispatch([event]);
+    const delivery = await settled(dispatcher);
+
+    assert.equal(hook.received.length, 1);
+    const { headers, body } = hook.received[0];
+    const expected = crypto.createHmac('sha256', 'change-me').update(`${headers['x-ticker-timestamp']}.${body}`).digest('hex');
+    assert.equal(headers['x-ticker-signature'], `sha256=${expected}`);
+    assert.equal(headers['x-ticker-event'], 'scored');
+    assert.equal(headers['x-ticker-delivery'], delivery.id);
+    assert.deepEqual(JSON.parse(body), { subscription: 'bulls', delivery: delivery.id, event });
+  } finally {
+    await hook.close();
+  }
+});
+
+test('retries a 500 with backoff and logs the delivery', async () => {
+  const hook = await receiver([500, 500, 200]);
+  try {
+    const dispatcher = new WebhookDispatcher({ baseDelayMs: 40 });
+    dispatcher.setSubscriptions([{ id: 'bulls', url: hook.url }]);
+    dispatcher.dispatch([event]);
+    const delivery = await settled(dispatcher);
+
+    assert.equal(hook.received.length, 3);
+    // 40ms, then 80ms
+    assert.ok(hook.received[1].at - hook.received[0].at >= 35);
+    assert.ok(hook.received[2].at - hook.received[1].at >= 75);
+    assert.equal(hook.received[0].headers['x-ticker-signature'], undefined);
+    assert.equal(delivery.subscriptionId, 'bulls');
+    assert.equal(delivery.eventSeq, 7);
+    assert.equal(delivery.status, 'delivered');
+    assert.equal(delivery.attempts, 3);
+    assert.equal(delivery.responseStatus, 200);
+    assert.equal(delivery.error, undefined);
+  } finally {
+    await hook.close();
+  }
+});
+
+test('gives up after maxAttempts, and at once on a 4xx', async () => {
+  const failing = await receiver([503]);
+  const rejecting = await receiver([404]);
+  try {
+    const dispatcher = new WebhookDispatcher({ baseDelayMs: 10, maxAttempts: 3 });
+    dispatcher.setSubscriptions([{ id: 'down', url: failing.url }]);
+    dispatcher.dispatch([event]);
+    const down = await settled(dispatcher);
+    assert.equal(down.status, 'failed');
+    assert.equal(down.attempts, 3);
+    assert.equal(down.error, 'HTTP 503');
+    assert.equal(failing.received.length, 3);
+
+    const once = new WebhookDispatcher({ baseDelayMs: 10 });
+    once.setSubscriptions([{ id: 'gone', url: rejecting.url }]);
+    once.dispatch([event]);
+    const gone = await settled(once);
+    assert.equal(gone.status, 'failed');
+    assert.equal(gone.attempts, 1);
+    assert.equal(gone.responseStatus, 404);
+  } finally {
+    await failing.close();
+    await rejecting.close();
+  }
+});
+
+test('only matching subscriptions get a delivery', () => {
+  const dispatcher = new WebhookDispatcher();
+  dispatcher.setSubscriptions([
+    { id: 'nhl', url: 'http://127.0.0.1:9/hook', leagues: ['NHL'] },
+    { id: 'phi-scores', url: 'http://127.0.0.1:9/hook', teams: ['PHI'] },
+    { id: 'finals', url: 'http://127.0.0.1:9/hook', events: ['went_final'] },
+  ]);
+  // Nothing matches, so nothing is sent
+  dispatcher.dispatch([event]);
+  assert.deepEqual(dispatcher.listDeliveries(), []);
+});